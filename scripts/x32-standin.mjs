@@ -0,0 +1,32 @@
+import dgram from "node:dgram";
+
+// Answers X32 `/xinfo` queries so the desktop app's Discover button can be tried without a desk.
+// Usage: node scripts/x32-standin.mjs [port] [name] [model] [firmware]
+const [port = "10023", name = "X32-STANDIN", model = "X32", firmware = "4.06"] = process.argv.slice(2);
+
+const padded = (buffer) => Buffer.concat([buffer, Buffer.alloc(4 - (buffer.length % 4))]);
+const oscString = (value) => padded(Buffer.from(value, "utf8"));
+
+const readAddress = (message) => {
+  const end = message.indexOf(0);
+  return end > 0 ? message.toString("utf8", 0, end) : "";
+};
+
+const xinfoReply = (ip) => {
+  const args = [ip, name, model, firmware];
+  return Buffer.concat([oscString("/xinfo"), oscString(`,${"s".repeat(args.length)}`), ...args.map(oscString)]);
+};
+
+const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+
+socket.on("message", (message, remote) => {
+  if (readAddress(message) !== "/xinfo") return;
+  const { address } = socket.address();
+  const ip = address === "0.0.0.0" ? "127.0.0.1" : address;
+  socket.send(xinfoReply(ip), remote.port, remote.address);
+  console.log(`Answered /xinfo from ${remote.address}:${remote.port}`);
+});
+
+socket.bind(Number(port), () => {
+  console.log(`X32 stand-in "${name}" listening on UDP ${port}`);
+});
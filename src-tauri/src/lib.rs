@@ -1,112 +1,23 @@
 use std::{
-  collections::HashMap,
   fs,
   io::{Read, Write},
-  net::{Shutdown, TcpStream, UdpSocket},
-  path::{Component, Path},
+  net::{Shutdown, TcpStream, ToSocketAddrs, UdpSocket},
+  path::{Component, Path, PathBuf},
   sync::{
     atomic::{AtomicBool, Ordering},
-    Arc, Mutex,
+    Mutex,
   },
-  thread,
   time::{Duration, Instant, SystemTime, UNIX_EPOCH},
 };
 
-use rosc::{encoder, OscMessage, OscPacket, OscType};
 use serde::Serialize;
-use tauri::Emitter;
+use tauri::{Emitter, Manager};
+
+mod x32;
 
 #[derive(Default)]
 struct X32ListenerState {
-  inner: Mutex<Option<X32ListenerHandle>>,
-}
-
-struct X32ListenerHandle {
-  stop: Arc<AtomicBool>,
-  thread: Option<thread::JoinHandle<()>>,
-}
-
-#[derive(Clone, Copy, Debug)]
-struct ChannelState {
-  on: bool,
-  fader: f32,
-}
-
-#[derive(Serialize, Clone)]
-struct MicChannelPayload {
-  channel: u8,
-  on: bool,
-  fader: f32,
-  live: bool,
-}
-
-#[derive(Serialize, Clone)]
-struct MicStatePayload {
-  channels: Vec<MicChannelPayload>,
-  any_live: bool,
-  updated_at: u64,
-}
-
-fn osc_arg_to_f32(arg: &OscType) -> Option<f32> {
-  match arg {
-    OscType::Float(value) => Some(*value),
-    OscType::Double(value) => Some(*value as f32),
-    OscType::Int(value) => Some(*value as f32),
-    OscType::Long(value) => Some(*value as f32),
-    _ => None,
-  }
-}
-
-fn parse_channel_from_addr(addr: &str) -> Option<u8> {
-  let parts: Vec<&str> = addr.split('/').collect();
-  if parts.len() < 3 {
-    return None;
-  }
-  if parts[1] != "ch" {
-    return None;
-  }
-  parts[2].parse::<u8>().ok()
-}
-
-fn send_subscribe(socket: &UdpSocket, target: &str, address: &str, time_factor: i32) {
-  let message = OscMessage {
-    addr: "/subscribe".to_string(),
-    args: vec![OscType::String(address.to_string()), OscType::Int(time_factor)],
-  };
-  let packet = OscPacket::Message(message);
-  if let Ok(buf) = encoder::encode(&packet) {
-    let _ = socket.send_to(&buf, target);
-  }
-}
-
-fn emit_state(
-  app: &tauri::AppHandle,
-  channels: &[u8],
-  states: &HashMap<u8, ChannelState>,
-  threshold: f32,
-) {
-  let mut payload_channels = Vec::with_capacity(channels.len());
-  for channel in channels {
-    let state = states.get(channel).copied().unwrap_or(ChannelState { on: false, fader: 0.0 });
-    let live = state.on && state.fader > threshold;
-    payload_channels.push(MicChannelPayload {
-      channel: *channel,
-      on: state.on,
-      fader: state.fader,
-      live,
-    });
-  }
-  let any_live = payload_channels.iter().any(|entry| entry.live);
-  let updated_at = SystemTime::now()
-    .duration_since(UNIX_EPOCH)
-    .map(|duration| duration.as_millis() as u64)
-    .unwrap_or(0);
-  let payload = MicStatePayload {
-    channels: payload_channels,
-    any_live,
-    updated_at,
-  };
-  let _ = app.emit("x32_mic_state", payload);
+  inner: Mutex<Option<x32::ListenerHandle>>,
 }
 
 #[tauri::command]
@@ -115,125 +26,48 @@ fn start_x32_listener(
   state: tauri::State<X32ListenerState>,
   host: String,
   port: u16,
-  channels: Vec<u8>,
-  threshold: f32,
+  inputs: Vec<x32::StripArg>,
+  buses: Vec<u8>,
+  dcas: Vec<u8>,
+  main: bool,
+  meters: bool,
 ) -> Result<(), String> {
   stop_x32_listener(state.clone())?;
 
-  let socket = UdpSocket::bind("0.0.0.0:0").map_err(|err| err.to_string())?;
-  socket
-    .set_read_timeout(Some(Duration::from_millis(250)))
-    .map_err(|err| err.to_string())?;
-
-  let target = format!("{host}:{port}");
-  let channel_list = if channels.is_empty() {
-    vec![1, 2, 3, 4, 5, 6]
-  } else {
-    channels
+  let config = x32::ListenerConfig {
+    host,
+    port,
+    inputs,
+    buses,
+    dcas,
+    main,
+    meters,
   };
-  let subscribe_paths: Vec<String> = channel_list
-    .iter()
-    .flat_map(|channel| {
-      [
-        format!("/ch/{:02}/mix/on", channel),
-        format!("/ch/{:02}/mix/fader", channel),
-      ]
-    })
-    .collect();
-
-  let stop_flag = Arc::new(AtomicBool::new(false));
-  let thread_stop = stop_flag.clone();
-  let app_handle = app.clone();
-
-  let handle = thread::spawn(move || {
-    let mut states: HashMap<u8, ChannelState> = HashMap::new();
-    let mut last_subscribe = Instant::now() - Duration::from_secs(30);
-    let mut buf = [0u8; 2048];
-
-    while !thread_stop.load(Ordering::Relaxed) {
-      if last_subscribe.elapsed() >= Duration::from_secs(8) {
-        for path in &subscribe_paths {
-          send_subscribe(&socket, &target, path, 20);
-        }
-        last_subscribe = Instant::now();
-      }
-
-      match socket.recv_from(&mut buf) {
-        Ok((size, _)) => {
-          if let Ok((_, packet)) = rosc::decoder::decode_udp(&buf[..size]) {
-            handle_packet(&app_handle, &channel_list, &mut states, threshold, packet);
-          }
-        }
-        Err(err) if err.kind() == std::io::ErrorKind::WouldBlock => {}
-        Err(err) if err.kind() == std::io::ErrorKind::TimedOut => {}
-        Err(_) => {}
-      }
-    }
-  });
+  let meter_app = app.clone();
+  let handle = x32::spawn_listener(
+    config,
+    move |payload| {
+      let _ = app.emit("x32_mic_state", payload);
+    },
+    move |frame| {
+      let _ = meter_app.emit("x32_meters", frame);
+    },
+  )?;
 
   let mut guard = state.inner.lock().map_err(|_| "Listener lock poisoned".to_string())?;
-  *guard = Some(X32ListenerHandle {
-    stop: stop_flag,
-    thread: Some(handle),
-  });
+  *guard = Some(handle);
   Ok(())
 }
 
-fn handle_packet(
-  app: &tauri::AppHandle,
-  channels: &[u8],
-  states: &mut HashMap<u8, ChannelState>,
-  threshold: f32,
-  packet: OscPacket,
-) {
-  match packet {
-    OscPacket::Message(message) => handle_message(app, channels, states, threshold, message),
-    OscPacket::Bundle(bundle) => {
-      for entry in bundle.content {
-        handle_packet(app, channels, states, threshold, entry);
-      }
-    }
-  }
-}
-
-fn handle_message(
-  app: &tauri::AppHandle,
-  channels: &[u8],
-  states: &mut HashMap<u8, ChannelState>,
-  threshold: f32,
-  message: OscMessage,
-) {
-  let channel = match parse_channel_from_addr(&message.addr) {
-    Some(channel) => channel,
-    None => return,
-  };
-
-  if message.addr.ends_with("/mix/on") {
-    if let Some(arg) = message.args.first() {
-      let on = match arg {
-        OscType::Int(value) => *value != 0,
-        OscType::Long(value) => *value != 0,
-        OscType::Float(value) => *value > 0.0,
-        OscType::Double(value) => *value > 0.0,
-        _ => false,
-      };
-      let entry = states.entry(channel).or_insert(ChannelState { on: false, fader: 0.0 });
-      if entry.on != on {
-        entry.on = on;
-        emit_state(app, channels, states, threshold);
-      }
-    }
-  }
-
-  if message.addr.ends_with("/mix/fader") {
-    if let Some(arg) = message.args.first().and_then(osc_arg_to_f32) {
-      let entry = states.entry(channel).or_insert(ChannelState { on: false, fader: 0.0 });
-      if (entry.fader - arg).abs() > f32::EPSILON {
-        entry.fader = arg;
-        emit_state(app, channels, states, threshold);
-      }
-    }
-  }
+#[tauri::command(async)]
+fn discover_x32(
+  address: Option<String>,
+  port: Option<u16>,
+  timeout_ms: Option<u64>,
+) -> Result<Vec<x32::DiscoveredMixer>, String> {
+  let timeout = Duration::from_millis(timeout_ms.unwrap_or(1500).clamp(100, 10_000));
+  let address = address.unwrap_or_else(|| "255.255.255.255".to_string());
+  x32::discover(&address, port.unwrap_or(10023), timeout)
 }
 
 #[tauri::command]
@@ -244,10 +78,7 @@ fn stop_x32_listener(state: tauri::State<X32ListenerState>) -> Result<(), String
   };
 
   if let Some(listener) = handle {
-    listener.stop.store(true, Ordering::Relaxed);
-    if let Some(thread) = listener.thread {
-      let _ = thread.join();
-    }
+    listener.stop();
   }
   Ok(())
 }
@@ -387,6 +218,211 @@ fn casparcg_write_template_file(
   Ok(format!("Wrote {}", target.display()))
 }
 
+/// Exports land in `<Documents>/Studioklocka/output/<relative_path>`, e.g. `output/pdf/show.pdf`.
+#[tauri::command]
+fn write_output_file(app: tauri::AppHandle, relative_path: String, bytes: Vec<u8>) -> Result<String, String> {
+  let safe_relative = validate_relative_template_path(&relative_path)?;
+  let root = app
+    .path()
+    .document_dir()
+    .map_err(|err| err.to_string())?
+    .join("Studioklocka")
+    .join("output");
+  let target = root.join(safe_relative);
+
+  if let Some(parent) = target.parent() {
+    fs::create_dir_all(parent).map_err(|err| err.to_string())?;
+  }
+
+  fs::write(&target, bytes).map_err(|err| err.to_string())?;
+  Ok(target.display().to_string())
+}
+
+const PROJECT_FILE_EXTENSION: &str = "studioklocka";
+
+fn validate_project_path(path: &str) -> Result<PathBuf, String> {
+  let target = PathBuf::from(path.trim());
+  let is_project = target
+    .extension()
+    .map(|ext| ext.eq_ignore_ascii_case(PROJECT_FILE_EXTENSION))
+    .unwrap_or(false);
+  if !target.is_absolute() || !is_project {
+    return Err(format!("Expected an absolute path to a .{} file", PROJECT_FILE_EXTENSION));
+  }
+  Ok(target)
+}
+
+static LAUNCH_PROFILE_TAKEN: AtomicBool = AtomicBool::new(false);
+
+/// `--profile <name>` or `--profile=<name>` on the command line picks the settings profile at launch.
+/// Only the first call gets it, so window reloads (such as a profile switch) do not apply it again.
+#[tauri::command]
+fn launch_profile() -> Option<String> {
+  if LAUNCH_PROFILE_TAKEN.swap(true, Ordering::SeqCst) {
+    return None;
+  }
+  let mut args = std::env::args().skip(1);
+  while let Some(arg) = args.next() {
+    if let Some(name) = arg.strip_prefix("--profile=") {
+      return Some(name.to_string());
+    }
+    if arg == "--profile" {
+      return args.next();
+    }
+  }
+  None
+}
+
+/// Project files are opened from paths picked in the native dialog or the recent-files list.
+#[tauri::command]
+fn read_project_file(path: String) -> Result<String, String> {
+  let target = validate_project_path(&path)?;
+  fs::read_to_string(&target).map_err(|err| format!("{}: {}", target.display(), err))
+}
+
+#[tauri::command]
+fn write_project_file(path: String, contents: String) -> Result<String, String> {
+  let target = validate_project_path(&path)?;
+  // Write next to the target and rename, so a failed save never leaves a half-written project.
+  let temp = target.with_extension(format!("{}.tmp", PROJECT_FILE_EXTENSION));
+  fs::write(&temp, contents).map_err(|err| format!("{}: {}", temp.display(), err))?;
+  fs::rename(&temp, &target).map_err(|err| format!("{}: {}", target.display(), err))?;
+  Ok(target.display().to_string())
+}
+
+const NTP_DEFAULT_PORT: u16 = 123;
+const NTP_PACKET_LEN: usize = 48;
+const NTP_UNIX_EPOCH_DELTA_SECS: f64 = 2_208_988_800.0;
+const NTP_FRACTION_SCALE: f64 = 4_294_967_296.0;
+
+#[derive(Serialize, Clone)]
+struct NtpSamplePayload {
+  server: String,
+  offset_ms: f64,
+  delay_ms: f64,
+  stratum: u8,
+  sampled_at: u64,
+}
+
+fn unix_ms_now() -> f64 {
+  SystemTime::now()
+    .duration_since(UNIX_EPOCH)
+    .map(|duration| duration.as_secs_f64() * 1000.0)
+    .unwrap_or(0.0)
+}
+
+fn unix_ms_to_ntp_timestamp(unix_ms: f64) -> [u8; 8] {
+  let total_secs = unix_ms / 1000.0 + NTP_UNIX_EPOCH_DELTA_SECS;
+  let seconds = total_secs.floor();
+  let fraction = ((total_secs - seconds) * NTP_FRACTION_SCALE) as u32;
+  let mut out = [0u8; 8];
+  out[..4].copy_from_slice(&(seconds as u32).to_be_bytes());
+  out[4..].copy_from_slice(&fraction.to_be_bytes());
+  out
+}
+
+fn ntp_timestamp_to_unix_ms(bytes: &[u8]) -> f64 {
+  let seconds = u32::from_be_bytes([bytes[0], bytes[1], bytes[2], bytes[3]]) as f64;
+  let fraction = u32::from_be_bytes([bytes[4], bytes[5], bytes[6], bytes[7]]) as f64 / NTP_FRACTION_SCALE;
+  (seconds - NTP_UNIX_EPOCH_DELTA_SECS + fraction) * 1000.0
+}
+
+fn query_sntp_server(server: &str, timeout: Duration) -> Result<NtpSamplePayload, String> {
+  let trimmed = server.trim();
+  if trimmed.is_empty() {
+    return Err("NTP server is required".to_string());
+  }
+  let target = (trimmed, NTP_DEFAULT_PORT)
+    .to_socket_addrs()
+    .or_else(|_| trimmed.to_socket_addrs())
+    .map_err(|err| format!("{trimmed}: {err}"))?
+    .next()
+    .ok_or_else(|| format!("{trimmed}: no address"))?;
+
+  let bind_addr = if target.is_ipv6() { "[::]:0" } else { "0.0.0.0:0" };
+  let socket = UdpSocket::bind(bind_addr).map_err(|err| err.to_string())?;
+  socket.set_read_timeout(Some(timeout)).map_err(|err| err.to_string())?;
+
+  // LI = 0, VN = 4, Mode = 3 (client). The transmit timestamp doubles as a nonce:
+  // the server echoes it back as the originate timestamp.
+  let mut request = [0u8; NTP_PACKET_LEN];
+  request[0] = 0b00_100_011;
+  let t1 = unix_ms_now();
+  let transmit = unix_ms_to_ntp_timestamp(t1);
+  request[40..48].copy_from_slice(&transmit);
+  socket.send_to(&request, target).map_err(|err| format!("{trimmed}: {err}"))?;
+
+  let mut response = [0u8; 512];
+  let deadline = Instant::now() + timeout;
+  loop {
+    let (size, from) = socket.recv_from(&mut response).map_err(|err| match err.kind() {
+      std::io::ErrorKind::WouldBlock | std::io::ErrorKind::TimedOut => format!("{trimmed}: timed out"),
+      _ => format!("{trimmed}: {err}"),
+    })?;
+    let t4 = unix_ms_now();
+    if from.ip() != target.ip() || size < NTP_PACKET_LEN || response[24..32] != transmit {
+      if Instant::now() >= deadline {
+        return Err(format!("{trimmed}: no matching reply"));
+      }
+      continue;
+    }
+
+    let leap = response[0] >> 6;
+    let mode = response[0] & 0b111;
+    let stratum = response[1];
+    if mode != 4 && mode != 5 {
+      return Err(format!("{trimmed}: unexpected mode {mode}"));
+    }
+    if stratum == 0 {
+      let code = String::from_utf8_lossy(&response[12..16]).trim_end_matches('\0').to_string();
+      return Err(format!("{trimmed}: kiss-o'-death {code}"));
+    }
+    if leap == 3 {
+      return Err(format!("{trimmed}: server clock is unsynchronized"));
+    }
+
+    let t2 = ntp_timestamp_to_unix_ms(&response[32..40]);
+    let t3 = ntp_timestamp_to_unix_ms(&response[40..48]);
+    let offset_ms = ((t2 - t1) + (t3 - t4)) / 2.0;
+    let delay_ms = ((t4 - t1) - (t3 - t2)).max(0.0);
+    return Ok(NtpSamplePayload {
+      server: trimmed.to_string(),
+      offset_ms,
+      delay_ms,
+      stratum,
+      sampled_at: t4 as u64,
+    });
+  }
+}
+
+#[tauri::command(async)]
+fn ntp_query(servers: Vec<String>, timeout_ms: Option<u64>) -> Result<NtpSamplePayload, String> {
+  let timeout = Duration::from_millis(timeout_ms.unwrap_or(1500).clamp(100, 10_000));
+  let mut best: Option<NtpSamplePayload> = None;
+  let mut errors: Vec<String> = Vec::new();
+
+  for server in servers.iter().filter(|server| !server.trim().is_empty()) {
+    match query_sntp_server(server, timeout) {
+      Ok(sample) => {
+        let better = best
+          .as_ref()
+          .map(|current| sample.delay_ms < current.delay_ms)
+          .unwrap_or(true);
+        if better {
+          best = Some(sample);
+        }
+      }
+      Err(err) => errors.push(err),
+    }
+  }
+
+  match best {
+    Some(sample) => Ok(sample),
+    None if errors.is_empty() => Err("No NTP servers configured".to_string()),
+    None => Err(errors.join("; ")),
+  }
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
   tauri::Builder::default()
@@ -401,16 +437,23 @@ pub fn run() {
       Ok(())
     })
     .plugin(tauri_plugin_updater::Builder::new().build())
+    .plugin(tauri_plugin_dialog::init())
     .manage(X32ListenerState::default())
     .invoke_handler(tauri::generate_handler![
       start_x32_listener,
       stop_x32_listener,
+      discover_x32,
       casparcg_ping,
       casparcg_send_amcp,
       casparcg_play_template,
       casparcg_update_template,
       casparcg_stop_template,
-      casparcg_write_template_file
+      casparcg_write_template_file,
+      write_output_file,
+      read_project_file,
+      write_project_file,
+      launch_profile,
+      ntp_query
     ])
     .run(tauri::generate_context!())
     .expect("error while running tauri application");
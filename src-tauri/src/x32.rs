@@ -0,0 +1,785 @@
+use std::{
+  collections::HashMap,
+  net::{SocketAddr, UdpSocket},
+  sync::{
+    atomic::{AtomicBool, Ordering},
+    Arc,
+  },
+  thread,
+  time::{Duration, Instant, SystemTime, UNIX_EPOCH},
+};
+
+use rosc::{encoder, OscMessage, OscPacket, OscType};
+use serde::{Deserialize, Serialize};
+
+/// Meter block with the 32 channels followed by the 8 aux ins, measured before the fader.
+const METERS_ADDRESS: &str = "/meters/0";
+/// Meter frames are sent to the frontend at most this often.
+const METER_FRAME_INTERVAL: Duration = Duration::from_millis(100);
+
+#[derive(Clone, Copy, Debug, PartialEq, Eq, Hash)]
+enum StripKind {
+  Channel,
+  AuxIn,
+  Bus,
+  Dca,
+  Main,
+}
+
+impl StripKind {
+  fn parse(value: &str) -> Option<Self> {
+    match value {
+      "ch" => Some(Self::Channel),
+      "auxin" => Some(Self::AuxIn),
+      "bus" => Some(Self::Bus),
+      "dca" => Some(Self::Dca),
+      "main" => Some(Self::Main),
+      _ => None,
+    }
+  }
+
+  fn name(self) -> &'static str {
+    match self {
+      Self::Channel => "ch",
+      Self::AuxIn => "auxin",
+      Self::Bus => "bus",
+      Self::Dca => "dca",
+      Self::Main => "main",
+    }
+  }
+
+  fn count(self) -> u8 {
+    match self {
+      Self::Channel => 32,
+      Self::AuxIn => 8,
+      Self::Bus => 16,
+      Self::Dca => 8,
+      Self::Main => 1,
+    }
+  }
+
+  /// OSC address prefix, e.g. `/ch/09` or `/dca/3`; DCAs are the only strips without zero padding.
+  fn prefix(self, number: u8) -> String {
+    match self {
+      Self::Dca => format!("/dca/{}", number),
+      Self::Main => "/main/st".to_string(),
+      _ => format!("/{}/{:02}", self.name(), number),
+    }
+  }
+}
+
+#[derive(Clone, Copy, Debug, PartialEq, Eq, Hash)]
+struct StripKey {
+  kind: StripKind,
+  number: u8,
+}
+
+#[derive(Clone, Copy, Debug, PartialEq)]
+enum StripParam {
+  On,
+  Fader,
+  /// Bit n set when the input is assigned to DCA n + 1.
+  DcaMask,
+  /// Whether the input is sent to the main LR bus.
+  MainAssign,
+  /// Scribble-strip name.
+  Name,
+  /// Scribble-strip colour, 0-15; 8 and up are the inverted variants.
+  Color,
+}
+
+#[derive(Clone, Debug, Default, PartialEq)]
+struct StripState {
+  on: bool,
+  fader: f32,
+  dca_mask: u8,
+  main: bool,
+  name: String,
+  color: u8,
+}
+
+/// An input or bus the frontend asked to follow, as sent to `start_x32_listener`.
+#[derive(Deserialize, Clone, Debug)]
+pub struct StripArg {
+  pub kind: String,
+  pub number: u8,
+}
+
+pub struct ListenerConfig {
+  pub host: String,
+  pub port: u16,
+  pub inputs: Vec<StripArg>,
+  pub buses: Vec<u8>,
+  pub dcas: Vec<u8>,
+  pub main: bool,
+  /// Also subscribe to the input level meters.
+  pub meters: bool,
+}
+
+#[derive(Serialize, Clone, Debug)]
+pub struct StripPayload {
+  kind: &'static str,
+  number: u8,
+  on: bool,
+  fader: f32,
+  /// DCAs the input is assigned to; empty for buses, DCAs and the main bus.
+  dcas: Vec<u8>,
+  /// Whether the input is sent to the main LR bus.
+  main: bool,
+  /// Scribble-strip name and colour as set on the desk; inputs only.
+  name: String,
+  color: u8,
+}
+
+#[derive(Serialize, Clone, Debug)]
+pub struct MicStatePayload {
+  inputs: Vec<StripPayload>,
+  buses: Vec<StripPayload>,
+  dcas: Vec<StripPayload>,
+  main: Option<StripPayload>,
+  updated_at: u64,
+}
+
+/// Linear input levels (1.0 is full scale) before and after the fader and mute.
+#[derive(Serialize, Clone, Debug)]
+pub struct MeterPayload {
+  kind: &'static str,
+  number: u8,
+  pre: f32,
+  post: f32,
+}
+
+#[derive(Serialize, Clone, Debug)]
+pub struct MeterFramePayload {
+  inputs: Vec<MeterPayload>,
+  updated_at: u64,
+}
+
+/// A desk that answered `/xinfo`.
+#[derive(Serialize, Clone, Debug)]
+pub struct DiscoveredMixer {
+  host: String,
+  port: u16,
+  name: String,
+  model: String,
+  firmware: String,
+}
+
+pub struct ListenerHandle {
+  stop: Arc<AtomicBool>,
+  thread: Option<thread::JoinHandle<()>>,
+}
+
+impl ListenerHandle {
+  pub fn stop(mut self) {
+    self.stop.store(true, Ordering::Relaxed);
+    if let Some(thread) = self.thread.take() {
+      let _ = thread.join();
+    }
+  }
+}
+
+fn osc_arg_to_f32(arg: &OscType) -> Option<f32> {
+  match arg {
+    OscType::Float(value) => Some(*value),
+    OscType::Double(value) => Some(*value as f32),
+    OscType::Int(value) => Some(*value as f32),
+    OscType::Long(value) => Some(*value as f32),
+    _ => None,
+  }
+}
+
+fn osc_arg_to_i32(arg: &OscType) -> Option<i32> {
+  match arg {
+    OscType::Int(value) => Some(*value),
+    OscType::Long(value) => Some(*value as i32),
+    OscType::Float(value) => Some(*value as i32),
+    OscType::Double(value) => Some(*value as i32),
+    _ => None,
+  }
+}
+
+/// Meter blobs start with a little-endian count, followed by that many little-endian floats.
+fn decode_meter_blob(blob: &[u8]) -> Vec<f32> {
+  let Some(count) = blob.get(..4).map(|bytes| i32::from_le_bytes([bytes[0], bytes[1], bytes[2], bytes[3]])) else {
+    return Vec::new();
+  };
+  blob[4..]
+    .chunks_exact(4)
+    .take(count.max(0) as usize)
+    .map(|bytes| f32::from_le_bytes([bytes[0], bytes[1], bytes[2], bytes[3]]))
+    .collect()
+}
+
+/// Linear gain of an X32 fader position, following the desk's four-segment dB law.
+fn fader_gain(fader: f32) -> f32 {
+  if fader <= 0.0 {
+    return 0.0;
+  }
+  let db = if fader >= 0.5 {
+    fader * 40.0 - 30.0
+  } else if fader >= 0.25 {
+    fader * 80.0 - 50.0
+  } else if fader >= 0.0625 {
+    fader * 160.0 - 70.0
+  } else {
+    fader * 480.0 - 90.0
+  };
+  10f32.powf(db / 20.0)
+}
+
+fn now_millis() -> u64 {
+  SystemTime::now()
+    .duration_since(UNIX_EPOCH)
+    .map(|duration| duration.as_millis() as u64)
+    .unwrap_or(0)
+}
+
+fn parse_mix_param(param: &str) -> Option<StripParam> {
+  match param {
+    "on" => Some(StripParam::On),
+    "fader" => Some(StripParam::Fader),
+    _ => None,
+  }
+}
+
+/// Maps an X32 parameter address such as `/ch/09/mix/fader` or `/dca/3/on` to its strip.
+fn parse_strip_address(addr: &str) -> Option<(StripKey, StripParam)> {
+  let parts: Vec<&str> = addr.trim_start_matches('/').split('/').collect();
+  let (kind, number, param) = match parts.as_slice() {
+    ["main", "st", "mix", param] => (StripKind::Main, 1, parse_mix_param(param)?),
+    ["dca", number, param] => (StripKind::Dca, number.parse().ok()?, parse_mix_param(param)?),
+    [kind, number, "grp", "dca"] => (StripKind::parse(kind)?, number.parse().ok()?, StripParam::DcaMask),
+    [kind, number, "config", "name"] => (StripKind::parse(kind)?, number.parse().ok()?, StripParam::Name),
+    [kind, number, "config", "color"] => (StripKind::parse(kind)?, number.parse().ok()?, StripParam::Color),
+    [kind, number, "mix", "st"] => (StripKind::parse(kind)?, number.parse().ok()?, StripParam::MainAssign),
+    [kind, number, "mix", param] => (StripKind::parse(kind)?, number.parse().ok()?, parse_mix_param(param)?),
+    _ => return None,
+  };
+  Some((StripKey { kind, number }, param))
+}
+
+fn strip_key(kind: StripKind, number: u8) -> Result<StripKey, String> {
+  if number == 0 || number > kind.count() {
+    return Err(format!("X32 {} {} is out of range (1-{})", kind.name(), number, kind.count()));
+  }
+  Ok(StripKey { kind, number })
+}
+
+fn is_input(kind: StripKind) -> bool {
+  matches!(kind, StripKind::Channel | StripKind::AuxIn)
+}
+
+fn subscribe_paths(key: StripKey) -> Vec<String> {
+  let prefix = key.kind.prefix(key.number);
+  match key.kind {
+    StripKind::Dca => vec![format!("{prefix}/on"), format!("{prefix}/fader")],
+    StripKind::Channel | StripKind::AuxIn => vec![
+      format!("{prefix}/mix/on"),
+      format!("{prefix}/mix/fader"),
+      format!("{prefix}/grp/dca"),
+      format!("{prefix}/mix/st"),
+      format!("{prefix}/config/name"),
+      format!("{prefix}/config/color"),
+    ],
+    _ => vec![format!("{prefix}/mix/on"), format!("{prefix}/mix/fader")],
+  }
+}
+
+/// Scribble-strip addresses, asked for once when listening starts so names show up straight away.
+fn config_paths(key: StripKey) -> Vec<String> {
+  if !is_input(key.kind) {
+    return Vec::new();
+  }
+  let prefix = key.kind.prefix(key.number);
+  vec![format!("{prefix}/config/name"), format!("{prefix}/config/color")]
+}
+
+/// An address without arguments asks the desk for the parameter's current value.
+fn send_query(socket: &UdpSocket, target: &str, address: &str) {
+  let packet = OscPacket::Message(OscMessage {
+    addr: address.to_string(),
+    args: Vec::new(),
+  });
+  if let Ok(buf) = encoder::encode(&packet) {
+    let _ = socket.send_to(&buf, target);
+  }
+}
+
+fn send_meters_subscribe(socket: &UdpSocket, target: &str, time_factor: i32) {
+  let packet = OscPacket::Message(OscMessage {
+    addr: "/meters".to_string(),
+    args: vec![OscType::String(METERS_ADDRESS.to_string()), OscType::Int(time_factor)],
+  });
+  if let Ok(buf) = encoder::encode(&packet) {
+    let _ = socket.send_to(&buf, target);
+  }
+}
+
+fn send_subscribe(socket: &UdpSocket, target: &str, address: &str, time_factor: i32) {
+  let message = OscMessage {
+    addr: "/subscribe".to_string(),
+    args: vec![OscType::String(address.to_string()), OscType::Int(time_factor)],
+  };
+  let packet = OscPacket::Message(message);
+  if let Ok(buf) = encoder::encode(&packet) {
+    let _ = socket.send_to(&buf, target);
+  }
+}
+
+struct Mixer {
+  strips: Vec<StripKey>,
+  states: HashMap<StripKey, StripState>,
+  /// Pre-fader levels of the followed inputs from the latest meter blob.
+  meters: HashMap<StripKey, f32>,
+  meters_pending: bool,
+}
+
+impl Mixer {
+  fn new(strips: Vec<StripKey>) -> Self {
+    Self {
+      strips,
+      states: HashMap::new(),
+      meters: HashMap::new(),
+      meters_pending: false,
+    }
+  }
+
+  fn apply_meters(&mut self, values: &[f32]) {
+    for key in &self.strips {
+      let index = match key.kind {
+        StripKind::Channel => key.number as usize - 1,
+        StripKind::AuxIn => 32 + key.number as usize - 1,
+        _ => continue,
+      };
+      if let Some(level) = values.get(index) {
+        self.meters.insert(*key, *level);
+      }
+    }
+    self.meters_pending = true;
+  }
+
+  /// Applies one parameter update; returns true when the state changed.
+  fn apply(&mut self, message: &OscMessage) -> bool {
+    if message.addr == METERS_ADDRESS {
+      if let Some(OscType::Blob(blob)) = message.args.first() {
+        self.apply_meters(&decode_meter_blob(blob));
+      }
+      return false;
+    }
+    let Some((key, param)) = parse_strip_address(&message.addr) else {
+      return false;
+    };
+    if !self.strips.contains(&key) {
+      return false;
+    }
+    let Some(arg) = message.args.first() else {
+      return false;
+    };
+    let entry = self.states.entry(key).or_default();
+    let previous = entry.clone();
+    match param {
+      StripParam::On => entry.on = osc_arg_to_f32(arg).map(|value| value > 0.0).unwrap_or(false),
+      StripParam::Fader => {
+        if let Some(value) = osc_arg_to_f32(arg) {
+          entry.fader = value;
+        }
+      }
+      StripParam::DcaMask => {
+        if let Some(value) = osc_arg_to_i32(arg) {
+          entry.dca_mask = (value & 0xff) as u8;
+        }
+      }
+      StripParam::MainAssign => entry.main = osc_arg_to_f32(arg).map(|value| value > 0.0).unwrap_or(false),
+      StripParam::Name => {
+        if let OscType::String(name) = arg {
+          entry.name = name.trim().to_string();
+        }
+      }
+      StripParam::Color => {
+        if let Some(value) = osc_arg_to_i32(arg) {
+          entry.color = value.clamp(0, 15) as u8;
+        }
+      }
+    }
+    *entry != previous
+  }
+
+  fn strip_payload(&self, key: StripKey) -> StripPayload {
+    let state = self.states.get(&key).cloned().unwrap_or_default();
+    StripPayload {
+      kind: key.kind.name(),
+      number: key.number,
+      on: state.on,
+      fader: state.fader,
+      dcas: (0..8u8).filter(|bit| state.dca_mask & (1 << bit) != 0).map(|bit| bit + 1).collect(),
+      main: state.main,
+      name: state.name,
+      color: state.color,
+    }
+  }
+
+  fn payload(&self) -> MicStatePayload {
+    let of_kind = |kinds: &[StripKind]| {
+      self
+        .strips
+        .iter()
+        .filter(|key| kinds.contains(&key.kind))
+        .map(|key| self.strip_payload(*key))
+        .collect::<Vec<_>>()
+    };
+    MicStatePayload {
+      inputs: of_kind(&[StripKind::Channel, StripKind::AuxIn]),
+      buses: of_kind(&[StripKind::Bus]),
+      dcas: of_kind(&[StripKind::Dca]),
+      main: of_kind(&[StripKind::Main]).into_iter().next(),
+      updated_at: now_millis(),
+    }
+  }
+
+  /// The desk only meters inputs before the fader, so the post-fader level applies the fader and mute.
+  fn meter_frame(&self) -> MeterFramePayload {
+    let inputs = self
+      .strips
+      .iter()
+      .filter_map(|key| {
+        let pre = *self.meters.get(key)?;
+        let state = self.states.get(key).cloned().unwrap_or_default();
+        let post = if state.on { pre * fader_gain(state.fader) } else { 0.0 };
+        Some(MeterPayload {
+          kind: key.kind.name(),
+          number: key.number,
+          pre,
+          post,
+        })
+      })
+      .collect();
+    MeterFramePayload {
+      inputs,
+      updated_at: now_millis(),
+    }
+  }
+
+  fn handle_packet(&mut self, packet: OscPacket) -> bool {
+    match packet {
+      OscPacket::Message(message) => self.apply(&message),
+      OscPacket::Bundle(bundle) => bundle
+        .content
+        .into_iter()
+        .fold(false, |changed, entry| self.handle_packet(entry) || changed),
+    }
+  }
+}
+
+fn resolve_strips(config: &ListenerConfig) -> Result<Vec<StripKey>, String> {
+  let mut strips = Vec::new();
+  for input in &config.inputs {
+    let kind = StripKind::parse(input.kind.trim())
+      .filter(|kind| is_input(*kind))
+      .ok_or_else(|| format!("Unknown X32 input type {}", input.kind))?;
+    strips.push(strip_key(kind, input.number)?);
+  }
+  for bus in &config.buses {
+    strips.push(strip_key(StripKind::Bus, *bus)?);
+  }
+  for dca in &config.dcas {
+    strips.push(strip_key(StripKind::Dca, *dca)?);
+  }
+  if config.main {
+    strips.push(StripKey { kind: StripKind::Main, number: 1 });
+  }
+  let mut unique = Vec::with_capacity(strips.len());
+  for key in strips {
+    if !unique.contains(&key) {
+      unique.push(key);
+    }
+  }
+  Ok(unique)
+}
+
+/// `/xinfo` replies carry the desk's IP, network name, model and firmware version as strings.
+fn parse_xinfo(packet: OscPacket, from: SocketAddr) -> Option<DiscoveredMixer> {
+  let OscPacket::Message(message) = packet else {
+    return None;
+  };
+  if message.addr != "/xinfo" {
+    return None;
+  }
+  let text = |index: usize| match message.args.get(index) {
+    Some(OscType::String(value)) => value.trim().to_string(),
+    _ => String::new(),
+  };
+  Some(DiscoveredMixer {
+    host: from.ip().to_string(),
+    port: from.port(),
+    name: text(1),
+    model: text(2),
+    firmware: text(3),
+  })
+}
+
+/// Sends `/xinfo` to `address` (the local broadcast address by default) and collects the desks that
+/// answer before `timeout`, each listed once.
+pub fn discover(address: &str, port: u16, timeout: Duration) -> Result<Vec<DiscoveredMixer>, String> {
+  let socket = UdpSocket::bind("0.0.0.0:0").map_err(|err| err.to_string())?;
+  socket.set_broadcast(true).map_err(|err| err.to_string())?;
+  send_query(&socket, &format!("{}:{}", address.trim(), port), "/xinfo");
+
+  let deadline = Instant::now() + timeout;
+  let mut mixers: Vec<DiscoveredMixer> = Vec::new();
+  let mut buf = [0u8; 1024];
+  loop {
+    let remaining = deadline.saturating_duration_since(Instant::now());
+    if remaining.is_zero() {
+      break;
+    }
+    socket
+      .set_read_timeout(Some(remaining))
+      .map_err(|err| err.to_string())?;
+    let Ok((size, from)) = socket.recv_from(&mut buf) else {
+      continue;
+    };
+    let Ok((_, packet)) = rosc::decoder::decode_udp(&buf[..size]) else {
+      continue;
+    };
+    if let Some(mixer) = parse_xinfo(packet, from) {
+      if !mixers.iter().any(|known| known.host == mixer.host && known.port == mixer.port) {
+        mixers.push(mixer);
+      }
+    }
+  }
+  Ok(mixers)
+}
+
+/// Subscribes to every followed strip and calls `emit` with the whole mixer state on each change, and
+/// `emit_meters` with the input levels when metering is on.
+pub fn spawn_listener<F, M>(config: ListenerConfig, emit: F, emit_meters: M) -> Result<ListenerHandle, String>
+where
+  F: Fn(MicStatePayload) + Send + 'static,
+  M: Fn(MeterFramePayload) + Send + 'static,
+{
+  let strips = resolve_strips(&config)?;
+  let socket = UdpSocket::bind("0.0.0.0:0").map_err(|err| err.to_string())?;
+  socket
+    .set_read_timeout(Some(Duration::from_millis(250)))
+    .map_err(|err| err.to_string())?;
+
+  let target = format!("{}:{}", config.host.trim(), config.port);
+  let paths: Vec<String> = strips.iter().flat_map(|key| subscribe_paths(*key)).collect();
+  let queries: Vec<String> = strips.iter().flat_map(|key| config_paths(*key)).collect();
+  let meters = config.meters;
+  let stop = Arc::new(AtomicBool::new(false));
+  let thread_stop = stop.clone();
+
+  let thread = thread::spawn(move || {
+    let mut mixer = Mixer::new(strips);
+    let mut last_subscribe = Instant::now() - Duration::from_secs(30);
+    let mut last_meter_frame = Instant::now() - METER_FRAME_INTERVAL;
+    let mut buf = [0u8; 2048];
+
+    for path in &queries {
+      send_query(&socket, &target, path);
+    }
+
+    // Subscriptions lapse after ten seconds on the desk, so they are renewed well before that. They
+    // include the names and colours, so a strip renamed on the desk is picked up within a second.
+    while !thread_stop.load(Ordering::Relaxed) {
+      if last_subscribe.elapsed() >= Duration::from_secs(8) {
+        for path in &paths {
+          send_subscribe(&socket, &target, path, 20);
+        }
+        if meters {
+          send_meters_subscribe(&socket, &target, 2);
+        }
+        last_subscribe = Instant::now();
+      }
+
+      if let Ok((size, _)) = socket.recv_from(&mut buf) {
+        if let Ok((_, packet)) = rosc::decoder::decode_udp(&buf[..size]) {
+          if mixer.handle_packet(packet) {
+            emit(mixer.payload());
+          }
+        }
+      }
+
+      if mixer.meters_pending && last_meter_frame.elapsed() >= METER_FRAME_INTERVAL {
+        emit_meters(mixer.meter_frame());
+        mixer.meters_pending = false;
+        last_meter_frame = Instant::now();
+      }
+    }
+  });
+
+  Ok(ListenerHandle {
+    stop,
+    thread: Some(thread),
+  })
+}
+
+#[cfg(test)]
+mod tests {
+  use super::*;
+
+  fn key(kind: StripKind, number: u8) -> StripKey {
+    StripKey { kind, number }
+  }
+
+  fn config(inputs: &[(&str, u8)], buses: &[u8], dcas: &[u8], main: bool) -> ListenerConfig {
+    ListenerConfig {
+      host: "127.0.0.1".to_string(),
+      port: 10023,
+      inputs: inputs
+        .iter()
+        .map(|(kind, number)| StripArg {
+          kind: kind.to_string(),
+          number: *number,
+        })
+        .collect(),
+      buses: buses.to_vec(),
+      dcas: dcas.to_vec(),
+      main,
+      meters: false,
+    }
+  }
+
+  /// OSC strings are NUL-terminated and padded to four bytes.
+  fn osc_string(value: &str) -> Vec<u8> {
+    let mut bytes = value.as_bytes().to_vec();
+    bytes.push(0);
+    while bytes.len() % 4 != 0 {
+      bytes.push(0);
+    }
+    bytes
+  }
+
+  fn meter_blob(count: i32, values: &[f32]) -> Vec<u8> {
+    let mut blob = count.to_le_bytes().to_vec();
+    values.iter().for_each(|value| blob.extend_from_slice(&value.to_le_bytes()));
+    blob
+  }
+
+  #[test]
+  fn maps_strip_addresses() {
+    let cases = [
+      ("/ch/09/mix/on", key(StripKind::Channel, 9), StripParam::On),
+      ("/ch/09/mix/fader", key(StripKind::Channel, 9), StripParam::Fader),
+      ("/ch/09/grp/dca", key(StripKind::Channel, 9), StripParam::DcaMask),
+      ("/ch/09/mix/st", key(StripKind::Channel, 9), StripParam::MainAssign),
+      ("/auxin/03/config/name", key(StripKind::AuxIn, 3), StripParam::Name),
+      ("/auxin/03/config/color", key(StripKind::AuxIn, 3), StripParam::Color),
+      ("/bus/16/mix/fader", key(StripKind::Bus, 16), StripParam::Fader),
+      ("/dca/3/on", key(StripKind::Dca, 3), StripParam::On),
+      ("/main/st/mix/on", key(StripKind::Main, 1), StripParam::On),
+    ];
+    for (address, expected_key, expected_param) in cases {
+      assert_eq!(parse_strip_address(address), Some((expected_key, expected_param)), "{address}");
+    }
+    for address in ["/ch/09/mix/pan", "/fx/1/par/01", "/ch/xx/mix/on", "/ch/09", "/xinfo"] {
+      assert_eq!(parse_strip_address(address), None, "{address}");
+    }
+  }
+
+  #[test]
+  fn subscribes_to_the_addresses_it_parses() {
+    assert_eq!(StripKind::Channel.prefix(9), "/ch/09");
+    assert_eq!(StripKind::Dca.prefix(3), "/dca/3");
+    for strip in [key(StripKind::AuxIn, 8), key(StripKind::Dca, 8), key(StripKind::Main, 1)] {
+      for path in subscribe_paths(strip) {
+        assert_eq!(parse_strip_address(&path).map(|(parsed, _)| parsed), Some(strip), "{path}");
+      }
+    }
+  }
+
+  #[test]
+  fn resolves_and_checks_strips() {
+    let strips = resolve_strips(&config(&[("ch", 1), ("auxin", 2), ("ch", 1)], &[4], &[2], true)).unwrap();
+    assert_eq!(
+      strips,
+      vec![
+        key(StripKind::Channel, 1),
+        key(StripKind::AuxIn, 2),
+        key(StripKind::Bus, 4),
+        key(StripKind::Dca, 2),
+        key(StripKind::Main, 1),
+      ]
+    );
+    assert!(resolve_strips(&config(&[("ch", 33)], &[], &[], false)).is_err());
+    assert!(resolve_strips(&config(&[("auxin", 0)], &[], &[], false)).is_err());
+    assert!(resolve_strips(&config(&[("bus", 1)], &[], &[], false)).is_err());
+    assert!(resolve_strips(&config(&[], &[], &[9], false)).is_err());
+  }
+
+  #[test]
+  fn decodes_meter_blobs() {
+    assert_eq!(decode_meter_blob(&meter_blob(3, &[0.5, 0.25, 1.0, 9.0])), vec![0.5, 0.25, 1.0]);
+    assert_eq!(decode_meter_blob(&meter_blob(4, &[0.5, 0.25])), vec![0.5, 0.25]);
+    assert_eq!(decode_meter_blob(&meter_blob(-1, &[0.5])), Vec::<f32>::new());
+    assert_eq!(decode_meter_blob(&[1, 0]), Vec::<f32>::new());
+  }
+
+  #[test]
+  fn places_aux_ins_after_the_channels_in_meter_blobs() {
+    let mut mixer = Mixer::new(vec![key(StripKind::Channel, 2), key(StripKind::AuxIn, 1), key(StripKind::Bus, 1)]);
+    let mut values = vec![0.0; 40];
+    values[1] = 0.5;
+    values[32] = 0.25;
+    let meters = OscMessage {
+      addr: METERS_ADDRESS.to_string(),
+      args: vec![OscType::Blob(meter_blob(40, &values))],
+    };
+    assert!(!mixer.apply(&meters));
+    assert_eq!(mixer.meters.get(&key(StripKind::Channel, 2)), Some(&0.5));
+    assert_eq!(mixer.meters.get(&key(StripKind::AuxIn, 1)), Some(&0.25));
+    assert_eq!(mixer.meters.get(&key(StripKind::Bus, 1)), None);
+
+    // Muted inputs read silent after the fader; at 0 dB the post level is the pre level.
+    mixer.states.insert(
+      key(StripKind::Channel, 2),
+      StripState {
+        on: true,
+        fader: 0.75,
+        ..Default::default()
+      },
+    );
+    let frame = mixer.meter_frame();
+    let levels: Vec<(u8, f32, f32)> = frame.inputs.iter().map(|meter| (meter.number, meter.pre, meter.post)).collect();
+    assert_eq!(levels, vec![(2, 0.5, 0.5), (1, 0.25, 0.0)]);
+  }
+
+  #[test]
+  fn follows_the_fader_law() {
+    let db = |fader: f32| 20.0 * fader_gain(fader).log10();
+    assert_eq!(fader_gain(0.0), 0.0);
+    assert!((db(1.0) - 10.0).abs() < 1e-4);
+    assert!((db(0.75) - 0.0).abs() < 1e-4);
+    assert!((db(0.5) + 10.0).abs() < 1e-4);
+    assert!((db(0.25) + 30.0).abs() < 1e-4);
+    assert!((db(0.0625) + 60.0).abs() < 1e-4);
+    // Continuous where the segments meet.
+    for edge in [0.5f32, 0.25, 0.0625] {
+      assert!((db(edge) - db(edge - 1e-6)).abs() < 1e-2, "{edge}");
+    }
+  }
+
+  #[test]
+  fn reads_xinfo_replies() {
+    let mut reply = osc_string("/xinfo");
+    reply.extend(osc_string(",ssss"));
+    for value in ["192.168.1.20", "X32-STUDIO", "X32", "4.06"] {
+      reply.extend(osc_string(value));
+    }
+    let (_, packet) = rosc::decoder::decode_udp(&reply).unwrap();
+    let from: SocketAddr = "192.168.1.20:10023".parse().unwrap();
+    let mixer = parse_xinfo(packet, from).unwrap();
+    assert_eq!(
+      (mixer.host.as_str(), mixer.port, mixer.name.as_str(), mixer.model.as_str(), mixer.firmware.as_str()),
+      ("192.168.1.20", 10023, "X32-STUDIO", "X32", "4.06")
+    );
+
+    let other = OscPacket::Message(OscMessage {
+      addr: "/status".to_string(),
+      args: Vec::new(),
+    });
+    assert!(parse_xinfo(other, from).is_none());
+  }
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import SecondsRing from "./SecondsRing";
+
+export type AnalogSecondHand = "sweep" | "tick";
+
+interface AnalogClockFaceProps {
+  time: Date;
+  size: number;
+  secondHand: AnalogSecondHand;
+  clockOffsetMs: number;
+  showSecondsRing?: boolean;
+}
+
+const VIEWBOX = 200;
+const CENTER = VIEWBOX / 2;
+
+const handAngles = (date: Date, sweep: boolean) => {
+  const seconds = date.getSeconds() + (sweep ? date.getMilliseconds() / 1000 : 0);
+  const minutes = date.getMinutes() + seconds / 60;
+  const hours = (date.getHours() % 12) + minutes / 60;
+  return {
+    hour: hours * 30,
+    minute: minutes * 6,
+    second: seconds * 6,
+  };
+};
+
+const AnalogClockFace = ({ time, size, secondHand, clockOffsetMs, showSecondsRing = true }: AnalogClockFaceProps) => {
+  const sweep = secondHand === "sweep";
+  const [sweepTime, setSweepTime] = useState(() => new Date(Date.now() + clockOffsetMs));
+
+  // The shared clock only ticks every 100 ms; a sweeping hand needs every animation frame.
+  useEffect(() => {
+    if (!sweep) return;
+    let frameId = 0;
+    const update = () => {
+      setSweepTime(new Date(Date.now() + clockOffsetMs));
+      frameId = window.requestAnimationFrame(update);
+    };
+    update();
+    return () => window.cancelAnimationFrame(frameId);
+  }, [clockOffsetMs, sweep]);
+
+  const shown = sweep ? sweepTime : time;
+  const angles = handAngles(shown, sweep);
+  // Leave room for the LED ring, which sits 15px inside the edge.
+  const dialRadius = Math.max(40, CENTER - (showSecondsRing ? (30 / size) * VIEWBOX : 6));
+  const markers = Array.from({ length: 60 }, (_, i) => i);
+
+  return (
+    <div className="absolute inset-0" style={{ width: size, height: size }}>
+      {showSecondsRing && <SecondsRing currentSecond={shown.getSeconds()} size={size} />}
+      <svg
+        viewBox={`0 0 ${VIEWBOX} ${VIEWBOX}`}
+        width={size}
+        height={size}
+        className="absolute inset-0"
+        role="img"
+        aria-label="Analog clock"
+      >
+        {markers.map((marker) => {
+          const isHour = marker % 5 === 0;
+          const outer = dialRadius;
+          const inner = dialRadius - (isHour ? 12 : 4);
+          return (
+            <line
+              key={marker}
+              x1={CENTER}
+              y1={CENTER - outer}
+              x2={CENTER}
+              y2={CENTER - inner}
+              stroke="hsl(var(--foreground))"
+              strokeOpacity={isHour ? 0.9 : 0.35}
+              strokeWidth={isHour ? 3 : 1}
+              strokeLinecap="round"
+              transform={`rotate(${marker * 6} ${CENTER} ${CENTER})`}
+            />
+          );
+        })}
+        <line
+          x1={CENTER}
+          y1={CENTER + 10}
+          x2={CENTER}
+          y2={CENTER - dialRadius * 0.55}
+          stroke="hsl(var(--foreground))"
+          strokeWidth={6}
+          strokeLinecap="round"
+          transform={`rotate(${angles.hour} ${CENTER} ${CENTER})`}
+        />
+        <line
+          x1={CENTER}
+          y1={CENTER + 12}
+          x2={CENTER}
+          y2={CENTER - dialRadius * 0.82}
+          stroke="hsl(var(--foreground))"
+          strokeWidth={4}
+          strokeLinecap="round"
+          transform={`rotate(${angles.minute} ${CENTER} ${CENTER})`}
+        />
+        <g transform={`rotate(${angles.second} ${CENTER} ${CENTER})`}>
+          <line
+            x1={CENTER}
+            y1={CENTER + 18}
+            x2={CENTER}
+            y2={CENTER - dialRadius * 0.92}
+            stroke="hsl(var(--clock-led))"
+            strokeWidth={1.5}
+            strokeLinecap="round"
+          />
+          <circle cx={CENTER} cy={CENTER} r={4} fill="hsl(var(--clock-led))" />
+        </g>
+        <circle cx={CENTER} cy={CENTER} r={1.5} fill="hsl(var(--background))" />
+      </svg>
+    </div>
+  );
+};
+
+export default AnalogClockFace;
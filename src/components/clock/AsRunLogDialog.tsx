@@ -0,0 +1,145 @@
+import { useMemo, useState } from "react";
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import { Download, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/sonner";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAsRunLog } from "@/hooks/useAsRunLog";
+import { AS_RUN_EVENT_LABELS, buildAsRunWorkbook, buildEventRows } from "@/lib/asRunLog";
+import { toCsv } from "@/lib/csv";
+import { encodeCsv, fileSafeName, saveOutputFile } from "@/lib/download";
+
+type AsRunLogDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Name used when the operator starts a new show from the dialog. */
+  showName: string | null;
+};
+
+const AsRunLogDialog = ({ open, onOpenChange, showName }: AsRunLogDialogProps) => {
+  const { log, startNewShow, deleteShow } = useAsRunLog();
+  const [selectedShowId, setSelectedShowId] = useState<string | null>(null);
+  const showId =
+    selectedShowId && log.shows.some((show) => show.id === selectedShowId) ? selectedShowId : log.currentShowId;
+  const show = log.shows.find((item) => item.id === showId) ?? null;
+  const entries = useMemo(() => log.entries.filter((entry) => entry.showId === showId), [log.entries, showId]);
+  const exportBaseName = show
+    ? `as-run-${fileSafeName(show.name, "show")}-${format(show.startedAt, "yyyy-MM-dd")}`
+    : "as-run";
+
+  const saveExport = async (bytes: Uint8Array, relativePath: string, mimeType: string) => {
+    try {
+      const path = await saveOutputFile(bytes, relativePath, mimeType);
+      if (path) toast.success(`Saved ${path}`);
+    } catch (error) {
+      toast.error(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const exportCsv = () =>
+    saveExport(encodeCsv(toCsv(buildEventRows(entries))), `csv/${exportBaseName}.csv`, "text/csv;charset=utf-8");
+
+  const exportXlsx = () => {
+    const data = XLSX.write(buildAsRunWorkbook(entries), { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+    return saveExport(
+      new Uint8Array(data),
+      `xlsx/${exportBaseName}.xlsx`,
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>As-run log</DialogTitle>
+          <DialogDescription>
+            What actually went to air: segment starts and ends, skips and jumps, CasparCG, TriCaster recording and
+            mic changes.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={showId ?? ""}
+            onChange={(event) => setSelectedShowId(event.target.value || null)}
+            className="min-w-0 flex-1 rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+            disabled={log.shows.length === 0}
+          >
+            {log.shows.length === 0 && <option value="">No shows logged yet</option>}
+            {[...log.shows].reverse().map((item) => (
+              <option key={item.id} value={item.id}>
+                {format(item.startedAt, "yyyy-MM-dd HH:mm")} — {item.name}
+                {item.id === log.currentShowId ? " (current)" : ""}
+              </option>
+            ))}
+          </select>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              startNewShow(showName);
+              setSelectedShowId(null);
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New show
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => show && deleteShow(show.id)}
+            disabled={!show}
+            className="text-muted-foreground"
+          >
+            <Trash2 className="mr-1 h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+        <div className="max-h-[50vh] overflow-auto rounded-md border border-border/60">
+          {entries.length === 0 ? (
+            <div className="p-4 text-sm text-muted-foreground">Nothing logged for this show yet.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-background text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2 text-left font-normal">Time</th>
+                  <th className="px-3 py-2 text-left font-normal">Event</th>
+                  <th className="px-3 py-2 text-left font-normal">Segment</th>
+                  <th className="px-3 py-2 text-left font-normal">Detail</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-t border-border/40">
+                    <td className="px-3 py-1 tabular-nums text-muted-foreground">{format(entry.at, "HH:mm:ss")}</td>
+                    <td className="px-3 py-1 text-foreground">{AS_RUN_EVENT_LABELS[entry.kind]}</td>
+                    <td className="px-3 py-1 text-foreground">
+                      {entry.segmentNumber ? `${entry.segmentNumber} ` : ""}
+                      {entry.title ?? ""}
+                    </td>
+                    <td className="px-3 py-1 text-muted-foreground">{entry.detail ?? ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={exportCsv} disabled={entries.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={exportXlsx} disabled={entries.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export XLSX
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AsRunLogDialog;
@@ -0,0 +1,55 @@
+import { cn } from "@/lib/utils";
+import { formatCountdown, getCountdownStatus, type CountdownTimer } from "@/lib/countdown";
+
+interface CountdownTimersProps {
+  now: Date;
+  timers: CountdownTimer[];
+  size?: "sm" | "md";
+  className?: string;
+}
+
+const sizeClasses: Record<NonNullable<CountdownTimersProps["size"]>, { label: string; time: string }> = {
+  sm: { label: "text-[10px] tracking-[0.25em]", time: "text-xl" },
+  md: { label: "text-xs tracking-[0.3em]", time: "text-3xl sm:text-4xl" },
+};
+
+const CountdownTimers = ({ now, timers, size = "md", className }: CountdownTimersProps) => {
+  const styles = sizeClasses[size];
+  const visible = timers
+    .map((timer) => ({ timer, status: getCountdownStatus(timer, now) }))
+    .filter(({ status }) => status.stage !== "hidden");
+  if (visible.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-start justify-center gap-x-6 gap-y-3", className)}>
+      {visible.map(({ timer, status }) => {
+        const stageColor =
+          status.stage === "critical" || status.stage === "expired"
+            ? timer.criticalColor
+            : status.stage === "warning"
+              ? timer.warningColor
+              : null;
+        return (
+          <div
+            key={timer.id}
+            className={cn(
+              "flex min-w-[120px] flex-col items-center rounded-xl border px-4 py-2 text-center shadow-sm backdrop-blur transition-colors duration-300",
+              stageColor ? "text-white" : "border-border/60 bg-card/70",
+              status.stage === "expired" && "animate-pulse",
+            )}
+            style={stageColor ? { backgroundColor: stageColor, borderColor: stageColor } : undefined}
+          >
+            <div className={cn("uppercase", stageColor ? "text-white/80" : "text-muted-foreground", styles.label)}>
+              {timer.label || (timer.mode === "duration" ? "Countdown" : timer.targetTime)}
+            </div>
+            <div className={cn("font-semibold tabular-nums", !stageColor && "text-foreground", styles.time)}>
+              {formatCountdown(status.remainingSeconds)}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CountdownTimers;
@@ -8,7 +8,7 @@ const DigitalDisplay = ({ time, className = "" }: DigitalDisplayProps) => {
     <div className={`relative ${className}`}>
       {/* Dim background digits for LED effect */}
       <div className="led-display led-dim absolute inset-0 select-none" aria-hidden="true">
-        88:88:88
+        {time.replace(/\d/g, "8")}
       </div>
       {/* Active digits */}
       <div className="led-display text-primary relative">
@@ -0,0 +1,37 @@
+import { cn } from "@/lib/utils";
+import type { IndicatorFlash } from "@/lib/indicators";
+import type { WatchfaceIndicator } from "./watchfaces";
+
+const INDICATOR_PILL_CLASS: Record<WatchfaceIndicator["tone"], string> = {
+  live: "bg-rose-500/90 text-white shadow-[0_0_14px_rgba(244,63,94,0.55)]",
+  safe: "bg-emerald-500/10 text-emerald-200",
+  idle: "bg-foreground/10 text-muted-foreground",
+};
+
+const FLASH_CLASS: Record<IndicatorFlash, string> = {
+  off: "",
+  slow: "animate-indicator-flash-slow",
+  fast: "animate-indicator-flash-fast",
+};
+
+/** A status pill; user-defined indicators bring their own colours and are dimmed while off. */
+const IndicatorPill = ({ indicator }: { indicator: WatchfaceIndicator }) => {
+  const { colors } = indicator;
+  const live = indicator.tone === "live";
+  const customClass = live ? "shadow-[0_0_14px_rgba(0,0,0,0.35)]" : "opacity-25";
+  const toneClass = colors ? customClass : INDICATOR_PILL_CLASS[indicator.tone];
+  return (
+    <div
+      className={cn(
+        "rounded-full px-4 py-1 text-xs uppercase tracking-[0.35em]",
+        toneClass,
+        live && FLASH_CLASS[indicator.flash ?? "off"],
+      )}
+      style={colors ? { backgroundColor: colors.background, color: colors.text } : undefined}
+    >
+      {indicator.label}
+    </div>
+  );
+};
+
+export default IndicatorPill;
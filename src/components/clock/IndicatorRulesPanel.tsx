@@ -0,0 +1,293 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import type { useIndicators } from "@/hooks/useIndicators";
+import {
+  INDICATOR_PLACEMENTS,
+  INDICATOR_PRESETS,
+  INDICATOR_SIGNAL_LABELS,
+  type IndicatorCondition,
+  type IndicatorDefinition,
+  type IndicatorFlash,
+  type IndicatorPlacement,
+  type IndicatorSignal,
+} from "@/lib/indicators";
+
+type IndicatorRulesPanelProps = ReturnType<typeof useIndicators> & {
+  /** Configured X32 mics, as `micTarget` values with their labels. */
+  micOptions: { value: string; label: string }[];
+  /** Segment types in the current running order, offered as suggestions. */
+  segmentTypes: string[];
+  /** Ids of the indicators that are lit right now. */
+  activeIds: string[];
+};
+
+const FIELD_CLASS = "rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground";
+const DDR_NUMBERS = [1, 2, 3, 4];
+
+const FLASH_LABELS: Record<IndicatorFlash, string> = { off: "Steady", slow: "Slow flash", fast: "Fast flash" };
+const PLACEMENT_LABELS: Record<IndicatorPlacement, string> = {
+  above: "Above the clock",
+  below: "Below the clock",
+  left: "Left of the clock",
+  right: "Right of the clock",
+};
+
+type ConditionRowProps = {
+  condition: IndicatorCondition;
+  onChange: (next: IndicatorCondition) => void;
+  onRemove: () => void;
+  micOptions: IndicatorRulesPanelProps["micOptions"];
+  segmentTypesId: string;
+};
+
+const ConditionRow = ({ condition, onChange, onRemove, micOptions, segmentTypesId }: ConditionRowProps) => {
+  const update = (next: Partial<IndicatorCondition>) => onChange({ ...condition, ...next });
+
+  return (
+    <div className="grid grid-cols-[6rem_1fr_1fr_auto] items-center gap-2">
+      <select
+        value={condition.negate ? "not" : "is"}
+        onChange={(event) => update({ negate: event.target.value === "not" })}
+        className={FIELD_CLASS}
+        aria-label="Condition sense"
+      >
+        <option value="is">When</option>
+        <option value="not">When not</option>
+      </select>
+      <select
+        value={condition.signal}
+        onChange={(event) => update({ signal: event.target.value as IndicatorSignal, target: "" })}
+        className={FIELD_CLASS}
+        aria-label="Signal"
+      >
+        {(Object.keys(INDICATOR_SIGNAL_LABELS) as IndicatorSignal[]).map((signal) => (
+          <option key={signal} value={signal}>
+            {INDICATOR_SIGNAL_LABELS[signal]}
+          </option>
+        ))}
+      </select>
+      {condition.signal === "mic-live" ? (
+        <select
+          value={condition.target}
+          onChange={(event) => update({ target: event.target.value })}
+          className={FIELD_CLASS}
+          aria-label="Mic"
+        >
+          <option value="">Any mic</option>
+          {micOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      ) : condition.signal === "ddr-playing" ? (
+        <select
+          value={condition.target}
+          onChange={(event) => update({ target: event.target.value })}
+          className={FIELD_CLASS}
+          aria-label="DDR"
+        >
+          <option value="">Any DDR</option>
+          {DDR_NUMBERS.map((ddr) => (
+            <option key={ddr} value={String(ddr)}>
+              DDR {ddr}
+            </option>
+          ))}
+        </select>
+      ) : condition.signal === "segment-type" ? (
+        <input
+          value={condition.target}
+          onChange={(event) => update({ target: event.target.value })}
+          className={FIELD_CLASS}
+          list={segmentTypesId}
+          placeholder="Segment type"
+          aria-label="Segment type"
+        />
+      ) : (
+        <div />
+      )}
+      <Button type="button" variant="ghost" size="icon" onClick={onRemove} title="Remove condition">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+/** User-defined indicators, each lit by its own rule over the mic, TriCaster and running-order signals. */
+const IndicatorRulesPanel = ({
+  indicators,
+  addIndicator,
+  updateIndicator,
+  removeIndicator,
+  micOptions,
+  segmentTypes,
+  activeIds,
+}: IndicatorRulesPanelProps) => {
+  const segmentTypesId = "indicator-segment-types";
+
+  const updateConditions = (indicator: IndicatorDefinition, conditions: IndicatorCondition[]) => {
+    updateIndicator(indicator.id, { rule: { ...indicator.rule, conditions } });
+  };
+
+  return (
+    <div className="mt-8 border-t border-border/60 pt-6">
+      <div className="text-lg font-semibold text-foreground">Indicators</div>
+      <div className="mt-1 text-sm text-muted-foreground">
+        Signs such as ON AIR or REHEARSAL, lit when their conditions hold. Mic and TriCaster conditions need those
+        integrations enabled above; segment types come from the running order.
+      </div>
+      <div className="mt-4 flex flex-col gap-4">
+        {indicators.map((indicator) => {
+          const active = activeIds.includes(indicator.id);
+          return (
+            <div key={indicator.id} className="flex flex-col gap-3 rounded-md border border-border/60 p-3">
+              <div className="flex flex-wrap items-end gap-3">
+                <label className="flex flex-1 flex-col gap-1 text-sm text-muted-foreground">
+                  Label
+                  <input
+                    value={indicator.label}
+                    onChange={(event) => updateIndicator(indicator.id, { label: event.target.value })}
+                    className={FIELD_CLASS}
+                    placeholder="ON AIR"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                  Background
+                  <input
+                    type="color"
+                    value={indicator.background}
+                    onChange={(event) => updateIndicator(indicator.id, { background: event.target.value })}
+                    className="h-10 w-14 rounded-md border border-border/60 bg-transparent"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                  Text
+                  <input
+                    type="color"
+                    value={indicator.text}
+                    onChange={(event) => updateIndicator(indicator.id, { text: event.target.value })}
+                    className="h-10 w-14 rounded-md border border-border/60 bg-transparent"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                  When lit
+                  <select
+                    value={indicator.flash}
+                    onChange={(event) => updateIndicator(indicator.id, { flash: event.target.value as IndicatorFlash })}
+                    className={FIELD_CLASS}
+                  >
+                    {(Object.keys(FLASH_LABELS) as IndicatorFlash[]).map((flash) => (
+                      <option key={flash} value={flash}>
+                        {FLASH_LABELS[flash]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                  Placement
+                  <select
+                    value={indicator.placement}
+                    onChange={(event) =>
+                      updateIndicator(indicator.id, { placement: event.target.value as IndicatorPlacement })
+                    }
+                    className={FIELD_CLASS}
+                  >
+                    {INDICATOR_PLACEMENTS.map((placement) => (
+                      <option key={placement} value={placement}>
+                        {PLACEMENT_LABELS[placement]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeIndicator(indicator.id)}
+                  title="Remove indicator"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+                <Switch
+                  checked={indicator.showWhenOff}
+                  onCheckedChange={(value) => updateIndicator(indicator.id, { showWhenOff: value })}
+                />
+                <span>Show dimmed when off</span>
+                <span className="ml-auto">Light when</span>
+                <select
+                  value={indicator.rule.match}
+                  onChange={(event) =>
+                    updateIndicator(indicator.id, {
+                      rule: { ...indicator.rule, match: event.target.value === "any" ? "any" : "all" },
+                    })
+                  }
+                  className={FIELD_CLASS}
+                  aria-label="Match"
+                >
+                  <option value="all">all conditions hold</option>
+                  <option value="any">any condition holds</option>
+                </select>
+                <span className={active ? "text-rose-400" : undefined}>{active ? "Lit" : "Off"}</span>
+              </div>
+              {indicator.rule.conditions.map((condition, index) => (
+                <ConditionRow
+                  key={index}
+                  condition={condition}
+                  onChange={(next) =>
+                    updateConditions(
+                      indicator,
+                      indicator.rule.conditions.map((entry, position) => (position === index ? next : entry)),
+                    )
+                  }
+                  onRemove={() =>
+                    updateConditions(
+                      indicator,
+                      indicator.rule.conditions.filter((_, position) => position !== index),
+                    )
+                  }
+                  micOptions={micOptions}
+                  segmentTypesId={segmentTypesId}
+                />
+              ))}
+              <div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    updateConditions(indicator, [
+                      ...indicator.rule.conditions,
+                      { signal: "mic-live", target: "", negate: false },
+                    ])
+                  }
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add condition
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">Add indicator</span>
+        {INDICATOR_PRESETS.map((preset) => (
+          <Button key={preset.label} type="button" variant="outline" size="sm" onClick={() => addIndicator(preset)}>
+            <Plus className="mr-2 h-4 w-4" />
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+      <datalist id={segmentTypesId}>
+        {segmentTypes.map((type) => (
+          <option key={type} value={type} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default IndicatorRulesPanel;
@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from "react";
+import * as XLSX from "xlsx";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  SEGMENT_FIELDS,
+  formatCellValue,
+  guessColumns,
+  guessMapping,
+  mapSheetRows,
+  validateRunningOrderRows,
+  type ImportMapping,
+  type RunningOrderImportResult,
+  type SegmentField,
+} from "@/lib/runningOrderImport";
+import type { FrameRateId } from "@/lib/timecode";
+import { cn } from "@/lib/utils";
+
+type RunningOrderImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string | null;
+  workbook: XLSX.WorkBook | null;
+  initialMapping: ImportMapping | null;
+  frameRate: FrameRateId;
+  onImport: (result: RunningOrderImportResult, mapping: ImportMapping) => void;
+};
+
+const PREVIEW_ROWS = 12;
+const SELECT_CLASS = "rounded-md border border-border/60 bg-transparent px-2 py-1 text-sm text-foreground";
+
+const columnName = (index: number) => XLSX.utils.encode_col(index);
+
+const readSheetRows = (workbook: XLSX.WorkBook | null, sheetName: string | null) => {
+  const sheet = workbook && sheetName ? workbook.Sheets[sheetName] : null;
+  if (!sheet) return [];
+  return XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: null, raw: true });
+};
+
+const RunningOrderImportDialog = ({
+  open,
+  onOpenChange,
+  fileName,
+  workbook,
+  initialMapping,
+  frameRate,
+  onImport,
+}: RunningOrderImportDialogProps) => {
+  const [mapping, setMapping] = useState<ImportMapping | null>(initialMapping);
+
+  useEffect(() => {
+    setMapping(initialMapping);
+  }, [initialMapping]);
+
+  const sheetNames = workbook?.SheetNames ?? [];
+  const sheetName = mapping?.sheetName && sheetNames.includes(mapping.sheetName) ? mapping.sheetName : sheetNames[0];
+  const rows = useMemo(() => readSheetRows(workbook, sheetName ?? null), [workbook, sheetName]);
+  const columnCount = useMemo(() => rows.reduce((max, row) => Math.max(max, row?.length ?? 0), 0), [rows]);
+  const headers = mapping ? rows[mapping.headerRow] ?? [] : [];
+  const result = useMemo(
+    () => (mapping ? validateRunningOrderRows(mapSheetRows(rows, mapping), frameRate) : null),
+    [frameRate, mapping, rows],
+  );
+
+  if (!mapping) return null;
+
+  const selectSheet = (name: string) => {
+    setMapping(guessMapping(readSheetRows(workbook, name), name));
+  };
+
+  const selectHeaderRow = (headerRow: number) => {
+    setMapping((prev) => prev && { ...prev, headerRow: Math.max(0, headerRow) });
+  };
+
+  const setColumn = (field: SegmentField, column: number | null) => {
+    setMapping((prev) => prev && { ...prev, columns: { ...prev.columns, [field]: column } });
+  };
+
+  const detectColumns = () => {
+    setMapping((prev) => prev && { ...prev, columns: guessColumns(headers) });
+  };
+
+  const headerLabel = (index: number) => {
+    const label = formatCellValue(headers[index]).trim();
+    return label ? `${columnName(index)} — ${label}` : columnName(index);
+  };
+
+  const previewRows = rows.slice(0, Math.max(PREVIEW_ROWS, mapping.headerRow + 4));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import running order</DialogTitle>
+          <DialogDescription>
+            {fileName ? `${fileName}: ` : ""}pick the sheet and header row, then map columns to segment fields. The
+            mapping is remembered for this file name.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-muted-foreground">
+            Sheet
+            <select
+              value={sheetName ?? ""}
+              onChange={(event) => selectSheet(event.target.value)}
+              className={SELECT_CLASS}
+            >
+              {sheetNames.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-muted-foreground">
+            Header row
+            <input
+              type="number"
+              min={1}
+              value={mapping.headerRow + 1}
+              onChange={(event) => selectHeaderRow(Number(event.target.value) - 1)}
+              className={cn(SELECT_CLASS, "w-24")}
+            />
+          </label>
+          <Button type="button" variant="outline" size="sm" onClick={detectColumns}>
+            Detect from headers
+          </Button>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-4">
+          {SEGMENT_FIELDS.map((field) => (
+            <label
+              key={field.id}
+              className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-muted-foreground"
+            >
+              {field.label}
+              <select
+                value={mapping.columns[field.id] ?? ""}
+                onChange={(event) => setColumn(field.id, event.target.value === "" ? null : Number(event.target.value))}
+                className={SELECT_CLASS}
+              >
+                <option value="">Not imported</option>
+                {Array.from({ length: columnCount }, (_, index) => (
+                  <option key={index} value={index}>
+                    {headerLabel(index)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        <div className="max-h-[30vh] overflow-auto rounded-md border border-border/60">
+          <table className="w-full text-xs tabular-nums">
+            <thead className="sticky top-0 bg-background uppercase tracking-[0.2em] text-muted-foreground">
+              <tr>
+                <th className="px-2 py-1 text-left font-normal">Row</th>
+                {Array.from({ length: columnCount }, (_, index) => (
+                  <th key={index} className="px-2 py-1 text-left font-normal">
+                    {columnName(index)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {previewRows.map((row, rowIndex) => (
+                <tr
+                  key={rowIndex}
+                  onClick={() => selectHeaderRow(rowIndex)}
+                  className={cn(
+                    "cursor-pointer border-t border-border/40",
+                    rowIndex === mapping.headerRow && "bg-primary/15 font-semibold text-foreground",
+                    rowIndex < mapping.headerRow && "text-muted-foreground/60",
+                  )}
+                  title="Use as header row"
+                >
+                  <td className="px-2 py-1 text-muted-foreground">{rowIndex + 1}</td>
+                  {Array.from({ length: columnCount }, (_, index) => (
+                    <td key={index} className="max-w-[12rem] truncate px-2 py-1">
+                      {formatCellValue(row?.[index])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {result && (
+          <div className="flex flex-col gap-2 text-sm">
+            <div className="text-muted-foreground">
+              {result.segments.length} segment{result.segments.length === 1 ? "" : "s"} ready to import
+              {result.errors.length > 0 &&
+                `, ${result.errors.length} row${result.errors.length === 1 ? "" : "s"} could not be parsed`}
+            </div>
+            {result.errors.length > 0 && (
+              <ul className="max-h-32 overflow-auto rounded-md border border-amber-500/40 bg-amber-500/10 p-2 text-xs">
+                {result.errors.map((error) => (
+                  <li key={error.rowNumber} className="text-amber-200">
+                    Row {error.rowNumber}: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            disabled={!result || result.segments.length === 0}
+            onClick={() => result && onImport(result, { ...mapping, sheetName: sheetName ?? null })}
+          >
+            Import
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RunningOrderImportDialog;
@@ -5,7 +5,8 @@ import { sv } from "date-fns/locale";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
-import { GripVertical, Pencil, Plus, Trash2 } from "lucide-react";
+import { Download, GripVertical, Pencil, Plus, Redo2, ScrollText, Trash2, Undo2 } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
 import {
   ContextMenu,
   ContextMenuContent,
@@ -13,28 +14,59 @@ import {
   ContextMenuTrigger,
 } from "@/components/ui/context-menu";
 import DigitalDisplay from "./DigitalDisplay";
-
-type RunningOrderSegment = {
-  id: string;
-  segmentNumber: string;
-  startSeconds: number | null;
-  durationSeconds: number;
-  type: string;
-  camera: string;
-  casparTemplate: string;
-  casparData: string;
-  rowIndex: number;
-};
-
-type RunningOrderState = {
-  sourceName: string | null;
-  segments: RunningOrderSegment[];
-  showStartEnabled: boolean;
-  showStartSeconds: number | null;
-  skippedIds: string[];
-  casparAutoPlayEnabled: boolean;
-  shotboxItems: ShotboxItem[];
-};
+import AsRunLogDialog from "./AsRunLogDialog";
+import RunningOrderImportDialog from "./RunningOrderImportDialog";
+import RunningOrderProjectMenu from "./RunningOrderProjectMenu";
+import { useAsRunLog } from "@/hooks/useAsRunLog";
+import { useImportMappings } from "@/hooks/useImportMappings";
+import type { AsRunEvent } from "@/lib/asRunLog";
+import { DEFAULT_FRAME_RATE, formatDurationTimecode, type FrameRateId } from "@/lib/timecode";
+import {
+  getEffectiveSegments,
+  type EffectiveSegment,
+  parseDurationCellToSeconds,
+  parseTimeCellToSeconds,
+  type RunningOrderSegment,
+  type RunningOrderState,
+  type ShotboxItem,
+} from "@/lib/runningOrder";
+import {
+  guessMapping,
+  type ImportMapping,
+  type ImportRowError,
+  type RunningOrderImportResult,
+} from "@/lib/runningOrderImport";
+import {
+  buildRunningOrderPdf,
+  buildRunningOrderWorkbook,
+  getExportBaseName,
+  getRunningOrderExport,
+} from "@/lib/runningOrderExport";
+import {
+  DEFAULT_TIMING_MODE,
+  SHOW_DATE_FORMAT,
+  SHOW_END_TAKE_ID,
+  formatOverUnder,
+  formatShowTime,
+  getBackTiming,
+  getRunningOrderTiming,
+  getShowDayOffset,
+  type RunningOrderTimingMode,
+  type SegmentTake,
+  type TimedSegment,
+  wallToShowSeconds,
+} from "@/lib/runningOrderTiming";
+import { saveOutputFile } from "@/lib/download";
+import {
+  RUNNING_ORDER_STATE_VERSION,
+  migrateRunningOrderState,
+  readStoredRunningOrder,
+  type RunningOrderProject,
+  type StoredRunningOrder,
+} from "@/lib/runningOrderProject";
+import { settingBackupKey } from "@/lib/settingsStore";
+import { createUndoHistory, recordChange, redoChange, undoChange, type UndoHistory } from "@/lib/undoHistory";
+import { RUNNING_ORDER_FILE_ACCEPT, readRunningOrderFile, type RunningOrderSource } from "@/lib/runningOrderFormats";
 
 type CasparControls = {
   available: boolean;
@@ -43,13 +75,6 @@ type CasparControls = {
   stopTemplate: () => Promise<unknown> | unknown;
 };
 
-type ShotboxItem = {
-  id: string;
-  label: string;
-  template: string;
-  data: string;
-};
-
 type RunningOrderLayoutProps = {
   now: Date;
   persistKey?: string;
@@ -59,9 +84,14 @@ type RunningOrderLayoutProps = {
   popoutClockEnabled?: boolean;
   onTogglePopoutClock?: (next: boolean) => void;
   casparControls?: CasparControls;
+  timecode?: TimecodeOptions;
+};
+
+type TimecodeOptions = {
+  frameRate: FrameRateId;
+  showFrames: boolean;
 };
 
-const STORAGE_VERSION = 1;
 
 const formatClockTime = (seconds: number) => {
   const clamped = ((seconds % 86400) + 86400) % 86400;
@@ -82,70 +112,56 @@ const formatDuration = (seconds: number) => {
   return `${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
 };
 
-const parseTimeCellToSeconds = (value: unknown) => {
-  if (value == null || value === "") return null;
-  if (value instanceof Date) {
-    return value.getHours() * 3600 + value.getMinutes() * 60 + value.getSeconds();
-  }
-  if (typeof value === "number") {
-    const parsed = XLSX.SSF.parse_date_code(value);
-    if (!parsed) return null;
-    return parsed.H * 3600 + parsed.M * 60 + Math.floor(parsed.S || 0);
-  }
-  if (typeof value === "string") {
-    const trimmed = value.trim();
-    if (!trimmed) return null;
-    const parts = trimmed.split(":").map((part) => Number(part));
-    if (parts.some((part) => Number.isNaN(part))) return null;
-    const [h = 0, m = 0, s = 0] = parts;
-    return h * 3600 + m * 60 + s;
-  }
-  return null;
-};
+const asRunSegmentDetails = (segment: {
+  id: string;
+  segmentNumber: string;
+  type: string;
+  startSeconds: number | null;
+  durationSeconds: number;
+}) => ({
+  segmentId: segment.id,
+  segmentNumber: segment.segmentNumber,
+  title: segment.type,
+  plannedStartSeconds: segment.startSeconds ?? undefined,
+  plannedDurationSeconds: segment.durationSeconds,
+});
 
-const parseDurationCellToSeconds = (value: unknown) => {
-  if (value == null || value === "") return 0;
-  if (value instanceof Date) {
-    return value.getHours() * 3600 + value.getMinutes() * 60 + value.getSeconds();
-  }
-  if (typeof value === "number") {
-    if (value > 0 && value <= 1) {
-      return Math.round(value * 86400);
-    }
-    return Math.round(value);
-  }
-  if (typeof value === "string") {
-    const trimmed = value.trim();
-    if (!trimmed) return 0;
-    const parts = trimmed.split(":").map((part) => Number(part));
-    if (parts.some((part) => Number.isNaN(part))) return 0;
-    const [h = 0, m = 0, s = 0] = parts;
-    return h * 3600 + m * 60 + s;
-  }
-  return 0;
+const loadFromStorage = (persistKey?: string): StoredRunningOrder =>
+  persistKey ? readStoredRunningOrder(window.localStorage.getItem(persistKey)) : { state: null, error: null };
+
+const saveToStorage = (persistKey: string | undefined, state: RunningOrderState) => {
+  if (!persistKey) return;
+  window.localStorage.setItem(
+    persistKey,
+    JSON.stringify({
+      version: RUNNING_ORDER_STATE_VERSION,
+      state,
+    }),
+  );
 };
 
-const loadFromStorage = (persistKey?: string): RunningOrderState | null => {
+const historyKey = (persistKey: string) => `${persistKey}_history`;
+
+const loadHistory = (persistKey?: string): UndoHistory<RunningOrderState> | null => {
   if (!persistKey) return null;
   try {
-    const raw = window.localStorage.getItem(persistKey);
+    const raw = window.localStorage.getItem(historyKey(persistKey));
     if (!raw) return null;
-    const parsed = JSON.parse(raw) as { version: number; state: RunningOrderState };
-    if (parsed?.version !== STORAGE_VERSION) return null;
-    return parsed.state;
+    const parsed = JSON.parse(raw) as { version: number; history: UndoHistory<unknown> };
+    if (!Array.isArray(parsed?.history?.past) || !Array.isArray(parsed.history.future)) return null;
+    const migrate = (state: unknown) => migrateRunningOrderState(state, parsed.version);
+    return { ...parsed.history, past: parsed.history.past.map(migrate), future: parsed.history.future.map(migrate) };
   } catch {
     return null;
   }
 };
 
-const saveToStorage = (persistKey: string | undefined, state: RunningOrderState) => {
+// Shared through localStorage so undo in the popout can reach changes made in the main window.
+const saveHistory = (persistKey: string | undefined, history: UndoHistory<RunningOrderState>) => {
   if (!persistKey) return;
   window.localStorage.setItem(
-    persistKey,
-    JSON.stringify({
-      version: STORAGE_VERSION,
-      state,
-    }),
+    historyKey(persistKey),
+    JSON.stringify({ version: RUNNING_ORDER_STATE_VERSION, history }),
   );
 };
 
@@ -158,64 +174,77 @@ const RunningOrderLayout = ({
   popoutClockEnabled,
   onTogglePopoutClock,
   casparControls,
+  timecode,
 }: RunningOrderLayoutProps) => {
-  const [sourceName, setSourceName] = useState<string | null>(null);
-  const [segments, setSegments] = useState<RunningOrderSegment[]>([]);
-  const [showStartEnabled, setShowStartEnabled] = useState(false);
-  const [showStartSeconds, setShowStartSeconds] = useState<number | null>(null);
-  const [skippedIds, setSkippedIds] = useState<string[]>([]);
+  const frameRate = timecode?.frameRate ?? DEFAULT_FRAME_RATE;
+  const formatSegmentDuration = (seconds: number) =>
+    timecode?.showFrames ? formatDurationTimecode(seconds, frameRate) : formatDuration(seconds);
+  // Read before the first save, which would otherwise overwrite the stored state with an empty one.
+  const [stored] = useState(() => (syncFromStorage ? loadFromStorage(persistKey) : null));
+  const storedState = stored?.state ?? null;
+  // A stored running order that cannot be read, e.g. one from a newer version, is not saved over until the user
+  // changes something; its text is copied to the backup key first.
+  const keepStoredRef = useRef(Boolean(stored?.error));
+  const [sourceName, setSourceName] = useState<string | null>(storedState?.sourceName ?? null);
+  const [segments, setSegments] = useState<RunningOrderSegment[]>(storedState?.segments ?? []);
+  const [showStartEnabled, setShowStartEnabled] = useState(storedState?.showStartEnabled ?? false);
+  const [showStartSeconds, setShowStartSeconds] = useState<number | null>(storedState?.showStartSeconds ?? null);
+  const [skippedIds, setSkippedIds] = useState<string[]>(storedState?.skippedIds ?? []);
   const [reorderEnabled, setReorderEnabled] = useState(false);
   const [draggingId, setDraggingId] = useState<string | null>(null);
   const [editEnabled, setEditEnabled] = useState(false);
-  const [casparAutoPlayEnabled, setCasparAutoPlayEnabled] = useState(false);
+  const [casparAutoPlayEnabled, setCasparAutoPlayEnabled] = useState(storedState?.casparAutoPlayEnabled ?? false);
   const [shotboxEditEnabled, setShotboxEditEnabled] = useState(false);
-  const [shotboxItems, setShotboxItems] = useState<ShotboxItem[]>([]);
+  const [shotboxItems, setShotboxItems] = useState<ShotboxItem[]>(storedState?.shotboxItems ?? []);
+  const [hardOutSeconds, setHardOutSeconds] = useState<number | null>(storedState?.hardOutSeconds ?? null);
+  const [showDate, setShowDate] = useState<string | null>(storedState?.showDate ?? null);
+  const [timingMode, setTimingMode] = useState<RunningOrderTimingMode>(
+    storedState?.timingMode ?? DEFAULT_TIMING_MODE,
+  );
+  const [takes, setTakes] = useState<SegmentTake[]>(storedState?.takes ?? []);
+  const [asRunOpen, setAsRunOpen] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    workbook: XLSX.WorkBook;
+    mapping: ImportMapping;
+  } | null>(null);
+  const [importReport, setImportReport] = useState<{
+    fileName: string;
+    /** Set when nothing could be imported from the file. */
+    failure?: string;
+    errors: ImportRowError[];
+  } | null>(null);
+  const { getMapping: getImportMapping, rememberMapping: rememberImportMapping } = useImportMappings();
   const previousAutoSegmentId = useRef<string | null>(null);
+  // undefined until the first render, so a segment already on air when the window opens is not logged as starting.
+  const lastLoggedSegmentRef = useRef<(typeof effectiveSegments)[number] | null | undefined>(undefined);
+  const pendingTransitionRef = useRef<string | null>(null);
+  const [history, setHistory] = useState<UndoHistory<RunningOrderState>>(
+    () => (syncFromStorage ? loadHistory(persistKey) : null) ?? createUndoHistory(),
+  );
+  const lastStateRef = useRef<RunningOrderState | null>(null);
+  const applyingStateRef = useRef(false);
+  const mergeableChangeRef = useRef(false);
+  const { logEvent: logAsRun, selectShow: selectAsRunShow } = useAsRunLog();
 
-  useEffect(() => {
-    if (!syncFromStorage) return;
-    const stored = loadFromStorage(persistKey);
-    if (stored) {
-      setSourceName(stored.sourceName);
-      setSegments(
-        stored.segments.map((segment) => ({
-          ...segment,
-          camera: segment.camera ?? "",
-          casparTemplate: segment.casparTemplate ?? "",
-          casparData: segment.casparData ?? "",
-        })),
-      );
-      setShowStartEnabled(stored.showStartEnabled);
-      setShowStartSeconds(stored.showStartSeconds);
-      setSkippedIds(stored.skippedIds);
-      setCasparAutoPlayEnabled(stored.casparAutoPlayEnabled ?? false);
-      setShotboxItems(stored.shotboxItems ?? []);
-    }
-    const handleStorage = (event: StorageEvent) => {
-      if (event.key !== persistKey || !event.newValue) return;
-      const parsed = loadFromStorage(persistKey);
-      if (!parsed) return;
-      setSourceName(parsed.sourceName);
-      setSegments(
-        parsed.segments.map((segment) => ({
-          ...segment,
-          camera: segment.camera ?? "",
-          casparTemplate: segment.casparTemplate ?? "",
-          casparData: segment.casparData ?? "",
-        })),
-      );
-      setShowStartEnabled(parsed.showStartEnabled);
-      setShowStartSeconds(parsed.showStartSeconds);
-      setSkippedIds(parsed.skippedIds);
-      setCasparAutoPlayEnabled(parsed.casparAutoPlayEnabled ?? false);
-      setShotboxItems(parsed.shotboxItems ?? []);
-    };
-    window.addEventListener("storage", handleStorage);
-    return () => window.removeEventListener("storage", handleStorage);
-  }, [persistKey, syncFromStorage]);
+  /** Replaces the whole state; only opening a project counts as an undoable change. */
+  const applyState = useCallback((state: RunningOrderState, recordHistory = false) => {
+    applyingStateRef.current = !recordHistory;
+    setSourceName(state.sourceName);
+    setSegments(state.segments);
+    setShowStartEnabled(state.showStartEnabled);
+    setShowStartSeconds(state.showStartSeconds);
+    setSkippedIds(state.skippedIds);
+    setCasparAutoPlayEnabled(state.casparAutoPlayEnabled);
+    setShotboxItems(state.shotboxItems);
+    setHardOutSeconds(state.hardOutSeconds);
+    setShowDate(state.showDate);
+    setTimingMode(state.timingMode);
+    setTakes(state.takes);
+  }, []);
 
-  useEffect(() => {
-    saveToStorage(persistKey, {
+  const runningOrderState = useMemo<RunningOrderState>(
+    () => ({
       sourceName,
       segments,
       showStartEnabled,
@@ -223,103 +252,190 @@ const RunningOrderLayout = ({
       skippedIds,
       casparAutoPlayEnabled,
       shotboxItems,
+      hardOutSeconds,
+      showDate,
+      timingMode,
+      takes,
+    }),
+    [
+      sourceName,
+      segments,
+      showStartEnabled,
+      showStartSeconds,
+      skippedIds,
+      casparAutoPlayEnabled,
+      shotboxItems,
+      hardOutSeconds,
+      showDate,
+      timingMode,
+      takes,
+    ],
+  );
+
+  useEffect(() => {
+    if (!stored?.error || !persistKey) return;
+    const backupKey = settingBackupKey(persistKey);
+    const raw = window.localStorage.getItem(persistKey);
+    if (raw != null) window.localStorage.setItem(backupKey, raw);
+    toast.warning("Running order could not be loaded", {
+      description: `${stored.error} A copy is kept under ${backupKey}; it is not overwritten until you make a change.`,
     });
-  }, [
-    persistKey,
-    sourceName,
-    segments,
-    showStartEnabled,
-    showStartSeconds,
-    skippedIds,
-    casparAutoPlayEnabled,
-    shotboxItems,
-  ]);
+  }, [persistKey, stored]);
+
+  useEffect(() => {
+    const previous = lastStateRef.current;
+    lastStateRef.current = runningOrderState;
+    if (previous && !applyingStateRef.current) keepStoredRef.current = false;
+    if (!keepStoredRef.current) saveToStorage(persistKey, runningOrderState);
+    // States loaded from storage or restored by undo/redo are not new steps.
+    if (!previous || applyingStateRef.current) return;
+    const mergeable = mergeableChangeRef.current;
+    setHistory((prev) => recordChange(prev, previous, Date.now(), { mergeable }));
+  }, [persistKey, runningOrderState]);
 
-  const handleFileUpload = useCallback(async (file: File) => {
-    const buffer = await file.arrayBuffer();
-    const workbook = XLSX.read(buffer, { type: "array", cellDates: true });
-    const sheet = workbook.Sheets[workbook.SheetNames[0]];
-    if (!sheet) return;
-
-    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: null, raw: true });
-    const parsedSegments: RunningOrderSegment[] = [];
-    for (let i = 3; i < rows.length; i += 1) {
-      const row = rows[i] as unknown[];
-      const segmentNumber = row?.[0];
-      const startCell = row?.[1];
-      const durationCell = row?.[2];
-      const typeCell = row?.[3];
-      const cameraCell = row?.[4];
-      const casparTemplateCell = row?.[5];
-      const casparDataCell = row?.[6];
-
-      if (
-        (segmentNumber == null || segmentNumber === "") &&
-        (startCell == null || startCell === "") &&
-        (durationCell == null || durationCell === "") &&
-        (typeCell == null || typeCell === "")
-      ) {
-        continue;
+  useEffect(() => {
+    // Runs after every render, so a restore that changed nothing does not swallow the next edit.
+    applyingStateRef.current = false;
+    mergeableChangeRef.current = false;
+  });
+
+  useEffect(() => {
+    if (!syncFromStorage) return;
+    const handleStorage = (event: StorageEvent) => {
+      if (!event.newValue) return;
+      if (persistKey && event.key === historyKey(persistKey)) {
+        const parsedHistory = loadHistory(persistKey);
+        if (parsedHistory) setHistory(parsedHistory);
+        return;
       }
+      if (event.key !== persistKey) return;
+      const { state } = loadFromStorage(persistKey);
+      if (!state) return;
+      applyState(state);
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [applyState, persistKey, syncFromStorage]);
 
-      const startSeconds = parseTimeCellToSeconds(startCell);
-      const durationSeconds = parseDurationCellToSeconds(durationCell);
-      parsedSegments.push({
-        id: `${i}-${segmentNumber ?? "segment"}`,
-        segmentNumber: segmentNumber ? String(segmentNumber) : String(parsedSegments.length + 1),
-        startSeconds,
-        durationSeconds,
-        type: typeCell ? String(typeCell) : "",
-        camera: cameraCell ? String(cameraCell) : "",
-        casparTemplate: casparTemplateCell ? String(casparTemplateCell) : "",
-        casparData: casparDataCell ? String(casparDataCell) : "",
-        rowIndex: i,
-      });
-    }
+  useEffect(() => {
+    saveHistory(persistKey, history);
+  }, [history, persistKey]);
 
-    const filledSegments = parsedSegments.map((segment, index, list) => {
-      if (segment.startSeconds != null) return segment;
-      const prev = list[index - 1];
-      if (!prev || prev.startSeconds == null) return { ...segment, startSeconds: 0 };
-      return { ...segment, startSeconds: prev.startSeconds + prev.durationSeconds };
-    });
+  const handleUndo = () => {
+    const result = undoChange(history, runningOrderState);
+    if (!result) return;
+    applyState(result.state);
+    setHistory(result.history);
+  };
 
-    setSourceName(file.name);
-    setSegments(filledSegments);
-    setSkippedIds([]);
-  }, []);
+  const handleRedo = () => {
+    const result = redoChange(history, runningOrderState);
+    if (!result) return;
+    applyState(result.state);
+    setHistory(result.history);
+  };
 
-  const baseStartSeconds = useMemo(() => {
-    const first = segments.find((segment) => segment.startSeconds != null);
-    return first?.startSeconds ?? 0;
-  }, [segments]);
-
-  const effectiveSegments = useMemo(() => {
-    const offset = showStartEnabled && showStartSeconds != null ? showStartSeconds - baseStartSeconds : 0;
-    let skippedDuration = 0;
-    return segments.map((segment) => {
-      const isSkipped = skippedIds.includes(segment.id);
-      const startSeconds = (segment.startSeconds ?? 0) + offset - skippedDuration;
-      const endSeconds = startSeconds + segment.durationSeconds;
-      if (isSkipped) {
-        skippedDuration += segment.durationSeconds;
+  const undoRef = useRef(handleUndo);
+  undoRef.current = handleUndo;
+  const redoRef = useRef(handleRedo);
+  redoRef.current = handleRedo;
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Text fields keep their own undo.
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undoRef.current();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redoRef.current();
       }
-      return {
-        ...segment,
-        startSeconds,
-        endSeconds,
-        isSkipped,
-      };
-    });
-  }, [segments, skippedIds, showStartEnabled, showStartSeconds, baseStartSeconds]);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, []);
 
-  const nowSeconds = now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds();
+  const showUndoToast = (message: string) => {
+    toast(message, { action: { label: "Undo", onClick: () => undoRef.current() } });
+  };
 
-  const activeSegments = effectiveSegments.filter((segment) => !segment.isSkipped);
-  const currentSegment = activeSegments.find(
-    (segment) => nowSeconds >= segment.startSeconds && nowSeconds < segment.endSeconds,
+  const handleFileUpload = useCallback(
+    async (file: File) => {
+      let source: RunningOrderSource;
+      try {
+        source = readRunningOrderFile(file.name, await file.arrayBuffer(), frameRate);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "The file could not be read.";
+        setImportReport({ fileName: file.name, failure: message, errors: [] });
+        return;
+      }
+      if (source.kind === "segments") {
+        const { result } = source;
+        if (result.segments.length > 0) {
+          setSourceName(source.name ?? file.name);
+          setSegments(result.segments);
+          setSkippedIds([]);
+          setTakes([]);
+          setShowDate((prev) => prev ?? format(new Date(), SHOW_DATE_FORMAT));
+        }
+        setImportReport(
+          result.errors.length > 0 || result.segments.length === 0
+            ? {
+                fileName: file.name,
+                failure: result.segments.length === 0 ? "no segments found." : undefined,
+                errors: result.errors,
+              }
+            : null,
+        );
+        return;
+      }
+      const { workbook } = source;
+      const firstSheet = workbook.SheetNames[0];
+      if (!firstSheet) return;
+      const remembered = getImportMapping(file.name);
+      const mapping =
+        remembered && workbook.SheetNames.includes(remembered.sheetName ?? "")
+          ? remembered
+          : guessMapping(
+              XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[firstSheet], { header: 1, defval: null, raw: true }),
+              firstSheet,
+            );
+      setPendingImport({ fileName: file.name, workbook, mapping });
+    },
+    [frameRate, getImportMapping],
   );
-  const nextSegment = activeSegments.find((segment) => segment.startSeconds > nowSeconds);
+
+  const handleImport = (result: RunningOrderImportResult, mapping: ImportMapping) => {
+    if (!pendingImport) return;
+    rememberImportMapping(pendingImport.fileName, mapping);
+    setSourceName(pendingImport.fileName);
+    setSegments(result.segments);
+    setSkippedIds([]);
+    setTakes([]);
+    // Pin the date on import so a show running past midnight keeps its day.
+    setShowDate((prev) => prev ?? format(now, SHOW_DATE_FORMAT));
+    setImportReport(result.errors.length > 0 ? { fileName: pendingImport.fileName, errors: result.errors } : null);
+    setPendingImport(null);
+  };
+
+  const timing = useMemo(() => getRunningOrderTiming(runningOrderState, now), [now, runningOrderState]);
+  const { baseStartSeconds, anchoredSegments, showStartOverride, nowSeconds, manual: manualTiming } = timing;
+  const effectiveSegments = timing.segments;
+  // Stable across ticks, so what depends on the show day only follows the show date.
+  const showDayMs = timing.dayStart.getTime();
+  const showDay = useMemo(() => new Date(showDayMs), [showDayMs]);
+  const formatShowClock = (seconds: number) => formatShowTime(showDay, seconds);
+
+  const displaySegments: (EffectiveSegment | TimedSegment)[] = manualTiming?.segments ?? effectiveSegments;
+  const activeSegments = displaySegments.filter((segment) => !segment.isSkipped);
+  const currentSegment = timing.current ?? undefined;
+  const nextSegment = manualTiming
+    ? manualTiming.next ?? undefined
+    : activeSegments.find((segment) => segment.startSeconds > nowSeconds);
   const showStart = activeSegments[0]?.startSeconds ?? null;
   const showEnd = activeSegments[activeSegments.length - 1]?.endSeconds ?? null;
   const showDurationSeconds =
@@ -331,6 +447,25 @@ const RunningOrderLayout = ({
   const showRemainingSeconds =
     showEnd != null ? Math.max(0, showEnd - nowSeconds) : 0;
 
+  const plannedEndSeconds = useMemo(() => {
+    const planned = getEffectiveSegments(anchoredSegments, [], showStartOverride);
+    return planned[planned.length - 1]?.endSeconds ?? null;
+  }, [anchoredSegments, showStartOverride]);
+  // A hard out earlier in the day than the show start belongs to the next day.
+  const targetEndSeconds =
+    hardOutSeconds != null
+      ? wallToShowSeconds(showDay, hardOutSeconds + (hardOutSeconds < baseStartSeconds ? 86400 : 0))
+      : plannedEndSeconds;
+  const remainingSegments = activeSegments.filter((segment) =>
+    "status" in segment ? segment.status === "upcoming" : segment.startSeconds > nowSeconds,
+  );
+  const backTiming =
+    targetEndSeconds != null && showEnd != null
+      ? getBackTiming(remainingSegments, manualTiming?.projectedEndSeconds ?? showEnd, targetEndSeconds)
+      : null;
+
+  const nextHardStart = activeSegments.find((segment) => segment.hardStart && segment.startSeconds > nowSeconds);
+
   const countdownTarget = currentSegment ? currentSegment.endSeconds : nextSegment?.startSeconds ?? null;
   const remainingSeconds = countdownTarget != null ? Math.max(0, countdownTarget - nowSeconds) : 0;
   const progressValue =
@@ -338,6 +473,41 @@ const RunningOrderLayout = ({
       ? Math.min(100, ((nowSeconds - currentSegment.startSeconds) / currentSegment.durationSeconds) * 100)
       : 0;
 
+  const nowRef = useRef(now);
+  nowRef.current = now;
+  const showDateKey = format(showDay, SHOW_DATE_FORMAT);
+
+  // Keyed on the show date, so a show running past midnight stays one show in the as-run log.
+  useEffect(() => {
+    if (sourceName) selectAsRunShow(sourceName, showDateKey, nowRef.current);
+  }, [selectAsRunShow, showDateKey, sourceName]);
+
+  useEffect(() => {
+    const previous = lastLoggedSegmentRef.current;
+    lastLoggedSegmentRef.current = currentSegment ?? null;
+    if (previous === undefined || (previous?.id ?? null) === (currentSegment?.id ?? null)) return;
+    const reason = pendingTransitionRef.current ?? undefined;
+    pendingTransitionRef.current = null;
+    if (previous) {
+      logAsRun({ kind: "segment-end", ...asRunSegmentDetails(previous), detail: reason }, now);
+    }
+    if (currentSegment) {
+      logAsRun({ kind: "segment-start", ...asRunSegmentDetails(currentSegment), detail: reason }, now);
+    }
+  }, [currentSegment, logAsRun, now]);
+
+  const playCaspar = async (template: string, data: string, context: Partial<AsRunEvent> = {}) => {
+    if (!casparControls) return;
+    const result = await casparControls.playTemplate(template, data);
+    if (result !== null) logAsRun({ ...context, kind: "caspar-play", detail: template }, now);
+  };
+
+  const stopCaspar = async (context: Partial<AsRunEvent> = {}) => {
+    if (!casparControls) return;
+    const result = await casparControls.stopTemplate();
+    if (result !== null) logAsRun({ ...context, kind: "caspar-stop" }, now);
+  };
+
   useEffect(() => {
     if (!casparControls?.available || !casparAutoPlayEnabled) {
       previousAutoSegmentId.current = currentSegment?.id ?? null;
@@ -348,26 +518,68 @@ const RunningOrderLayout = ({
     previousAutoSegmentId.current = segmentId;
     const template = currentSegment?.casparTemplate?.trim() ?? "";
     if (!template) return;
-    void casparControls.playTemplate(template, currentSegment?.casparData ?? "");
+    void (async () => {
+      const result = await casparControls.playTemplate(template, currentSegment?.casparData ?? "");
+      if (result !== null) {
+        logAsRun(
+          { ...asRunSegmentDetails(currentSegment), kind: "caspar-play", detail: `${template} (auto-play)` },
+          nowRef.current,
+        );
+      }
+    })();
   }, [
     casparAutoPlayEnabled,
     casparControls,
-    currentSegment?.id,
-    currentSegment?.casparData,
-    currentSegment?.casparTemplate,
+    currentSegment,
+    logAsRun,
   ]);
 
-  const handleToggleSkip = (segmentId: string) => {
+  const toggleSkip = (segmentId: string) => {
     setSkippedIds((prev) =>
       prev.includes(segmentId) ? prev.filter((id) => id !== segmentId) : [...prev, segmentId],
     );
   };
 
+  const handleToggleSkip = (segmentId: string) => {
+    const segment = effectiveSegments.find((item) => item.id === segmentId);
+    if (segment) {
+      logAsRun({ kind: segment.isSkipped ? "segment-unskip" : "segment-skip", ...asRunSegmentDetails(segment) }, now);
+      if (!segment.isSkipped && segment.id === currentSegment?.id) pendingTransitionRef.current = "skipped";
+    }
+    toggleSkip(segmentId);
+  };
+
+  const handleDropSuggested = () => {
+    if (!backTiming || backTiming.suggestedDrops.length === 0) return;
+    displaySegments
+      .filter((segment) => backTiming.suggestedDrops.includes(segment.id))
+      .forEach((segment) => {
+        logAsRun({ kind: "segment-skip", ...asRunSegmentDetails(segment), detail: "Dropped to recover time" }, now);
+      });
+    setSkippedIds((prev) => Array.from(new Set([...prev, ...backTiming.suggestedDrops])));
+  };
+
+  const handleTake = (segmentId: string, reason: string) => {
+    pendingTransitionRef.current = reason;
+    setTakes((prev) => [...prev, { segmentId, takenAt: now.getTime() }]);
+  };
+
   const handleJumpToSegment = (segmentId: string) => {
+    if (timingMode === "manual") {
+      const target = displaySegments.find((segment) => segment.id === segmentId);
+      if (target) logAsRun({ kind: "segment-jump", ...asRunSegmentDetails(target), detail: "Take here" }, now);
+      handleTake(segmentId, "take");
+      return;
+    }
     const targetIndex = segments.findIndex((segment) => segment.id === segmentId);
     if (targetIndex < 0) return;
 
     const toSkip = segments.slice(0, targetIndex).map((segment) => segment.id);
+    const target = effectiveSegments.find((segment) => segment.id === segmentId);
+    if (target) {
+      logAsRun({ kind: "segment-jump", ...asRunSegmentDetails(target), detail: "Jump to here" }, now);
+      pendingTransitionRef.current = "jump";
+    }
     setSkippedIds((prev) => {
       const next = new Set(prev);
       toSkip.forEach((id) => next.add(id));
@@ -376,18 +588,21 @@ const RunningOrderLayout = ({
   };
 
   const handleJumpToNext = () => {
-    if (currentSegment) {
-      handleToggleSkip(currentSegment.id);
+    if (timingMode === "manual") {
+      if (nextSegment) handleTake(nextSegment.id, "take");
+      else if (currentSegment) handleTake(SHOW_END_TAKE_ID, "end");
       return;
     }
-    if (nextSegment) {
-      handleToggleSkip(nextSegment.id);
-    }
+    const target = currentSegment ?? nextSegment;
+    if (!target) return;
+    logAsRun({ kind: "segment-jump", ...asRunSegmentDetails(target), detail: "Next segment" }, now);
+    pendingTransitionRef.current = "next";
+    toggleSkip(target.id);
   };
 
   const handleSetShowStartNow = () => {
     setShowStartEnabled(true);
-    setShowStartSeconds(nowSeconds);
+    setShowStartSeconds(now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds());
   };
 
   const handleShowStartChange = (value: string) => {
@@ -397,6 +612,10 @@ const RunningOrderLayout = ({
     setShowStartSeconds(h * 3600 + m * 60 + s);
   };
 
+  const handleHardOutChange = (value: string) => {
+    setHardOutSeconds(value ? parseTimeCellToSeconds(value) : null);
+  };
+
   const showStartValue =
     showStartSeconds != null ? formatClockTime(showStartSeconds) : formatClockTime(baseStartSeconds);
 
@@ -416,19 +635,54 @@ const RunningOrderLayout = ({
           camera: "",
           casparTemplate: "",
           casparData: "",
+          notes: "",
+          droppable: false,
+          hardStart: false,
           rowIndex: nextIndex,
         },
       ];
     });
   };
 
+  const handleExport = async (kind: "xlsx" | "pdf") => {
+    const data = getRunningOrderExport(
+      { sourceName, segments, skippedIds, showStartEnabled, showStartSeconds },
+      showDay,
+    );
+    const baseName = getExportBaseName(data);
+    try {
+      const savedPath =
+        kind === "pdf"
+          ? await saveOutputFile(buildRunningOrderPdf(data, now), `pdf/${baseName}.pdf`, "application/pdf")
+          : await saveOutputFile(
+              new Uint8Array(XLSX.write(buildRunningOrderWorkbook(data), { type: "array", bookType: "xlsx" })),
+              `xlsx/${baseName}.xlsx`,
+              "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+            );
+      if (savedPath) toast.success(`Saved ${savedPath}`);
+    } catch (error) {
+      toast.error(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
   const handleClearRunningOrder = () => {
     setSourceName(null);
     setSegments([]);
     setSkippedIds([]);
+    setTakes([]);
+    setHardOutSeconds(null);
+    setShowDate(null);
+    setImportReport(null);
+    if (segments.length > 0) showUndoToast("Running order cleared");
+  };
+
+  const handleOpenProject = (project: RunningOrderProject) => {
+    applyState(project.state, true);
+    setImportReport(null);
   };
 
   const handleSegmentFieldChange = (segmentId: string, updater: (segment: RunningOrderSegment) => RunningOrderSegment) => {
+    mergeableChangeRef.current = true;
     setSegments((prev) => prev.map((segment) => (segment.id === segmentId ? updater(segment) : segment)));
   };
 
@@ -459,9 +713,11 @@ const RunningOrderLayout = ({
 
   const removeShotboxItem = (itemId: string) => {
     setShotboxItems((prev) => prev.filter((item) => item.id !== itemId));
+    showUndoToast("Shot removed");
   };
 
   const updateShotboxItem = (itemId: string, updater: (item: ShotboxItem) => ShotboxItem) => {
+    mergeableChangeRef.current = true;
     setShotboxItems((prev) => prev.map((item) => (item.id === itemId ? updater(item) : item)));
   };
 
@@ -480,7 +736,7 @@ const RunningOrderLayout = ({
               <label className="inline-flex items-center gap-2 text-sm text-muted-foreground">
                 <input
                   type="file"
-                  accept=".xlsx,.xls"
+                  accept={RUNNING_ORDER_FILE_ACCEPT}
                   className="hidden"
                   onChange={(event) => {
                     const file = event.target.files?.[0];
@@ -495,19 +751,50 @@ const RunningOrderLayout = ({
                       : "bg-emerald-500 text-emerald-50 hover:bg-emerald-600"
                   }`}
                 >
-                  {sourceName ? "Excel loaded" : "Load Excel"}
+                  {sourceName ? "Running order loaded" : "Load running order"}
                 </span>
               </label>
+              <RunningOrderProjectMenu state={runningOrderState} onOpen={handleOpenProject} />
               <Button variant="outline" size="sm" onClick={handleAddSegment}>
                 <Plus className="mr-2 h-4 w-4" />
                 Add segment
               </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleUndo}
+                disabled={history.past.length === 0}
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleRedo}
+                disabled={history.future.length === 0}
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
               <Button variant="outline" size="sm" onClick={handleClearRunningOrder}>
-                Clear Excel
+                Clear running order
               </Button>
               <Button variant="outline" size="sm" onClick={() => setSkippedIds([])}>
                 Clear skips
               </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport("xlsx")} disabled={segments.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Export XLSX
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport("pdf")} disabled={segments.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Export PDF
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setAsRunOpen(true)}>
+                <ScrollText className="mr-2 h-4 w-4" />
+                As-run log
+              </Button>
             </div>
           </div>
           <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
@@ -530,6 +817,30 @@ const RunningOrderLayout = ({
             <Button variant="outline" size="sm" onClick={handleSetShowStartNow}>
               Set show start to now
             </Button>
+            <label className="inline-flex items-center gap-2" title="Times after midnight belong to the next day">
+              Show date
+              <input
+                type="date"
+                value={showDate ?? format(now, SHOW_DATE_FORMAT)}
+                onChange={(event) => setShowDate(event.target.value || null)}
+                className="rounded-md border border-border/60 bg-transparent px-2 py-1 text-sm"
+              />
+            </label>
+            <label className="inline-flex items-center gap-2" title="Back-time the show to this off-air time">
+              Hard out
+              <input
+                type="time"
+                step={1}
+                value={hardOutSeconds != null ? formatClockTime(hardOutSeconds) : ""}
+                onChange={(event) => handleHardOutChange(event.target.value)}
+                className="rounded-md border border-border/60 bg-transparent px-2 py-1 text-sm"
+              />
+            </label>
+            {hardOutSeconds != null && (
+              <Button variant="ghost" size="sm" onClick={() => setHardOutSeconds(null)}>
+                Clear hard out
+              </Button>
+            )}
             <div className="ml-auto flex flex-wrap items-center gap-4">
               {casparControls && (
                 <div className="flex items-center gap-2">
@@ -541,6 +852,16 @@ const RunningOrderLayout = ({
                   <span>Auto-play Caspar</span>
                 </div>
               )}
+              <div
+                className="flex items-center gap-2"
+                title="Segments start when taken instead of at their planned time"
+              >
+                <Switch
+                  checked={timingMode === "manual"}
+                  onCheckedChange={(checked) => setTimingMode(checked ? "manual" : "time-of-day")}
+                />
+                <span>Manual take</span>
+              </div>
               <div className="flex items-center gap-2">
                 <Switch checked={editEnabled} onCheckedChange={setEditEnabled} />
                 <span>Edit segments</span>
@@ -553,6 +874,35 @@ const RunningOrderLayout = ({
           </div>
         </div>
 
+        {importReport && (
+          <div className="rounded-xl border border-amber-500/40 bg-amber-500/10 p-4 text-sm shadow-sm">
+            <div className="flex items-start justify-between gap-4">
+              <div className="font-medium text-amber-200">
+                {importReport.failure
+                  ? `Could not import ${importReport.fileName}: ${importReport.failure}`
+                  : `${importReport.errors.length} row${importReport.errors.length === 1 ? "" : "s"} in ${
+                      importReport.fileName
+                    } could not be imported`}
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setImportReport(null)}>
+                Dismiss
+              </Button>
+            </div>
+            {importReport.errors.length > 0 && (
+              <ul className="mt-2 max-h-32 space-y-1 overflow-auto text-xs text-amber-100/80">
+                {importReport.errors.map((error) => (
+                  <li key={error.rowNumber}>
+                    Row {error.rowNumber}: {error.message}
+                    {error.values.some(Boolean) && (
+                      <span className="text-muted-foreground"> ({error.values.filter(Boolean).join(" · ")})</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         <div className="flex-1 overflow-hidden rounded-xl border border-border/60 bg-card/70 shadow-sm">
           <div className="flex h-full flex-col">
             <div className="border-b border-border/50 px-4 py-2 text-xs uppercase tracking-[0.3em] text-muted-foreground">
@@ -560,15 +910,18 @@ const RunningOrderLayout = ({
             </div>
             <div className="flex-1 overflow-auto p-4">
               <div className="space-y-3">
-                {effectiveSegments.length === 0 && (
+                {displaySegments.length === 0 && (
                   <div className="rounded-lg border border-dashed border-border/60 p-6 text-sm text-muted-foreground">
-                    Load an Excel file to see the running order.
+                    Load a spreadsheet (XLSX, XLS, ODS), CSV or JSON file to see the running order.
                   </div>
                 )}
-                {effectiveSegments.map((segment) => {
+                {displaySegments.map((segment) => {
                   const isCurrent = currentSegment?.id === segment.id;
-                  const startValue = formatClockTime(segment.startSeconds ?? 0);
-                  const durationValue = formatDuration(segment.durationSeconds);
+                  const timed = "status" in segment ? segment : null;
+                  const backTime = backTiming?.backTimes[segment.id];
+                  const isSuggestedDrop = backTiming?.suggestedDrops.includes(segment.id) ?? false;
+                  const startValue = formatShowClock(segment.startSeconds ?? 0);
+                  const durationValue = formatSegmentDuration(segment.durationSeconds);
                   return (
                     <ContextMenu key={segment.id}>
                       <ContextMenuTrigger asChild>
@@ -593,7 +946,9 @@ const RunningOrderLayout = ({
                           className={`rounded-lg border px-4 py-3 transition ${
                             isCurrent
                               ? "border-primary/60 bg-primary/10"
-                              : "border-border/60 bg-background/80 hover:bg-accent/40"
+                              : isSuggestedDrop
+                                ? "border-amber-500/60 bg-amber-500/10"
+                                : "border-border/60 bg-background/80 hover:bg-accent/40"
                           } ${segment.isSkipped ? "opacity-50" : ""} ${
                             draggingId && draggingId !== segment.id ? "border-dashed" : ""
                           }`}
@@ -669,7 +1024,7 @@ const RunningOrderLayout = ({
                                     <input
                                       value={durationValue}
                                       onChange={(event) => {
-                                        const parsed = parseDurationCellToSeconds(event.target.value);
+                                        const parsed = parseDurationCellToSeconds(event.target.value, frameRate);
                                         handleSegmentFieldChange(segment.id, (prev) => ({
                                           ...prev,
                                           durationSeconds: parsed,
@@ -679,6 +1034,45 @@ const RunningOrderLayout = ({
                                     />
                                   </label>
                                 </div>
+                                <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                                  Notes
+                                  <input
+                                    value={segment.notes}
+                                    onChange={(event) =>
+                                      handleSegmentFieldChange(segment.id, (prev) => ({
+                                        ...prev,
+                                        notes: event.target.value,
+                                      }))
+                                    }
+                                    className="rounded-md border border-border/60 bg-transparent px-2 py-1 text-sm normal-case tracking-normal text-foreground"
+                                  />
+                                </label>
+                                <label className="inline-flex items-center gap-2 text-sm text-muted-foreground">
+                                  <input
+                                    type="checkbox"
+                                    checked={segment.droppable}
+                                    onChange={(event) =>
+                                      handleSegmentFieldChange(segment.id, (prev) => ({
+                                        ...prev,
+                                        droppable: event.target.checked,
+                                      }))
+                                    }
+                                  />
+                                  Droppable if the show runs over
+                                </label>
+                                <label className="ml-4 inline-flex items-center gap-2 text-sm text-muted-foreground">
+                                  <input
+                                    type="checkbox"
+                                    checked={segment.hardStart}
+                                    onChange={(event) =>
+                                      handleSegmentFieldChange(segment.id, (prev) => ({
+                                        ...prev,
+                                        hardStart: event.target.checked,
+                                      }))
+                                    }
+                                  />
+                                  Hard start at the start time
+                                </label>
                                 {casparControls && (
                                   <div className="grid gap-3 sm:grid-cols-2">
                                     <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-muted-foreground">
@@ -724,6 +1118,18 @@ const RunningOrderLayout = ({
                                       Camera {segment.camera}
                                     </div>
                                   )}
+                                  {segment.droppable && (
+                                    <div
+                                      className={`text-xs uppercase tracking-[0.2em] ${
+                                        isSuggestedDrop ? "text-amber-300" : "text-muted-foreground"
+                                      }`}
+                                    >
+                                      {isSuggestedDrop ? "Drop to get back on time" : "Droppable"}
+                                    </div>
+                                  )}
+                                  {segment.notes && (
+                                    <div className="mt-1 text-sm text-muted-foreground">{segment.notes}</div>
+                                  )}
                                   {segment.casparTemplate && (
                                     <div className="mt-1 text-xs uppercase tracking-[0.2em] text-muted-foreground">
                                       Caspar: {segment.casparTemplate}
@@ -731,9 +1137,57 @@ const RunningOrderLayout = ({
                                   )}
                                 </div>
                                 <div className="text-right text-sm">
-                                  <div className="text-muted-foreground">Start</div>
-                                  <div className="font-medium text-foreground">{startValue}</div>
+                                  <div className="text-muted-foreground">
+                                    {segment.hardStart ? "Hard start" : "Start"}
+                                  </div>
+                                  <div className="font-medium text-foreground">
+                                    {startValue}
+                                    {getShowDayOffset(showDay, segment.startSeconds) > 0 && (
+                                      <span className="ml-1 text-xs text-muted-foreground">
+                                        +{getShowDayOffset(showDay, segment.startSeconds)}d
+                                      </span>
+                                    )}
+                                  </div>
+                                  {segment.gapBeforeSeconds != null && segment.gapBeforeSeconds !== 0 && (
+                                    <div
+                                      className={`text-xs tabular-nums ${
+                                        segment.gapBeforeSeconds < 0 ? "text-red-400" : "text-amber-300"
+                                      }`}
+                                    >
+                                      {segment.gapBeforeSeconds < 0 ? "Overlap" : "Gap"}{" "}
+                                      {formatDuration(Math.abs(segment.gapBeforeSeconds))}
+                                    </div>
+                                  )}
+                                  {timed?.status === "upcoming" && timed.startSeconds !== timed.plannedStartSeconds && (
+                                    <div className="text-xs text-muted-foreground">
+                                      Planned {formatShowClock(timed.plannedStartSeconds)}
+                                    </div>
+                                  )}
+                                  {timed?.status === "missed" && (
+                                    <div className="text-xs text-muted-foreground">Not taken</div>
+                                  )}
+                                  {backTime != null && (
+                                    <div
+                                      className={`text-xs tabular-nums ${
+                                        segment.startSeconds > backTime ? "text-red-400" : "text-muted-foreground"
+                                      }`}
+                                    >
+                                      Back-time {formatShowClock(backTime)}
+                                    </div>
+                                  )}
                                 </div>
+                                {timed?.overUnderSeconds != null && (
+                                  <div className="text-right text-sm">
+                                    <div className="text-muted-foreground">Over/under</div>
+                                    <div
+                                      className={`font-medium tabular-nums ${
+                                        timed.overUnderSeconds > 0 ? "text-red-400" : "text-emerald-400"
+                                      }`}
+                                    >
+                                      {formatOverUnder(timed.overUnderSeconds)}
+                                    </div>
+                                  </div>
+                                )}
                                 <div className="text-right text-sm">
                                   <div className="text-muted-foreground">Duration</div>
                                   <div className="font-medium text-foreground">{durationValue}</div>
@@ -743,9 +1197,10 @@ const RunningOrderLayout = ({
                                     <Button
                                       size="sm"
                                       onClick={() =>
-                                        casparControls.playTemplate(
+                                        playCaspar(
                                           segment.casparTemplate,
                                           segment.casparData ?? "",
+                                          asRunSegmentDetails(segment),
                                         )
                                       }
                                       disabled={!casparControls.available || !segment.casparTemplate.trim()}
@@ -763,7 +1218,7 @@ const RunningOrderLayout = ({
                                     <Button
                                       size="sm"
                                       variant="destructive"
-                                      onClick={() => casparControls.stopTemplate()}
+                                      onClick={() => stopCaspar(asRunSegmentDetails(segment))}
                                       disabled={!casparControls.available}
                                     >
                                       Stop
@@ -786,12 +1241,26 @@ const RunningOrderLayout = ({
                         >
                           {segment.isSkipped ? "Unskip segment" : "Skip segment"}
                         </ContextMenuItem>
+                        <ContextMenuItem
+                          onSelect={() => {
+                            handleSegmentFieldChange(segment.id, (prev) => ({ ...prev, droppable: !prev.droppable }));
+                          }}
+                        >
+                          {segment.droppable ? "Not droppable" : "Mark droppable"}
+                        </ContextMenuItem>
+                        <ContextMenuItem
+                          onSelect={() => {
+                            handleSegmentFieldChange(segment.id, (prev) => ({ ...prev, hardStart: !prev.hardStart }));
+                          }}
+                        >
+                          {segment.hardStart ? "Make floating" : "Make hard start"}
+                        </ContextMenuItem>
                         <ContextMenuItem
                           onSelect={() => {
                             handleJumpToSegment(segment.id);
                           }}
                         >
-                          Jump to here
+                          {timingMode === "manual" ? "Take here" : "Jump to here"}
                         </ContextMenuItem>
                       </ContextMenuContent>
                     </ContextMenu>
@@ -832,9 +1301,46 @@ const RunningOrderLayout = ({
           <div className="mt-3">
             <Progress value={showProgressValue} indicatorClassName="bg-sky-500" />
             <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
-              <span>{showStart != null ? `Start ${formatClockTime(showStart)}` : "No start"}</span>
-              <span>{showEnd != null ? `End ${formatClockTime(showEnd)}` : "No end"}</span>
+              <span>{showStart != null ? `Start ${formatShowClock(showStart)}` : "No start"}</span>
+              <span>{showEnd != null ? `End ${formatShowClock(showEnd)}` : "No end"}</span>
             </div>
+            {backTiming && (
+              <div className="mt-2 space-y-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">
+                    {hardOutSeconds != null ? "Hard out" : "Planned end"} {formatShowClock(backTiming.targetEndSeconds)}
+                  </span>
+                  <span
+                    className={`font-semibold tabular-nums ${
+                      backTiming.overUnderSeconds > 0 ? "text-red-400" : "text-emerald-400"
+                    }`}
+                  >
+                    {formatOverUnder(backTiming.overUnderSeconds)}
+                  </span>
+                </div>
+                {backTiming.overUnderSeconds > 0 && (
+                  <div className="rounded-md border border-amber-500/40 bg-amber-500/10 p-2 text-xs text-amber-100">
+                    {backTiming.suggestedDrops.length > 0 ? (
+                      <div className="flex items-center justify-between gap-2">
+                        <span>
+                          Drop{" "}
+                          {displaySegments
+                            .filter((segment) => backTiming.suggestedDrops.includes(segment.id))
+                            .map((segment) => segment.type || `segment ${segment.segmentNumber}`)
+                            .join(", ")}
+                          {backTiming.recoverable ? " to get back on time" : " to recover part of the overrun"}
+                        </span>
+                        <Button size="sm" variant="outline" onClick={handleDropSuggested}>
+                          Drop
+                        </Button>
+                      </div>
+                    ) : (
+                      "No droppable segments left to recover the overrun"
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
@@ -845,9 +1351,9 @@ const RunningOrderLayout = ({
           </div>
           <div className="mt-2 text-sm text-muted-foreground">
             {currentSegment
-              ? `Ends at ${formatClockTime(currentSegment.endSeconds)}`
+              ? `Ends at ${formatShowClock(currentSegment.endSeconds)}`
               : nextSegment
-                ? `Next at ${formatClockTime(nextSegment.startSeconds)}`
+                ? `Next at ${formatShowClock(nextSegment.startSeconds)}`
                 : "No upcoming segments"}
           </div>
           <div className="mt-4">
@@ -874,10 +1380,40 @@ const RunningOrderLayout = ({
           <div className="mt-2 text-sm text-muted-foreground">
             {showEnd != null ? `Show time left: ${formatDuration(showRemainingSeconds)}` : "Show time left: --:--"}
           </div>
+          {nextHardStart && (
+            <div className="mt-3 rounded-md border border-border/60 bg-background/60 p-2 text-sm text-muted-foreground">
+              <div>
+                Next hard post: {nextHardStart.type || "Untitled segment"} at{" "}
+                {formatShowClock(nextHardStart.startSeconds)}
+              </div>
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-xl font-semibold tabular-nums text-foreground">
+                  {formatDuration(nextHardStart.startSeconds - nowSeconds)}
+                </span>
+                {nextHardStart.gapBeforeSeconds != null && nextHardStart.gapBeforeSeconds !== 0 && (
+                  <span className={nextHardStart.gapBeforeSeconds < 0 ? "text-red-400" : "text-amber-300"}>
+                    {nextHardStart.gapBeforeSeconds < 0 ? "Overlap" : "Gap"}{" "}
+                    {formatDuration(Math.abs(nextHardStart.gapBeforeSeconds))}
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
           <div className="mt-4">
-            <Button variant="outline" size="sm" onClick={handleJumpToNext} disabled={!currentSegment && !nextSegment}>
-              Next segment
-            </Button>
+            {timingMode === "manual" ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <Button size="sm" onClick={handleJumpToNext} disabled={!currentSegment && !nextSegment}>
+                  {!currentSegment ? "Take first" : nextSegment ? "Take next" : "End show"}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setTakes([])} disabled={takes.length === 0}>
+                  Reset takes
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" onClick={handleJumpToNext} disabled={!currentSegment && !nextSegment}>
+                Next segment
+              </Button>
+            )}
           </div>
         </div>
 
@@ -963,7 +1499,7 @@ const RunningOrderLayout = ({
                         <div className="flex items-center gap-2">
                           <Button
                             size="sm"
-                            onClick={() => casparControls.playTemplate(item.template, item.data)}
+                            onClick={() => playCaspar(item.template, item.data, { title: item.label })}
                             disabled={!casparControls.available || !item.template.trim()}
                           >
                             Play
@@ -971,7 +1507,7 @@ const RunningOrderLayout = ({
                           <Button
                             size="sm"
                             variant="destructive"
-                            onClick={() => casparControls.stopTemplate()}
+                            onClick={() => stopCaspar({ title: item.label })}
                             disabled={!casparControls.available}
                           >
                             Stop
@@ -994,6 +1530,18 @@ const RunningOrderLayout = ({
           </div>
         )}
       </div>
+      <AsRunLogDialog open={asRunOpen} onOpenChange={setAsRunOpen} showName={sourceName} />
+      <RunningOrderImportDialog
+        open={pendingImport != null}
+        onOpenChange={(open) => {
+          if (!open) setPendingImport(null);
+        }}
+        fileName={pendingImport?.fileName ?? null}
+        workbook={pendingImport?.workbook ?? null}
+        initialMapping={pendingImport?.mapping ?? null}
+        frameRate={frameRate}
+        onImport={handleImport}
+      />
     </div>
   );
 };
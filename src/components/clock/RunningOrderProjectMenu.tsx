@@ -0,0 +1,159 @@
+import { useRef, useState } from "react";
+import { FolderOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/components/ui/sonner";
+import { useRecentProjects } from "@/hooks/useRecentProjects";
+import { downloadTextFile, fileSafeName } from "@/lib/download";
+import {
+  hasNativeProjectFiles,
+  pickProjectSavePath,
+  pickProjectToOpen,
+  readProjectFile,
+  writeProjectFile,
+} from "@/lib/projectFiles";
+import type { RunningOrderState } from "@/lib/runningOrder";
+import {
+  PROJECT_FILE_EXTENSION,
+  parseProject,
+  projectNameFromPath,
+  serializeProject,
+  type RunningOrderProject,
+} from "@/lib/runningOrderProject";
+
+type RunningOrderProjectMenuProps = {
+  state: RunningOrderState;
+  onOpen: (project: RunningOrderProject) => void;
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Save and open `.studioklocka` project files. The desktop app works on file paths with native
+ * dialogs and a recent-files list; the web build downloads and uploads instead.
+ */
+const RunningOrderProjectMenu = ({ state, onOpen }: RunningOrderProjectMenuProps) => {
+  const native = hasNativeProjectFiles();
+  const [projectPath, setProjectPath] = useState<string | null>(null);
+  const { recentProjects, rememberProject, forgetProject } = useRecentProjects();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const projectName = projectPath
+    ? projectNameFromPath(projectPath)
+    : state.sourceName?.replace(/\.[^.]+$/, "").trim() || "Running order";
+
+  const openText = (text: string, path: string | null) => {
+    const project = parseProject(text);
+    onOpen(project);
+    setProjectPath(path);
+    if (path) rememberProject(path, project.name);
+    toast.success(`Opened ${project.name}`);
+  };
+
+  const openPath = async (path: string) => {
+    let text: string;
+    try {
+      text = await readProjectFile(path);
+    } catch (error) {
+      // Moved or deleted files drop out of the recent list.
+      forgetProject(path);
+      toast.error(`Could not open ${projectNameFromPath(path)}: ${errorMessage(error)}`);
+      return;
+    }
+    try {
+      openText(text, path);
+    } catch (error) {
+      toast.error(`Could not open ${projectNameFromPath(path)}: ${errorMessage(error)}`);
+    }
+  };
+
+  const handleOpen = async () => {
+    if (!native) {
+      fileInputRef.current?.click();
+      return;
+    }
+    let path: string | null;
+    try {
+      path = await pickProjectToOpen();
+    } catch (error) {
+      toast.error(`Open failed: ${errorMessage(error)}`);
+      return;
+    }
+    if (path) await openPath(path);
+  };
+
+  const handleSave = async (saveAs: boolean) => {
+    const contents = serializeProject(state, projectName, new Date());
+    if (!native) {
+      const fileName = `${fileSafeName(projectName, "running-order")}.${PROJECT_FILE_EXTENSION}`;
+      downloadTextFile(contents, fileName, "application/json");
+      return;
+    }
+    try {
+      const path = !saveAs && projectPath ? projectPath : await pickProjectSavePath(fileSafeName(projectName));
+      if (!path) return;
+      const savedPath = await writeProjectFile(path, contents);
+      setProjectPath(path);
+      rememberProject(path, projectNameFromPath(path));
+      toast.success(`Saved ${savedPath}`);
+    } catch (error) {
+      toast.error(`Save failed: ${errorMessage(error)}`);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" title={projectPath ?? undefined}>
+            <FolderOpen className="mr-2 h-4 w-4" />
+            Project
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuItem onSelect={() => void handleOpen()}>Open project…</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => void handleSave(false)}>
+            {native ? "Save project" : "Download project"}
+          </DropdownMenuItem>
+          {native && <DropdownMenuItem onSelect={() => void handleSave(true)}>Save project as…</DropdownMenuItem>}
+          {native && recentProjects.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Recent projects</DropdownMenuLabel>
+              {recentProjects.map((project) => (
+                <DropdownMenuItem key={project.path} onSelect={() => void openPath(project.path)} title={project.path}>
+                  <span className="truncate">{project.name}</span>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`.${PROJECT_FILE_EXTENSION},application/json`}
+        className="hidden"
+        onChange={async (event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (!file) return;
+          try {
+            openText(await file.text(), null);
+          } catch (error) {
+            toast.error(`Could not open ${file.name}: ${errorMessage(error)}`);
+          }
+        }}
+      />
+    </>
+  );
+};
+
+export default RunningOrderProjectMenu;
@@ -0,0 +1,137 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/sonner";
+import type { useSettingsProfiles } from "@/hooks/useSettingsProfiles";
+import { fileSafeName, saveOutputFile } from "@/lib/download";
+import { PROFILE_URL_PARAM } from "@/lib/settingsProfiles";
+
+type SettingsProfilesPanelProps = ReturnType<typeof useSettingsProfiles>;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/** Save, switch, export and import named settings profiles. */
+const SettingsProfilesPanel = ({
+  profiles,
+  activeProfileName,
+  saveProfile,
+  switchProfile,
+  deleteProfile,
+  exportProfile,
+  importProfile,
+}: SettingsProfilesPanelProps) => {
+  const [newName, setNewName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleExport = async (name: string) => {
+    const exported = exportProfile(name);
+    if (!exported) return;
+    try {
+      const path = await saveOutputFile(
+        new TextEncoder().encode(exported.contents),
+        `profiles/${fileSafeName(exported.name, "profile")}.json`,
+        "application/json",
+      );
+      if (path) toast.success(`Exported ${path}`);
+    } catch (error) {
+      toast.error(`Export failed: ${errorMessage(error)}`);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { profile, issues } = importProfile(await file.text());
+      if (issues.length > 0) {
+        toast.warning(`Imported ${profile.name} with ${issues.length} invalid setting(s)`, {
+          description: issues.map((issue) => `${issue.label}: ${issue.message}`).join("\n"),
+        });
+      } else {
+        toast.success(`Imported ${profile.name}`);
+      }
+    } catch (error) {
+      toast.error(`Could not import ${file.name}: ${errorMessage(error)}`);
+    }
+  };
+
+  return (
+    <div className="mt-8 border-t border-border/60 pt-6">
+      <div className="text-lg font-semibold text-foreground">Profiles</div>
+      <div className="mt-1 text-sm text-muted-foreground">
+        A profile holds every setting on this page, from the clock source and watchface to the X32, CasparCG and
+        TriCaster connections. Changes are kept in the active profile when you switch or export.
+      </div>
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="flex flex-1 flex-col gap-1 text-sm text-muted-foreground">
+          Profile name
+          <input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+            placeholder="Studio 2"
+          />
+        </label>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={!newName.trim()}
+          onClick={() => {
+            saveProfile(newName);
+            toast.success(`Saved the current settings as ${newName.trim()}`);
+            setNewName("");
+          }}
+        >
+          Save current settings
+        </Button>
+        <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          Import…
+        </Button>
+      </div>
+      {profiles.length > 0 && (
+        <div className="mt-4 flex flex-col gap-2">
+          {profiles.map((profile) => {
+            const active = profile.name === activeProfileName;
+            return (
+              <div key={profile.name} className="flex flex-wrap items-center gap-2 rounded-md border border-border/60 px-3 py-2">
+                <span className="flex-1 truncate text-sm text-foreground">
+                  {profile.name}
+                  {active && <span className="ml-2 text-xs text-muted-foreground">Active</span>}
+                </span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={active}
+                  onClick={() => switchProfile(profile.name)}
+                >
+                  Switch
+                </Button>
+                <Button type="button" size="sm" variant="outline" onClick={() => void handleExport(profile.name)}>
+                  Export
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={() => deleteProfile(profile.name)}>
+                  Delete
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <div className="mt-2 text-xs text-muted-foreground">
+        Pick a profile at launch with <code>?{PROFILE_URL_PARAM}=Studio 2</code> in the URL, or{" "}
+        <code>--profile "Studio 2"</code> when starting the desktop app.
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) void handleImport(file);
+        }}
+      />
+    </div>
+  );
+};
+
+export default SettingsProfilesPanel;
@@ -1,75 +1,74 @@
-import { useState, useRef, useCallback } from "react";
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
-import { Play, Pause, RotateCcw } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { Play, Pause, RotateCcw, Flag, Download } from "lucide-react";
+import { useStopwatch } from "@/hooks/useStopwatch";
+import { formatStopwatch, getElapsedMs, lapsToCsvRows } from "@/lib/stopwatch";
+import { toCsv } from "@/lib/csv";
+import { encodeCsv, saveOutputFile } from "@/lib/download";
+import { cn } from "@/lib/utils";
 
-const Stopwatch = () => {
-  const [time, setTime] = useState(0);
-  const [isRunning, setIsRunning] = useState(false);
-  const intervalRef = useRef<number | null>(null);
-  const startTimeRef = useRef<number>(0);
+interface StopwatchProps {
+  compact?: boolean;
+}
 
-  const formatTime = (ms: number) => {
-    const hours = Math.floor(ms / 3600000);
-    const minutes = Math.floor((ms % 3600000) / 60000);
-    const seconds = Math.floor((ms % 60000) / 1000);
+const Stopwatch = ({ compact = false }: StopwatchProps) => {
+  const { state, isRunning, start, stop, lap, reset } = useStopwatch();
+  const [elapsedMs, setElapsedMs] = useState(() => getElapsedMs(state, Date.now()));
 
-    return `${hours.toString().padStart(2, "0")}:${minutes
-      .toString()
-      .padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
-  };
-
-  const start = useCallback(() => {
-    if (!isRunning) {
-      startTimeRef.current = Date.now() - time;
-      intervalRef.current = window.setInterval(() => {
-        setTime(Date.now() - startTimeRef.current);
-      }, 10);
-      setIsRunning(true);
-    }
-  }, [isRunning, time]);
+  // Redraw once per animation frame but only re-render when the shown tenth changes.
+  useEffect(() => {
+    setElapsedMs(getElapsedMs(state, Date.now()));
+    if (state.startedAt == null) return;
+    let frameId = 0;
+    let lastTenth = -1;
+    const update = () => {
+      const next = getElapsedMs(state, Date.now());
+      const tenth = Math.floor(next / 100);
+      if (tenth !== lastTenth) {
+        lastTenth = tenth;
+        setElapsedMs(next);
+      }
+      frameId = window.requestAnimationFrame(update);
+    };
+    update();
+    return () => window.cancelAnimationFrame(frameId);
+  }, [state]);
 
-  const stop = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+  const exportLaps = async () => {
+    const csv = toCsv(lapsToCsvRows(state.laps));
+    try {
+      const path = await saveOutputFile(
+        encodeCsv(csv),
+        `csv/stopwatch-laps-${format(new Date(), "yyyy-MM-dd-HHmmss")}.csv`,
+        "text/csv;charset=utf-8",
+      );
+      if (path) toast.success(`Saved ${path}`);
+    } catch (error) {
+      toast.error(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
     }
-    setIsRunning(false);
-  }, []);
-
-  const reset = useCallback(() => {
-    stop();
-    setTime(0);
-  }, [stop]);
+  };
 
-  const toggle = useCallback(() => {
-    if (isRunning) {
-      stop();
-    } else {
-      start();
-    }
-  }, [isRunning, start, stop]);
+  const displayClassName = compact ? "text-xl sm:text-2xl" : "text-2xl sm:text-3xl md:text-4xl";
+  const recentLaps = [...state.laps].reverse();
 
   return (
     <div className="flex flex-col items-center gap-4">
       <div className="relative">
         {/* Dim background for LED effect */}
-        <div 
-          className="led-display led-dim absolute inset-0 text-2xl sm:text-3xl md:text-4xl select-none" 
-          aria-hidden="true"
-        >
-          88:88:88
+        <div className={cn("led-display led-dim absolute inset-0 select-none", displayClassName)} aria-hidden="true">
+          88:88:88.8
         </div>
         {/* Active display */}
-        <div className="led-display text-primary text-2xl sm:text-3xl md:text-4xl relative">
-          {formatTime(time)}
-        </div>
+        <div className={cn("led-display text-primary relative", displayClassName)}>{formatStopwatch(elapsedMs)}</div>
       </div>
 
-      <div className="flex gap-3">
+      <div className="flex flex-wrap justify-center gap-3">
         <Button
-          onClick={toggle}
+          onClick={isRunning ? stop : start}
           variant="outline"
-          size="lg"
+          size={compact ? "sm" : "lg"}
           className="border-primary text-primary hover:bg-primary hover:text-primary-foreground min-w-[100px]"
         >
           {isRunning ? (
@@ -84,16 +83,57 @@ const Stopwatch = () => {
             </>
           )}
         </Button>
+        <Button
+          onClick={lap}
+          variant="outline"
+          size={compact ? "sm" : "lg"}
+          disabled={!isRunning}
+          className="border-muted-foreground text-muted-foreground hover:bg-muted hover:text-foreground"
+        >
+          <Flag className="mr-2 h-4 w-4" />
+          Lap
+        </Button>
         <Button
           onClick={reset}
           variant="outline"
-          size="lg"
+          size={compact ? "sm" : "lg"}
           className="border-muted-foreground text-muted-foreground hover:bg-muted hover:text-foreground"
         >
           <RotateCcw className="mr-2 h-4 w-4" />
           Reset
         </Button>
       </div>
+
+      {state.laps.length > 0 && (
+        <div className="w-full max-w-sm">
+          <div className="max-h-40 overflow-y-auto rounded-md border border-border/60">
+            <table className="w-full text-sm tabular-nums">
+              <thead className="sticky top-0 bg-background text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-1 text-left font-normal">Lap</th>
+                  <th className="px-3 py-1 text-right font-normal">Lap time</th>
+                  <th className="px-3 py-1 text-right font-normal">Split</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recentLaps.map((entry) => (
+                  <tr key={entry.index} className="border-t border-border/40">
+                    <td className="px-3 py-1 text-muted-foreground">{entry.index}</td>
+                    <td className="px-3 py-1 text-right text-foreground">{formatStopwatch(entry.lapMs)}</td>
+                    <td className="px-3 py-1 text-right text-muted-foreground">{formatStopwatch(entry.splitMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-2 flex justify-end">
+            <Button type="button" variant="ghost" size="sm" onClick={exportLaps} className="text-muted-foreground">
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
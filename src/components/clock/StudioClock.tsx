@@ -1,15 +1,38 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { format } from "date-fns";
+import { z } from "zod";
 import { sv } from "date-fns/locale";
 import { useWindowSize } from "@/hooks/useWindowSize";
 import { useClock } from "@/hooks/useClock";
 import { useX32MicLive } from "@/hooks/useX32MicLive";
+import { useX32Discovery } from "@/hooks/useX32Discovery";
 import { useCasparCg } from "@/hooks/useCasparCg";
 import { useTriCasterDdr } from "@/hooks/useTriCasterDdr";
 import { useTriCasterRecording } from "@/hooks/useTriCasterRecording";
-import { Maximize, Minimize, Timer, Calendar, Plus, Minus, Type, Circle, ChevronDown } from "lucide-react";
+import { useTimecodeSettings } from "@/hooks/useTimecodeSettings";
+import { useWorldClocks } from "@/hooks/useWorldClocks";
+import { useWatchface } from "@/hooks/useWatchface";
+import { useCountdownTimers } from "@/hooks/useCountdownTimers";
+import { useAsRunLog } from "@/hooks/useAsRunLog";
+import { useStoredSetting } from "@/hooks/useStoredSetting";
+import { useSettingsProfiles } from "@/hooks/useSettingsProfiles";
+import { useIndicators } from "@/hooks/useIndicators";
+import { useOnAirSegment } from "@/hooks/useOnAirSegment";
+import {
+  getIndicatorStates,
+  micTarget,
+  type IndicatorPlacement,
+  type IndicatorSignals,
+} from "@/lib/indicators";
+import { defineSetting, getSettingIssues, subscribeSettingIssues, type SettingIssue } from "@/lib/settingsStore";
+import { getZoneAbbreviation, isValidTimeZone, listTimeZones } from "@/lib/timeZones";
+import { formatX32Input, formatX32Strip, parseX32Buses } from "@/lib/x32";
+import { FRAME_RATE_IDS, FRAME_RATES, framesToTimecode } from "@/lib/timecode";
+import { formatCountdown, parseClockDuration } from "@/lib/countdown";
+import { Maximize, Minimize, Timer, Calendar, Plus, Minus, Type, Circle, ChevronDown, Globe, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
+import { toast } from "@/components/ui/sonner";
 import {
   DropdownMenu,
   DropdownMenuCheckboxItem,
@@ -19,20 +42,75 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import SecondsRing from "./SecondsRing";
 import DigitalDisplay from "./DigitalDisplay";
+import TimecodeDisplay from "./TimecodeDisplay";
+import WorldClockStrip from "./WorldClockStrip";
+import CountdownTimers from "./CountdownTimers";
 import Stopwatch from "./Stopwatch";
 import RunningOrderLayout from "./RunningOrderLayout";
 import DdrCountdown from "./DdrCountdown";
+import SyncQualityChart from "./SyncQualityChart";
+import SettingsProfilesPanel from "./SettingsProfilesPanel";
+import X32DiscoveryList from "./X32DiscoveryList";
+import X32InputList from "./X32InputList";
+import X32LevelMeters from "./X32LevelMeters";
+import IndicatorPill from "./IndicatorPill";
+import IndicatorRulesPanel from "./IndicatorRulesPanel";
+import WatchfaceSettingsFields from "./watchfaces/WatchfaceSettingsFields";
+import { WATCHFACES, type WatchfaceIndicator } from "./watchfaces";
 import ErrorBoundary from "@/components/ErrorBoundary";
-const LOGO_STORAGE_KEY = "studio_timepiece_logo_v1";
-const LOGO_INVERT_KEY = "studio_timepiece_logo_invert_v1";
-const LAYOUT_STORAGE_KEY = "studio_timepiece_layout_v4";
-const WATCHFACE_STORAGE_KEY = "studio_timepiece_watchface_v1";
-const RED_FACE_CLOCK_OFFSET_DEFAULT = 0;
-const RED_FACE_DDR_OFFSET_DEFAULT = 42;
-const RED_FACE_CENTER_CORRECTION_X = -42;
-const RED_FACE_ADORNMENT_CORRECTION_X = 42;
+
+type LayoutConfig = {
+  zoom: number;
+  offsetX: number;
+  ddrGap: number;
+};
+
+const RUNNING_ORDER_STORAGE_KEY = "studio_timepiece_running_order_v1";
+
+const clamp = (min: number, max: number) => (value: number) => Math.min(max, Math.max(min, value));
+
+const logoSetting = defineSetting<string | null>({
+  key: "studio_timepiece_logo_v1",
+  label: "Logo",
+  version: 1,
+  schema: z.string().startsWith("data:").nullable(),
+  defaults: null,
+});
+
+const logoInvertSetting = defineSetting<boolean>({
+  key: "studio_timepiece_logo_invert_v1",
+  label: "Logo inversion",
+  version: 1,
+  schema: z.boolean(),
+  defaults: false,
+});
+
+const layoutSetting = defineSetting<LayoutConfig>({
+  key: "studio_timepiece_layout_v4",
+  label: "Layout",
+  version: 1,
+  schema: z.object({
+    zoom: z.number().finite().transform(clamp(0.3, 2.5)),
+    offsetX: z.number().finite().transform(clamp(-600, 600)),
+    ddrGap: z.number().finite().transform(clamp(0, 320)),
+  }),
+  defaults: { zoom: 1, offsetX: 0, ddrGap: 56 },
+});
+
+const renderIndicatorGroup = (group: WatchfaceIndicator[], className: string) =>
+  group.length > 0 ? (
+    <div className={className}>
+      {group.map((indicator) => (
+        <IndicatorPill key={indicator.id} indicator={indicator} />
+      ))}
+    </div>
+  ) : null;
+
+const tricasterRecordingLabel = (recording: boolean | null) => {
+  if (recording == null) return "TRICASTER --";
+  return recording ? "TRICASTER REC" : "TRICASTER IDLE";
+};
 
 const checkLogoIsDark = (dataUrl: string): Promise<boolean> =>
   new Promise((resolve) => {
@@ -73,8 +151,28 @@ const checkLogoIsDark = (dataUrl: string): Promise<boolean> =>
   });
 
 const StudioClock = () => {
-  const { now: time, source: clockSource, statusLabel, lastSync, setSource: setClockSource } = useClock();
-  const { config: x32Config, setConfig: setX32Config, state: x32State, liveChannels, isTauri } = useX32MicLive();
+  const {
+    now: time,
+    source: clockSource,
+    statusLabel,
+    lastSync,
+    sync: clockSync,
+    history: clockSyncHistory,
+    appliedOffsetMs: clockAppliedOffsetMs,
+    targetOffsetMs: clockTargetOffsetMs,
+    ntpServers,
+    setSource: setClockSource,
+    setNtpServers,
+  } = useClock();
+  const {
+    config: x32Config,
+    setConfig: setX32Config,
+    state: x32State,
+    liveInputs: liveMicInputs,
+    anyLive: micLive,
+    isTauri,
+  } = useX32MicLive();
+  const x32Discovery = useX32Discovery();
   const {
     config: casparConfig,
     setConfig: setCasparConfig,
@@ -98,22 +196,49 @@ const StudioClock = () => {
     setConfig: setTricasterRecordConfig,
     state: tricasterRecordState,
   } = useTriCasterRecording();
+  const { config: timecodeConfig, setConfig: setTimecodeConfig } = useTimecodeSettings();
+  const {
+    clocks: worldClocks,
+    validClocks: visibleWorldClocks,
+    addClock: addWorldClock,
+    updateClock: updateWorldClock,
+    removeClock: removeWorldClock,
+  } = useWorldClocks();
+  const {
+    face: watchface,
+    settings: watchfaceSettings,
+    setFaceId: setWatchfaceId,
+    setSetting: setWatchfaceSetting,
+    resetSettings: resetWatchfaceSettings,
+  } = useWatchface();
+  const {
+    timers: countdownTimers,
+    addTimer: addCountdownTimer,
+    updateTimer: updateCountdownTimer,
+    removeTimer: removeCountdownTimer,
+    startTimer: startCountdownTimer,
+    resetTimer: resetCountdownTimer,
+  } = useCountdownTimers();
+  const { logEvent: logAsRun } = useAsRunLog();
+  const settingsProfiles = useSettingsProfiles();
+  const userIndicators = useIndicators();
+  const { segment: onAirSegment, segmentTypes } = useOnAirSegment(RUNNING_ORDER_STORAGE_KEY, time);
+  const previousRecordingRef = useRef<boolean | null>(null);
+  const previousMicLiveRef = useRef<boolean | null>(null);
+  const timeZoneOptions = useMemo(() => listTimeZones(), []);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showStopwatch, setShowStopwatch] = useState(false);
+  const [showWorldClocks, setShowWorldClocks] = useState(true);
   const [showDate, setShowDate] = useState(true);
   const [showTitle, setShowTitle] = useState(true);
   const [titleText, setTitleText] = useState("Studioklocka");
-  const [logoDataUrl, setLogoDataUrl] = useState<string | null>(null);
+  const [logoDataUrl, setLogoDataUrl] = useStoredSetting(logoSetting);
   const [showLogo, setShowLogo] = useState(true);
-  const [invertLogo, setInvertLogo] = useState(false);
+  const [invertLogo, setInvertLogo] = useStoredSetting(logoInvertSetting);
   const [logoIsDark, setLogoIsDark] = useState(false);
   const [showSecondsRing, setShowSecondsRing] = useState(true);
-  const [zoom, setZoom] = useState(1);
-  const [layoutOffsetX, setLayoutOffsetX] = useState(0);
-  const [ddrGap, setDdrGap] = useState(56);
-  const [redFaceClockOffsetX, setRedFaceClockOffsetX] = useState(RED_FACE_CLOCK_OFFSET_DEFAULT);
-  const [redFaceDdrOffsetX, setRedFaceDdrOffsetX] = useState(RED_FACE_DDR_OFFSET_DEFAULT);
-  const [watchface, setWatchface] = useState<"classic" | "red-stack">("classic");
+  const [layout, setLayout] = useStoredSetting(layoutSetting);
+  const { zoom, offsetX: layoutOffsetX, ddrGap } = layout;
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [mode, setMode] = useState<"clock" | "running-order" | "settings">("clock");
   const [keepClockOnPopout, setKeepClockOnPopout] = useState(true);
@@ -125,6 +250,7 @@ const StudioClock = () => {
   const [updateMessage, setUpdateMessage] = useState<string | null>(null);
   const [availableUpdate, setAvailableUpdate] = useState<any | null>(null);
   const [casparUploadPath, setCasparUploadPath] = useState("");
+  const [ntpServerText, setNtpServerText] = useState(() => ntpServers.join(", "));
 
   useEffect(() => {
     const handleKey = (event: KeyboardEvent) => {
@@ -137,114 +263,14 @@ const StudioClock = () => {
   }, []);
 
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    try {
-      const stored = window.localStorage.getItem(LOGO_STORAGE_KEY);
-      if (stored) {
-        setLogoDataUrl(stored);
-      }
-      const storedInvert = window.localStorage.getItem(LOGO_INVERT_KEY);
-      if (storedInvert != null) {
-        setInvertLogo(storedInvert === "true");
-      }
-      const storedLayout = window.localStorage.getItem(LAYOUT_STORAGE_KEY);
-      if (storedLayout) {
-        const parsed = JSON.parse(storedLayout) as Partial<{
-          zoom: number;
-          offsetX: number;
-          ddrGap: number;
-          redFaceClockOffsetX: number;
-          redFaceDdrOffsetX: number;
-          redFaceOffsetX: number;
-        }>;
-        if (typeof parsed.zoom === "number" && Number.isFinite(parsed.zoom)) {
-          setZoom(Math.min(2.5, Math.max(0.3, parsed.zoom)));
-        }
-        if (typeof parsed.offsetX === "number" && Number.isFinite(parsed.offsetX)) {
-          setLayoutOffsetX(Math.min(600, Math.max(-600, parsed.offsetX)));
-        }
-        if (typeof parsed.ddrGap === "number" && Number.isFinite(parsed.ddrGap)) {
-          setDdrGap(Math.min(320, Math.max(0, parsed.ddrGap)));
-        }
-        const hasClockOffset = typeof parsed.redFaceClockOffsetX === "number" && Number.isFinite(parsed.redFaceClockOffsetX);
-        const hasLegacyOffset = typeof parsed.redFaceOffsetX === "number" && Number.isFinite(parsed.redFaceOffsetX);
-        const hasDdrOffset = typeof parsed.redFaceDdrOffsetX === "number" && Number.isFinite(parsed.redFaceDdrOffsetX);
-        const parsedClockOffset = hasClockOffset
-          ? parsed.redFaceClockOffsetX
-          : hasLegacyOffset
-            ? parsed.redFaceOffsetX
-            : RED_FACE_CLOCK_OFFSET_DEFAULT;
-        const parsedDdrOffset = hasDdrOffset ? parsed.redFaceDdrOffsetX : RED_FACE_DDR_OFFSET_DEFAULT;
-        const isPreviousDefaultPair =
-          (parsedClockOffset === -40 && parsedDdrOffset === 18) ||
-          (parsedClockOffset === -72 && parsedDdrOffset === 64) ||
-          (parsedClockOffset === -34 && parsedDdrOffset === 80) ||
-          (parsedClockOffset === 0 && parsedDdrOffset === 0);
-        setRedFaceClockOffsetX(
-          Math.min(160, Math.max(-160, isPreviousDefaultPair ? RED_FACE_CLOCK_OFFSET_DEFAULT : parsedClockOffset)),
-        );
-        setRedFaceDdrOffsetX(
-          Math.min(160, Math.max(-160, isPreviousDefaultPair ? RED_FACE_DDR_OFFSET_DEFAULT : parsedDdrOffset)),
-        );
-      }
-      const storedWatchface = window.localStorage.getItem(WATCHFACE_STORAGE_KEY);
-      if (storedWatchface === "classic" || storedWatchface === "red-stack") {
-        setWatchface(storedWatchface);
-      }
-    } catch {
-      // ignore storage errors
-    }
+    const showIssue = (issue: SettingIssue) => {
+      toast.warning(`${issue.label} setting could not be loaded`, { description: issue.message });
+    };
+    // Settings read while the hooks above initialised were reported before this subscribed.
+    getSettingIssues().forEach(showIssue);
+    return subscribeSettingIssues(showIssue);
   }, []);
 
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    try {
-      if (logoDataUrl) {
-        window.localStorage.setItem(LOGO_STORAGE_KEY, logoDataUrl);
-      } else {
-        window.localStorage.removeItem(LOGO_STORAGE_KEY);
-      }
-    } catch {
-      // ignore storage errors
-    }
-  }, [logoDataUrl]);
-
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    try {
-      window.localStorage.setItem(LOGO_INVERT_KEY, String(invertLogo));
-    } catch {
-      // ignore storage errors
-    }
-  }, [invertLogo]);
-
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    try {
-      window.localStorage.setItem(
-        LAYOUT_STORAGE_KEY,
-        JSON.stringify({
-          zoom,
-          offsetX: layoutOffsetX,
-          ddrGap,
-          redFaceClockOffsetX,
-          redFaceDdrOffsetX,
-        }),
-      );
-    } catch {
-      // ignore storage errors
-    }
-  }, [ddrGap, layoutOffsetX, redFaceClockOffsetX, redFaceDdrOffsetX, zoom]);
-
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    try {
-      window.localStorage.setItem(WATCHFACE_STORAGE_KEY, watchface);
-    } catch {
-      // ignore storage errors
-    }
-  }, [watchface]);
-
   useEffect(() => {
     let cancelled = false;
     const run = async () => {
@@ -307,11 +333,11 @@ const StudioClock = () => {
   };
 
   const handleZoomIn = () => {
-    setZoom((prev) => Math.min(prev + 0.1, 2.5));
+    setLayout((prev) => ({ ...prev, zoom: Math.min(prev.zoom + 0.1, 2.5) }));
   };
 
   const handleZoomOut = () => {
-    setZoom((prev) => Math.max(prev - 0.1, 0.3));
+    setLayout((prev) => ({ ...prev, zoom: Math.max(prev.zoom - 0.1, 0.3) }));
   };
 
   const handleCheckUpdates = async () => {
@@ -352,7 +378,6 @@ const StudioClock = () => {
 
   const timeString = format(time, "HH:mm:ss");
   const dateString = format(time, "EEEE d MMMM yyyy", { locale: sv });
-  const currentSecond = time.getSeconds();
   const runningOrderClockSize = Math.min(width * 0.35, 280);
   const defaultClockSize = Math.min(width * 0.9, 500);
   const clockSize = mode === "running-order" ? runningOrderClockSize : defaultClockSize;
@@ -365,26 +390,125 @@ const StudioClock = () => {
     ? "text-4xl sm:text-5xl md:text-6xl lg:text-7xl"
     : "text-6xl sm:text-7xl md:text-8xl lg:text-9xl";
   const showMicIndicator = x32Config.enabled && x32Config.showIndicator && isTauri;
-  const micLive = x32State.anyLive;
+  const showMicMeters = x32Config.enabled && x32Config.showMeters && isTauri;
   const casparRunningOrderEnabled = isTauri && casparConfig.enabled;
   const resolvedTitleText = titleText.trim().length > 0 ? titleText.trim() : "Studioklocka";
   const showTricasterCountdown = tricasterConfig.enabled && tricasterConfig.showCountdown;
   const showTricasterRecording = tricasterRecordConfig.enabled && tricasterRecordConfig.showIndicator;
-  const isRedStackWatchface = watchface === "red-stack";
-  const showRingLayout = showSecondsRing && !isRedStackWatchface;
-  const effectiveLayoutOffsetX = isRedStackWatchface ? RED_FACE_CENTER_CORRECTION_X : layoutOffsetX;
+  const effectiveLayoutOffsetX = watchface.layout ? watchface.layout.offsetX : layoutOffsetX;
+  const adornmentStyle = watchface.layout
+    ? { transform: `translateX(${watchface.layout.adornmentOffsetX}px)` }
+    : undefined;
+  const WatchfaceComponent = watchface.Component;
 
-  const tricasterRecordingPillClass = (recording: boolean | null) =>
-    `rounded-full px-3 py-1 text-xs uppercase tracking-[0.35em] ${
-      recording
-        ? "bg-rose-500/90 text-white shadow-[0_0_14px_rgba(244,63,94,0.55)]"
-        : "bg-foreground/10 text-muted-foreground"
-    }`;
+  const liveMicNames = useMemo(
+    () => liveMicInputs.map((input) => formatX32Input(input, x32State.mixer)),
+    [liveMicInputs, x32State.mixer],
+  );
 
-  const tricasterRecordingLabel = (recording: boolean | null) => {
-    if (recording == null) return "TRICASTER --";
-    return recording ? "TRICASTER REC" : "TRICASTER IDLE";
-  };
+  // As-run entries for transitions only; the state seen on startup is not an event.
+  const micLoggingEnabled = x32Config.enabled && isTauri;
+  useEffect(() => {
+    const previous = previousMicLiveRef.current;
+    previousMicLiveRef.current = micLoggingEnabled ? micLive : null;
+    if (!micLoggingEnabled || previous == null || previous === micLive) return;
+    logAsRun(
+      micLive
+        ? { kind: "mic-live", detail: liveMicNames.join(", ") }
+        : { kind: "mic-muted" },
+      Date.now() + clockAppliedOffsetMs,
+    );
+  }, [clockAppliedOffsetMs, liveMicNames, logAsRun, micLive, micLoggingEnabled]);
+
+  const tricasterRecording = tricasterRecordConfig.enabled ? tricasterRecordState.recording : null;
+  useEffect(() => {
+    const previous = previousRecordingRef.current;
+    previousRecordingRef.current = tricasterRecording;
+    if (tricasterRecording == null || previous == null || previous === tricasterRecording) return;
+    logAsRun(
+      { kind: tricasterRecording ? "tricaster-record-start" : "tricaster-record-stop" },
+      Date.now() + clockAppliedOffsetMs,
+    );
+  }, [clockAppliedOffsetMs, logAsRun, tricasterRecording]);
+  const showTimecode = timecodeConfig.displayMode === "timecode";
+  const digitalWidthClassName = showTimecode ? "w-[11ch]" : "w-[8ch]";
+
+  const renderTimeDisplay = (className: string) =>
+    showTimecode ? (
+      <TimecodeDisplay
+        frameRate={timecodeConfig.frameRate}
+        offsetFrames={timecodeConfig.offsetFrames}
+        clockOffsetMs={clockAppliedOffsetMs}
+        className={className}
+      />
+    ) : (
+      <DigitalDisplay time={timeString} className={className} />
+    );
+
+  const playingDdrs = useMemo(() => {
+    if (!tricasterConfig.enabled) return null;
+    const playing = Object.entries(tricasterState.playingByDdr)
+      .filter(([, entry]) => entry.playing)
+      .map(([ddr]) => Number(ddr));
+    const counting = tricasterCountdown.active ? tricasterCountdown.activeDdr : null;
+    return counting != null && !playing.includes(counting) ? [...playing, counting] : playing;
+  }, [tricasterConfig.enabled, tricasterCountdown.active, tricasterCountdown.activeDdr, tricasterState.playingByDdr]);
+
+  const indicatorSignals = useMemo<IndicatorSignals>(
+    () => ({
+      liveMics: micLoggingEnabled ? liveMicInputs : null,
+      recording: tricasterRecording,
+      playingDdrs,
+      segmentType: onAirSegment?.type ?? null,
+    }),
+    [liveMicInputs, micLoggingEnabled, onAirSegment?.type, playingDdrs, tricasterRecording],
+  );
+  const indicatorStates = useMemo(
+    () => getIndicatorStates(userIndicators.indicators, indicatorSignals),
+    [indicatorSignals, userIndicators.indicators],
+  );
+
+  const indicators = useMemo(() => {
+    const next: WatchfaceIndicator[] = [];
+    if (showTricasterRecording) {
+      next.push({
+        id: "tricaster-recording",
+        label: tricasterRecordingLabel(tricasterRecordState.recording),
+        tone: tricasterRecordState.recording ? "live" : "idle",
+      });
+    }
+    if (showMicIndicator) {
+      next.push({
+        id: "mic-live",
+        label: micLive ? liveMicNames.join(" • ") : "Mics muted",
+        tone: micLive ? "live" : "safe",
+      });
+    }
+    indicatorStates.forEach(({ definition, active }) => {
+      next.push({
+        id: definition.id,
+        label: definition.label,
+        tone: active ? "live" : "idle",
+        colors: { background: definition.background, text: definition.text },
+        flash: definition.flash,
+        placement: definition.placement,
+      });
+    });
+    return next;
+  }, [
+    indicatorStates,
+    liveMicNames,
+    micLive,
+    showMicIndicator,
+    showTricasterRecording,
+    tricasterRecordState.recording,
+  ]);
+  const placedIndicators = useMemo(() => {
+    const visible = watchface.ownsAdornments ? [] : indicators;
+    const at = (placement: IndicatorPlacement) =>
+      visible.filter((indicator) => (indicator.placement ?? "above") === placement);
+    return { above: at("above"), below: at("below"), left: at("left"), right: at("right") };
+  }, [indicators, watchface.ownsAdornments]);
 
   const clockContent = useMemo(
     () => (
@@ -395,122 +519,73 @@ const StudioClock = () => {
         {showTitle && (
           <h1
             className="text-muted-foreground text-xl sm:text-2xl md:text-3xl font-light tracking-[0.4em] uppercase"
-            style={isRedStackWatchface ? { transform: `translateX(${RED_FACE_ADORNMENT_CORRECTION_X}px)` } : undefined}
+            style={adornmentStyle}
           >
             {resolvedTitleText}
           </h1>
         )}
-        {(showTricasterRecording || showMicIndicator) && (
-          <div className="flex flex-wrap items-center gap-3">
-            {showTricasterRecording && (
-              <div className={tricasterRecordingPillClass(tricasterRecordState.recording)}>
-                {tricasterRecordingLabel(tricasterRecordState.recording)}
-              </div>
-            )}
-            {showMicIndicator && (
-              <div
-                className={`rounded-full px-4 py-1 text-xs uppercase tracking-[0.35em] ${
-                  micLive
-                    ? "bg-rose-500/90 text-white shadow-[0_0_14px_rgba(244,63,94,0.55)]"
-                    : "bg-emerald-500/10 text-emerald-200"
-                }`}
-              >
-                {micLive ? "Mic live" : "Mics muted"}
-                {liveChannels.length > 0 ? ` • ${liveChannels.length}` : ""}
-              </div>
-            )}
-          </div>
-        )}
+        {renderIndicatorGroup(placedIndicators.above, "flex flex-wrap items-center justify-center gap-3")}
 
-        {showRingLayout ? (
-          <div className="relative flex w-full items-center justify-center">
-            <div className="relative flex items-center justify-center" style={{ width: clockSize, height: clockSize }}>
-              <SecondsRing currentSecond={currentSecond} size={clockSize} />
+        <div className="flex w-full items-center justify-center gap-6">
+          {renderIndicatorGroup(placedIndicators.left, "flex shrink-0 flex-col items-end gap-3")}
+          <WatchfaceComponent
+            time={time}
+            clockOffsetMs={clockAppliedOffsetMs}
+            size={clockSize}
+            compact={isRunningOrder}
+            renderTime={renderTimeDisplay}
+            timeClassName={digitalClassName}
+            standaloneTimeClassName={digitalStandaloneClassName}
+            timeWidthClassName={digitalWidthClassName}
+            showSecondsRing={showSecondsRing && watchface.supportsSecondsRing}
+            logo={showLogo && logoDataUrl ? { src: logoDataUrl, invert: invertLogo, className: logoClassName } : null}
+            ddr={
+              showTricasterCountdown
+                ? {
+                    label: tricasterConfig.label,
+                    seconds: tricasterCountdown.remainingSeconds,
+                    active: tricasterCountdown.active,
+                    gap: ddrGap,
+                  }
+                : null
+            }
+            indicators={indicators}
+            date={showDate ? dateString : null}
+            settings={watchfaceSettings}
+          />
+          {renderIndicatorGroup(placedIndicators.right, "flex shrink-0 flex-col items-start gap-3")}
+        </div>
 
-              {showLogo && logoDataUrl && (
-                <img
-                  src={logoDataUrl}
-                  alt="Studio logo"
-                  className={`absolute top-[18%] left-1/2 -translate-x-1/2 ${logoClassName}`}
-                  style={invertLogo ? { filter: "invert(1)" } : undefined}
-                />
-              )}
+        {renderIndicatorGroup(placedIndicators.below, "flex flex-wrap items-center justify-center gap-3")}
 
-              <div className="absolute inset-0 flex items-center justify-center">
-                <DigitalDisplay time={timeString} className={digitalClassName} />
-              </div>
-              {showTricasterCountdown && (
-                <div className="absolute top-1/2 -translate-y-1/2" style={{ left: `calc(100% + ${ddrGap}px)` }}>
-                  <DdrCountdown
-                    label={tricasterConfig.label}
-                    seconds={tricasterCountdown.remainingSeconds}
-                    active={tricasterCountdown.active}
-                    size="lg"
-                  />
-                </div>
-              )}
-            </div>
+        {showWorldClocks && visibleWorldClocks.length > 0 && (
+          <div style={adornmentStyle}>
+            <WorldClockStrip now={time} clocks={visibleWorldClocks} size={isRunningOrder ? "sm" : "md"} />
           </div>
-        ) : (
-          <div className="relative flex w-full items-center justify-center">
-            {isRedStackWatchface ? (
-              <div className="relative inline-flex flex-col items-center gap-4 pb-28">
-                {showLogo && logoDataUrl && (
-                  <img
-                    src={logoDataUrl}
-                    alt="Logo"
-                    className={logoClassName}
-                    style={invertLogo ? { filter: "invert(1)" } : undefined}
-                  />
-                )}
-                <div className="flex w-[8ch] justify-center">
-                  <DigitalDisplay time={timeString} className={`${digitalStandaloneClassName} w-[8ch] text-center`} />
-                </div>
-                {showTricasterCountdown && (
-                  <div
-                    className="absolute left-1/2 top-full mt-3"
-                    style={{ transform: `translate(calc(-50% + ${redFaceDdrOffsetX}px), 0)` }}
-                  >
-                    <DdrCountdown
-                      label={tricasterConfig.label}
-                      seconds={tricasterCountdown.remainingSeconds}
-                      active={tricasterCountdown.active}
-                      size="xl"
-                    />
-                  </div>
-                )}
-              </div>
-            ) : (
-              <div className="relative inline-flex flex-col items-center gap-4">
-                {showLogo && logoDataUrl && (
-                  <img
-                    src={logoDataUrl}
-                    alt="Logo"
-                    className={logoClassName}
-                    style={invertLogo ? { filter: "invert(1)" } : undefined}
-                  />
-                )}
+        )}
 
-                <DigitalDisplay time={timeString} className={digitalStandaloneClassName} />
-                {showTricasterCountdown && (
-                  <div className="absolute top-1/2 -translate-y-1/2" style={{ left: `calc(100% + ${ddrGap}px)` }}>
-                    <DdrCountdown
-                      label={tricasterConfig.label}
-                      seconds={tricasterCountdown.remainingSeconds}
-                      active={tricasterCountdown.active}
-                      size="lg"
-                    />
-                  </div>
-                )}
-              </div>
-            )}
+        {countdownTimers.length > 0 && (
+          <div style={adornmentStyle}>
+            <CountdownTimers now={time} timers={countdownTimers} size={isRunningOrder ? "sm" : "md"} />
           </div>
         )}
 
-        {showDate && (
+        {showMicMeters && (
+          <div style={adornmentStyle}>
+            <X32LevelMeters
+              inputs={x32Config.inputs}
+              frame={x32State.meters}
+              mixer={x32State.mixer}
+              liveInputs={liveMicInputs}
+              size={isRunningOrder ? "sm" : "md"}
+            />
+          </div>
+        )}
+
+        {showDate && !watchface.ownsAdornments && (
           <div
             className="text-muted-foreground text-lg sm:text-xl md:text-2xl font-light tracking-wide"
-            style={isRedStackWatchface ? { transform: `translateX(${RED_FACE_ADORNMENT_CORRECTION_X}px)` } : undefined}
+            style={adornmentStyle}
           >
             {dateString}
           </div>
@@ -526,21 +601,16 @@ const StudioClock = () => {
     ),
     [
       clockSize,
-      currentSecond,
       dateString,
-      liveChannels.length,
-      micLive,
-      showMicIndicator,
+      indicators,
+      placedIndicators,
       showDate,
       showLogo,
-      showRingLayout,
       showSecondsRing,
       showStopwatch,
       showTitle,
       showTricasterCountdown,
-      showTricasterRecording,
       timeString,
-      tricasterRecordState.recording,
       tricasterConfig.label,
       tricasterCountdown.active,
       tricasterCountdown.remainingSeconds,
@@ -548,8 +618,21 @@ const StudioClock = () => {
       layoutOffsetX,
       effectiveLayoutOffsetX,
       ddrGap,
-      isRedStackWatchface,
+      watchface,
+      watchfaceSettings,
       zoom,
+      showTimecode,
+      timecodeConfig.frameRate,
+      timecodeConfig.offsetFrames,
+      clockAppliedOffsetMs,
+      showWorldClocks,
+      visibleWorldClocks,
+      countdownTimers,
+      showMicMeters,
+      x32Config.inputs,
+      x32State.meters,
+      x32State.mixer,
+      liveMicInputs,
     ],
   );
 
@@ -627,6 +710,28 @@ const StudioClock = () => {
             >
               <span>Pop out running order</span>
             </DropdownMenuItem>
+            {settingsProfiles.profiles.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Profile</DropdownMenuLabel>
+                {settingsProfiles.profiles.map((profile) => (
+                  <DropdownMenuItem
+                    key={profile.name}
+                    onSelect={() => {
+                      if (profile.name !== settingsProfiles.activeProfileName) {
+                        settingsProfiles.switchProfile(profile.name);
+                      }
+                    }}
+                    className="flex items-center justify-between"
+                  >
+                    <span className="truncate">{profile.name}</span>
+                    {profile.name === settingsProfiles.activeProfileName && (
+                      <span className="text-xs text-muted-foreground">Active</span>
+                    )}
+                  </DropdownMenuItem>
+                ))}
+              </>
+            )}
             <DropdownMenuSeparator />
             <DropdownMenuLabel>Display</DropdownMenuLabel>
             <DropdownMenuCheckboxItem
@@ -669,11 +774,22 @@ const StudioClock = () => {
                 <span>Stopwatch</span>
               </div>
             </DropdownMenuCheckboxItem>
+            <DropdownMenuCheckboxItem
+              checked={showWorldClocks}
+              onSelect={(event) => event.preventDefault()}
+              onCheckedChange={(v) => setShowWorldClocks(v === true)}
+              disabled={visibleWorldClocks.length === 0}
+            >
+              <div className="flex items-center gap-2">
+                <Globe className="h-4 w-4" />
+                <span>World clocks</span>
+              </div>
+            </DropdownMenuCheckboxItem>
             <DropdownMenuCheckboxItem
               checked={showSecondsRing}
               onSelect={(event) => event.preventDefault()}
               onCheckedChange={(v) => setShowSecondsRing(v === true)}
-              disabled={isRedStackWatchface}
+              disabled={!watchface.supportsSecondsRing}
             >
               <div className="flex items-center gap-2">
                 <Circle className="h-4 w-4" />
@@ -725,8 +841,9 @@ const StudioClock = () => {
           <ErrorBoundary fallbackTitle="Running order error" onReset={() => setMode("clock")}>
             <RunningOrderLayout
               now={time}
-              persistKey="studio_timepiece_running_order_v1"
+              persistKey={RUNNING_ORDER_STORAGE_KEY}
               syncFromStorage
+              timecode={{ frameRate: timecodeConfig.frameRate, showFrames: showTimecode }}
               casparControls={
                 casparRunningOrderEnabled
                   ? {
@@ -753,9 +870,13 @@ const StudioClock = () => {
                 <div className="rounded-xl border border-border/60 bg-card/80 p-4 shadow-sm backdrop-blur">
                   <div className="text-xs uppercase tracking-[0.3em] text-muted-foreground">Clock</div>
                   <div className="mt-4 flex flex-col items-center">
-                    <DigitalDisplay time={timeString} className="text-3xl sm:text-4xl md:text-5xl" />
+                    {renderTimeDisplay("text-3xl sm:text-4xl md:text-5xl")}
                     <div className="mt-2 text-xs uppercase tracking-[0.3em] text-muted-foreground">{dateString}</div>
                   </div>
+                  {visibleWorldClocks.length > 0 && (
+                    <WorldClockStrip now={time} clocks={visibleWorldClocks} size="sm" className="mt-4" />
+                  )}
+                  <CountdownTimers now={time} timers={countdownTimers} size="sm" className="mt-4" />
                   <div className="mt-4 flex items-center justify-between gap-2 text-xs text-muted-foreground">
                     <span>Keep clock visible when popped out</span>
                     <Switch checked={keepClockOnPopout} onCheckedChange={setKeepClockOnPopout} />
@@ -784,37 +905,401 @@ const StudioClock = () => {
               >
                 World clock
               </Button>
+              <Button
+                variant={clockSource === "ntp" ? "default" : "outline"}
+                onClick={() => setClockSource("ntp")}
+              >
+                NTP server
+              </Button>
             </div>
+            {clockSource === "ntp" && (
+              <div className="mt-4">
+                <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                  NTP servers
+                  <input
+                    value={ntpServerText}
+                    onChange={(event) => setNtpServerText(event.target.value)}
+                    onBlur={() => {
+                      setNtpServers(ntpServerText.split(/[\s,]+/));
+                    }}
+                    onKeyDown={(event) => {
+                      if (event.key === "Enter") {
+                        setNtpServers(ntpServerText.split(/[\s,]+/));
+                      }
+                    }}
+                    className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                    placeholder="ntp1.studio.local, 10.0.0.1:123"
+                    disabled={!isTauri}
+                  />
+                </label>
+                <div className="mt-1 text-xs text-muted-foreground">
+                  {isTauri
+                    ? "Comma separated. Every server is queried and the reply with the lowest round-trip delay wins."
+                    : "Only available in the desktop app"}
+                </div>
+              </div>
+            )}
+            {clockSync && (
+              <div className="mt-4 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                <span>Server</span>
+                <span className="text-right text-foreground">{clockSync.server ?? "--"}</span>
+                <span>Offset</span>
+                <span className="text-right tabular-nums text-foreground">
+                  {clockSync.offsetMs >= 0 ? "+" : "-"}
+                  {Math.abs(clockSync.offsetMs).toFixed(1)} ms
+                </span>
+                <span>Round-trip delay</span>
+                <span className="text-right tabular-nums text-foreground">
+                  {clockSync.delayMs != null ? `${clockSync.delayMs.toFixed(1)} ms` : "--"}
+                </span>
+                <span>Stratum</span>
+                <span className="text-right tabular-nums text-foreground">{clockSync.stratum ?? "--"}</span>
+                <span>Applied correction</span>
+                <span className="text-right tabular-nums text-foreground">
+                  {clockAppliedOffsetMs.toFixed(1)} / {clockTargetOffsetMs.toFixed(1)} ms
+                </span>
+              </div>
+            )}
             {lastSync && (
               <div className="mt-4 text-xs text-muted-foreground">Last sync: {format(lastSync, "HH:mm:ss")}</div>
             )}
+            {clockSource !== "local" && (
+              <div className="mt-4">
+                <div className="text-sm font-medium text-foreground">Sync quality</div>
+                <div className="mt-1 text-xs text-muted-foreground">
+                  Corrections under one second are slewed in gradually so the seconds ring never jumps; larger ones
+                  are stepped.
+                </div>
+                <SyncQualityChart history={clockSyncHistory} className="mt-3" />
+              </div>
+            )}
 
             <div className="mt-8 border-t border-border/60 pt-6">
               <div className="text-lg font-semibold text-foreground">Watchface</div>
+              <div className="mt-1 text-sm text-muted-foreground">{watchface.description}</div>
+              <div className="mt-4 flex flex-wrap items-center gap-3">
+                {WATCHFACES.map((face) => (
+                  <Button
+                    key={face.id}
+                    type="button"
+                    variant={watchface.id === face.id ? "default" : "outline"}
+                    onClick={() => setWatchfaceId(face.id)}
+                  >
+                    {face.label}
+                  </Button>
+                ))}
+              </div>
+              <WatchfaceSettingsFields
+                fields={watchface.settings}
+                values={watchfaceSettings}
+                onChange={setWatchfaceSetting}
+              />
+            </div>
+
+            <div className="mt-8 border-t border-border/60 pt-6">
+              <div className="text-lg font-semibold text-foreground">Timecode</div>
               <div className="mt-1 text-sm text-muted-foreground">
-                Choose between the classic ring face and a red stacked face with DDR below the clock.
+                Show time of day as SMPTE timecode (HH:MM:SS:FF). The frame rate also sets how running order durations
+                are entered and shown.
               </div>
               <div className="mt-4 flex flex-wrap items-center gap-3">
-                <Button
-                  type="button"
-                  variant={watchface === "classic" ? "default" : "outline"}
-                  onClick={() => setWatchface("classic")}
-                >
-                  Classic
-                </Button>
-                <Button
-                  type="button"
-                  variant={watchface === "red-stack" ? "default" : "outline"}
-                  onClick={() => setWatchface("red-stack")}
-                >
-                  Red stacked
+                <Switch
+                  checked={showTimecode}
+                  onCheckedChange={(value) => setTimecodeConfig({ displayMode: value ? "timecode" : "clock" })}
+                />
+                <span className="text-sm text-muted-foreground">Show timecode on the clock face</span>
+              </div>
+              <div className="mt-4 flex flex-wrap items-center gap-2">
+                {FRAME_RATE_IDS.map((frameRateId) => (
+                  <Button
+                    key={frameRateId}
+                    type="button"
+                    size="sm"
+                    variant={timecodeConfig.frameRate === frameRateId ? "default" : "outline"}
+                    onClick={() => setTimecodeConfig({ frameRate: frameRateId })}
+                  >
+                    {FRAME_RATES[frameRateId].label}
+                  </Button>
+                ))}
+              </div>
+              <div className="mt-4">
+                <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                  Time-of-day offset (frames)
+                  <input
+                    type="number"
+                    step={1}
+                    value={timecodeConfig.offsetFrames}
+                    onChange={(event) => setTimecodeConfig({ offsetFrames: Math.round(Number(event.target.value) || 0) })}
+                    className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                    placeholder="0"
+                  />
+                </label>
+                <div className="mt-1 text-xs text-muted-foreground">
+                  {timecodeConfig.offsetFrames === 0
+                    ? "No offset applied."
+                    : `Offset ${framesToTimecode(timecodeConfig.offsetFrames, timecodeConfig.frameRate)}. Use a negative value to delay.`}
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-8 border-t border-border/60 pt-6">
+              <div className="text-lg font-semibold text-foreground">World clocks</div>
+              <div className="mt-1 text-sm text-muted-foreground">
+                Secondary clocks shown under the main face and in the running order. Use IANA time zone names such as
+                America/New_York; daylight saving time is handled automatically.
+              </div>
+              <div className="mt-4 space-y-3">
+                {worldClocks.length === 0 && <div className="text-xs text-muted-foreground">No world clocks added.</div>}
+                {worldClocks.map((clock) => {
+                  const zoneValid = isValidTimeZone(clock.timeZone);
+                  return (
+                    <div key={clock.id} className="rounded-md border border-border/60 bg-background/40 p-3">
+                      <div className="grid gap-3 sm:grid-cols-3">
+                        <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                          Label
+                          <input
+                            value={clock.label}
+                            onChange={(event) => updateWorldClock(clock.id, { label: event.target.value })}
+                            className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                            placeholder="New York"
+                          />
+                        </label>
+                        <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                          Time zone
+                          <input
+                            value={clock.timeZone}
+                            list="world-clock-time-zones"
+                            onChange={(event) => updateWorldClock(clock.id, { timeZone: event.target.value.trim() })}
+                            className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                            placeholder="America/New_York"
+                          />
+                        </label>
+                        <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                          Abbreviation
+                          <input
+                            value={clock.abbreviation ?? ""}
+                            onChange={(event) =>
+                              updateWorldClock(clock.id, { abbreviation: event.target.value || undefined })
+                            }
+                            className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                            placeholder={zoneValid ? getZoneAbbreviation(time, clock.timeZone) : "Auto"}
+                          />
+                        </label>
+                      </div>
+                      <div className="mt-2 flex items-center justify-between gap-3">
+                        <span className={`text-xs ${zoneValid ? "text-muted-foreground" : "text-amber-200"}`}>
+                          {zoneValid ? "Leave abbreviation empty to follow DST automatically." : "Unknown time zone"}
+                        </span>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => removeWorldClock(clock.id)}
+                          className="text-muted-foreground"
+                        >
+                          <Trash2 className="mr-1 h-4 w-4" />
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+                <datalist id="world-clock-time-zones">
+                  {timeZoneOptions.map((zone) => (
+                    <option key={zone} value={zone} />
+                  ))}
+                </datalist>
+                <Button type="button" variant="outline" onClick={() => addWorldClock()}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add world clock
                 </Button>
               </div>
-              {isRedStackWatchface && (
-                <div className="mt-2 text-xs text-muted-foreground">
-                  Red stacked hides the seconds ring and places the DDR countdown under the clock.
+            </div>
+
+            <div className="mt-8 border-t border-border/60 pt-6">
+              <div className="text-lg font-semibold text-foreground">Countdown timers</div>
+              <div className="mt-1 text-sm text-muted-foreground">
+                Named countdowns to a time of day (such as ON AIR 18:00:00) or of a fixed length. They turn to the
+                warning and critical colours as the target approaches and are also shown in the running order window.
+              </div>
+              <div className="mt-4 space-y-3">
+                {countdownTimers.length === 0 && (
+                  <div className="text-xs text-muted-foreground">No countdown timers added.</div>
+                )}
+                {countdownTimers.map((timer) => (
+                  <div key={timer.id} className="rounded-md border border-border/60 bg-background/40 p-3">
+                    <div className="grid gap-3 sm:grid-cols-3">
+                      <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                        Label
+                        <input
+                          value={timer.label}
+                          onChange={(event) => updateCountdownTimer(timer.id, { label: event.target.value })}
+                          className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                          placeholder="On air"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                        Counts down to
+                        <select
+                          value={timer.mode}
+                          onChange={(event) =>
+                            updateCountdownTimer(timer.id, {
+                              mode: event.target.value === "duration" ? "duration" : "time-of-day",
+                              startedAt: null,
+                            })
+                          }
+                          className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                        >
+                          <option value="time-of-day">Time of day</option>
+                          <option value="duration">End of a duration</option>
+                        </select>
+                      </label>
+                      {timer.mode === "time-of-day" ? (
+                        <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                          Target time
+                          <input
+                            type="time"
+                            step={1}
+                            value={timer.targetTime}
+                            onChange={(event) => updateCountdownTimer(timer.id, { targetTime: event.target.value })}
+                            className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                          />
+                        </label>
+                      ) : (
+                        <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                          Duration (mm:ss)
+                          <input
+                            key={timer.durationSeconds}
+                            defaultValue={formatCountdown(timer.durationSeconds)}
+                            onBlur={(event) => {
+                              const seconds = parseClockDuration(event.target.value);
+                              if (seconds != null && seconds > 0) {
+                                updateCountdownTimer(timer.id, { durationSeconds: seconds });
+                              } else {
+                                event.target.value = formatCountdown(timer.durationSeconds);
+                              }
+                            }}
+                            className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                          />
+                        </label>
+                      )}
+                    </div>
+                    <div className="mt-3 grid gap-3 sm:grid-cols-5">
+                      <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                        Warning (s)
+                        <input
+                          type="number"
+                          min={0}
+                          value={timer.warningSeconds}
+                          onChange={(event) =>
+                            updateCountdownTimer(timer.id, {
+                              warningSeconds: Math.max(0, Number(event.target.value) || 0),
+                            })
+                          }
+                          className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                        Warning colour
+                        <input
+                          type="color"
+                          value={timer.warningColor}
+                          onChange={(event) => updateCountdownTimer(timer.id, { warningColor: event.target.value })}
+                          className="h-10 w-full rounded-md border border-border/60 bg-transparent"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                        Critical (s)
+                        <input
+                          type="number"
+                          min={0}
+                          value={timer.criticalSeconds}
+                          onChange={(event) =>
+                            updateCountdownTimer(timer.id, {
+                              criticalSeconds: Math.max(0, Number(event.target.value) || 0),
+                            })
+                          }
+                          className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                        Critical colour
+                        <input
+                          type="color"
+                          value={timer.criticalColor}
+                          onChange={(event) => updateCountdownTimer(timer.id, { criticalColor: event.target.value })}
+                          className="h-10 w-full rounded-md border border-border/60 bg-transparent"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                        Pre-roll (min)
+                        <input
+                          type="number"
+                          min={0}
+                          value={timer.preRollSeconds / 60}
+                          onChange={(event) =>
+                            updateCountdownTimer(timer.id, {
+                              preRollSeconds: Math.max(0, Math.round((Number(event.target.value) || 0) * 60)),
+                            })
+                          }
+                          className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                        />
+                      </label>
+                    </div>
+                    <div className="mt-2 flex flex-wrap items-center justify-between gap-3">
+                      <span className="text-xs text-muted-foreground">
+                        {timer.preRollSeconds > 0
+                          ? `Appears at T-${formatCountdown(timer.preRollSeconds)}.`
+                          : "Visible all the time."}
+                      </span>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {timer.mode === "duration" &&
+                          (timer.startedAt == null ? (
+                            <Button type="button" size="sm" onClick={() => startCountdownTimer(timer.id, time)}>
+                              Start
+                            </Button>
+                          ) : (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              onClick={() => resetCountdownTimer(timer.id)}
+                            >
+                              Reset
+                            </Button>
+                          ))}
+                        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                          Show
+                          <Switch
+                            checked={timer.enabled}
+                            onCheckedChange={(checked) => updateCountdownTimer(timer.id, { enabled: checked })}
+                          />
+                        </label>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => removeCountdownTimer(timer.id)}
+                          className="text-muted-foreground"
+                        >
+                          <Trash2 className="mr-1 h-4 w-4" />
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex flex-wrap gap-2">
+                  <Button type="button" variant="outline" onClick={() => addCountdownTimer("time-of-day")}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add time-of-day countdown
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => addCountdownTimer("duration")}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add duration countdown
+                  </Button>
                 </div>
-              )}
+              </div>
             </div>
 
             <div className="mt-8 border-t border-border/60 pt-6">
@@ -831,7 +1316,7 @@ const StudioClock = () => {
                     max={250}
                     step={5}
                     value={Math.round(zoom * 100)}
-                    onChange={(event) => setZoom(Number(event.target.value) / 100)}
+                    onChange={(event) => setLayout((prev) => ({ ...prev, zoom: Number(event.target.value) / 100 }))}
                     className="w-full"
                   />
                 </label>
@@ -843,8 +1328,8 @@ const StudioClock = () => {
                     max={600}
                     step={10}
                     value={layoutOffsetX}
-                    onChange={(event) => setLayoutOffsetX(Number(event.target.value))}
-                    disabled={isRedStackWatchface}
+                    onChange={(event) => setLayout((prev) => ({ ...prev, offsetX: Number(event.target.value) }))}
+                    disabled={Boolean(watchface.layout)}
                     className="w-full"
                   />
                 </label>
@@ -858,38 +1343,19 @@ const StudioClock = () => {
                     max={320}
                     step={4}
                     value={ddrGap}
-                    onChange={(event) => setDdrGap(Number(event.target.value))}
+                    onChange={(event) => setLayout((prev) => ({ ...prev, ddrGap: Number(event.target.value) }))}
                     disabled={!showTricasterCountdown}
                     className="w-full"
                   />
                 </label>
               </div>
-              {isRedStackWatchface && (
-                <div className="mt-3">
-                  <label className="flex flex-col gap-1 text-sm text-muted-foreground">
-                    Red face DDR nudge ({redFaceDdrOffsetX}px)
-                    <input
-                      type="range"
-                      min={-160}
-                      max={160}
-                      step={1}
-                      value={redFaceDdrOffsetX}
-                      onChange={(event) => setRedFaceDdrOffsetX(Number(event.target.value))}
-                      className="w-full"
-                    />
-                  </label>
-                </div>
-              )}
               <div className="mt-3">
                 <Button
                   type="button"
                   variant="outline"
                   onClick={() => {
-                    setZoom(1);
-                    setLayoutOffsetX(0);
-                    setDdrGap(56);
-                    setRedFaceClockOffsetX(RED_FACE_CLOCK_OFFSET_DEFAULT);
-                    setRedFaceDdrOffsetX(RED_FACE_DDR_OFFSET_DEFAULT);
+                    setLayout(layoutSetting.defaults);
+                    resetWatchfaceSettings();
                   }}
                 >
                   Reset layout defaults
@@ -914,6 +1380,8 @@ const StudioClock = () => {
               <div className="mt-2 text-xs text-muted-foreground">Leave empty to use the default title.</div>
             </div>
 
+            <SettingsProfilesPanel {...settingsProfiles} />
+
             <div className="mt-8 border-t border-border/60 pt-6">
               <div className="text-lg font-semibold text-foreground">App updates</div>
               <div className="mt-1 text-sm text-muted-foreground">
@@ -1251,7 +1719,91 @@ const StudioClock = () => {
                   />
                 </label>
               </div>
-              <div className="mt-2 text-xs text-muted-foreground">Channels: 1–6 • Live = unmuted + fader above -inf</div>
+              <X32DiscoveryList
+                {...x32Discovery}
+                port={x32Config.port}
+                host={x32Config.host}
+                onSelect={(mixer) => setX32Config({ host: mixer.host, port: mixer.port })}
+                disabled={!x32Config.enabled}
+              />
+              <div className="mt-4 text-sm font-medium text-foreground">Mic inputs</div>
+              <div className="mt-1 text-xs text-muted-foreground">
+                Live = unmuted with the fader above -inf. Leave a label empty to use the name set on the desk.
+              </div>
+              <div className="mt-3">
+                <X32InputList
+                  inputs={x32Config.inputs}
+                  onChange={(inputs) => setX32Config({ inputs })}
+                  liveInputs={liveMicInputs}
+                  mixer={x32State.mixer}
+                  disabled={!x32Config.enabled}
+                />
+              </div>
+              <div className="mt-4 flex flex-wrap items-center gap-3">
+                <Switch
+                  checked={x32Config.followDca}
+                  onCheckedChange={(value) => setX32Config({ followDca: value })}
+                  disabled={!x32Config.enabled}
+                />
+                <span className="text-sm text-muted-foreground">Muted or closed DCAs take their mics off air</span>
+              </div>
+              <div className="mt-3 flex flex-wrap items-center gap-3">
+                <Switch
+                  checked={x32Config.requireMainBus}
+                  onCheckedChange={(value) => setX32Config({ requireMainBus: value })}
+                  disabled={!x32Config.enabled}
+                />
+                <span className="text-sm text-muted-foreground">Only count mics sent to an open main LR bus</span>
+              </div>
+              <div className="mt-3 flex flex-wrap items-center gap-3">
+                <Switch
+                  checked={x32Config.requireSignal}
+                  onCheckedChange={(value) => setX32Config({ requireSignal: value })}
+                  disabled={!x32Config.enabled}
+                />
+                <span className="text-sm text-muted-foreground">Only count mics with signal above</span>
+                <input
+                  type="number"
+                  min={-90}
+                  max={0}
+                  value={x32Config.signalThresholdDb}
+                  onChange={(event) =>
+                    setX32Config({ signalThresholdDb: Math.min(0, Math.max(-90, Number(event.target.value) || 0)) })
+                  }
+                  className="w-20 rounded-md border border-border/60 bg-transparent px-2 py-1 text-sm text-foreground"
+                  disabled={!x32Config.enabled || !x32Config.requireSignal}
+                  aria-label="Signal threshold in dBFS"
+                />
+                <span className="text-sm text-muted-foreground">dBFS</span>
+              </div>
+              <div className="mt-3 flex flex-wrap items-center gap-3">
+                <Switch
+                  checked={x32Config.showMeters}
+                  onCheckedChange={(value) => setX32Config({ showMeters: value })}
+                  disabled={!x32Config.enabled}
+                />
+                <span className="text-sm text-muted-foreground">Show input level meters under the clock</span>
+              </div>
+              <label className="mt-4 flex flex-col gap-1 text-sm text-muted-foreground">
+                Buses to report (comma separated)
+                <input
+                  key={x32Config.buses.join(",")}
+                  defaultValue={x32Config.buses.join(", ")}
+                  onBlur={(event) => setX32Config({ buses: parseX32Buses(event.target.value) })}
+                  className="rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground"
+                  placeholder="1, 2"
+                  disabled={!x32Config.enabled}
+                />
+              </label>
+              {x32State.mixer && x32State.mixer.buses.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2 text-xs text-muted-foreground">
+                  {x32State.mixer.buses.map((bus) => (
+                    <span key={bus.number} className="rounded-full bg-foreground/10 px-2 py-0.5">
+                      {formatX32Strip("bus", bus.number)} {bus.on ? `${Math.round(bus.fader * 100)}%` : "muted"}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div className="mt-8 border-t border-border/60 pt-6">
@@ -1476,6 +2028,16 @@ const StudioClock = () => {
                 or 1/0.
               </div>
             </div>
+
+            <IndicatorRulesPanel
+              {...userIndicators}
+              micOptions={x32Config.inputs.map((input) => ({
+                value: micTarget(input),
+                label: formatX32Input(input, x32State.mixer),
+              }))}
+              segmentTypes={segmentTypes}
+              activeIds={indicatorStates.filter((state) => state.active).map((state) => state.definition.id)}
+            />
           </div>
           <div className="w-full max-w-[720px] rounded-xl border border-border/60 bg-card/60 p-4 shadow-sm backdrop-blur">
             <div className="mb-3 text-xs uppercase tracking-[0.3em] text-muted-foreground">Live preview</div>
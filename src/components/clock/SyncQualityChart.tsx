@@ -0,0 +1,81 @@
+import { useMemo } from "react";
+import { format } from "date-fns";
+import { CartesianGrid, ComposedChart, Line, Scatter, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { ClockSyncSample } from "@/lib/clockSync";
+
+type SyncQualityChartProps = {
+  history: ClockSyncSample[];
+  className?: string;
+};
+
+const chartConfig = {
+  offset: { label: "Offset (ms)", color: "hsl(199 89% 48%)" },
+  rtt: { label: "Round trip (ms)", color: "hsl(142 71% 45%)" },
+  rejected: { label: "Rejected (ms)", color: "hsl(350 89% 60%)" },
+} satisfies ChartConfig;
+
+const roundMs = (value: number) => Math.round(value * 10) / 10;
+
+const SyncQualityChart = ({ history, className }: SyncQualityChartProps) => {
+  const data = useMemo(
+    () =>
+      history.map((sample) => ({
+        time: format(sample.at, "HH:mm:ss"),
+        offset: sample.accepted ? roundMs(sample.offsetMs) : null,
+        rejected: sample.accepted ? null : roundMs(sample.offsetMs),
+        rtt: sample.rttMs != null ? roundMs(sample.rttMs) : null,
+      })),
+    [history],
+  );
+
+  if (data.length === 0) {
+    return <div className="text-xs text-muted-foreground">No sync samples yet.</div>;
+  }
+
+  const rejectedCount = history.filter((sample) => !sample.accepted).length;
+
+  return (
+    <div className={className}>
+      <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+        <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+          <CartesianGrid vertical={false} strokeDasharray="3 3" />
+          <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={24} />
+          <YAxis yAxisId="offset" tickLine={false} axisLine={false} width={44} />
+          <YAxis yAxisId="rtt" orientation="right" tickLine={false} axisLine={false} width={36} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line
+            yAxisId="offset"
+            dataKey="offset"
+            type="monotone"
+            stroke="var(--color-offset)"
+            strokeWidth={2}
+            dot={false}
+            connectNulls
+            isAnimationActive={false}
+          />
+          <Line
+            yAxisId="rtt"
+            dataKey="rtt"
+            type="monotone"
+            stroke="var(--color-rtt)"
+            strokeWidth={1}
+            strokeDasharray="4 3"
+            dot={false}
+            connectNulls
+            isAnimationActive={false}
+          />
+          <Scatter yAxisId="offset" dataKey="rejected" fill="var(--color-rejected)" isAnimationActive={false} />
+        </ComposedChart>
+      </ChartContainer>
+      <div className="mt-1 flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {history.length} samples • {rejectedCount} rejected as outliers
+        </span>
+        <span>Offset left • round trip right</span>
+      </div>
+    </div>
+  );
+};
+
+export default SyncQualityChart;
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { timeOfDayTimecode, type FrameRateId } from "@/lib/timecode";
+import DigitalDisplay from "./DigitalDisplay";
+
+interface TimecodeDisplayProps {
+  frameRate: FrameRateId;
+  offsetFrames: number;
+  clockOffsetMs: number;
+  className?: string;
+}
+
+// Runs its own animation-frame loop so frames advance at the full rate without
+// re-rendering the whole clock face every frame.
+const TimecodeDisplay = ({ frameRate, offsetFrames, clockOffsetMs, className = "" }: TimecodeDisplayProps) => {
+  const [timecode, setTimecode] = useState(() =>
+    timeOfDayTimecode(new Date(Date.now() + clockOffsetMs), frameRate, offsetFrames),
+  );
+
+  useEffect(() => {
+    let frameId = 0;
+    const update = () => {
+      setTimecode(timeOfDayTimecode(new Date(Date.now() + clockOffsetMs), frameRate, offsetFrames));
+      frameId = window.requestAnimationFrame(update);
+    };
+    update();
+    return () => window.cancelAnimationFrame(frameId);
+  }, [clockOffsetMs, frameRate, offsetFrames]);
+
+  return <DigitalDisplay time={timecode} className={className} />;
+};
+
+export default TimecodeDisplay;
@@ -0,0 +1,44 @@
+import { cn } from "@/lib/utils";
+import { formatZonedTime, getZoneAbbreviation, getZoneDayOffset, type WorldClockEntry } from "@/lib/timeZones";
+
+interface WorldClockStripProps {
+  now: Date;
+  clocks: WorldClockEntry[];
+  size?: "sm" | "md";
+  className?: string;
+}
+
+const sizeClasses: Record<NonNullable<WorldClockStripProps["size"]>, { label: string; time: string }> = {
+  sm: { label: "text-[10px] tracking-[0.25em]", time: "text-lg" },
+  md: { label: "text-xs tracking-[0.3em]", time: "text-2xl sm:text-3xl" },
+};
+
+const WorldClockStrip = ({ now, clocks, size = "md", className }: WorldClockStripProps) => {
+  if (clocks.length === 0) return null;
+  const styles = sizeClasses[size];
+
+  return (
+    <div className={cn("flex flex-wrap items-start justify-center gap-x-8 gap-y-3", className)}>
+      {clocks.map((clock) => {
+        const dayOffset = getZoneDayOffset(now, clock.timeZone);
+        const abbreviation = clock.abbreviation?.trim() || getZoneAbbreviation(now, clock.timeZone);
+        return (
+          <div key={clock.id} className="flex flex-col items-center text-center">
+            <div className={cn("uppercase text-muted-foreground", styles.label)}>
+              {clock.label || clock.timeZone}
+            </div>
+            <div className={cn("font-semibold tabular-nums text-foreground", styles.time)}>
+              {formatZonedTime(now, clock.timeZone)}
+            </div>
+            <div className={cn("uppercase text-muted-foreground/80", styles.label)}>
+              {abbreviation}
+              {dayOffset !== 0 ? ` • ${dayOffset > 0 ? "+" : ""}${dayOffset}d` : ""}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WorldClockStrip;
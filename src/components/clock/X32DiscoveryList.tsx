@@ -0,0 +1,69 @@
+import { Loader2, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { useX32Discovery } from "@/hooks/useX32Discovery";
+import { formatX32Mixer, type X32DiscoveredMixer } from "@/lib/x32";
+
+type X32DiscoveryListProps = ReturnType<typeof useX32Discovery> & {
+  /** Port the broadcast is sent to. */
+  port: number;
+  /** Host currently configured, marked in the results. */
+  host: string;
+  onSelect: (mixer: X32DiscoveredMixer) => void;
+  disabled?: boolean;
+};
+
+/** Discover button and the desks that answered it; picking one fills in the host and port. */
+const X32DiscoveryList = ({
+  discovery,
+  discover,
+  canDiscover,
+  port,
+  host,
+  onSelect,
+  disabled,
+}: X32DiscoveryListProps) => {
+  const searching = discovery.status === "searching";
+
+  return (
+    <div className="mt-3 flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => void discover(port)}
+          disabled={disabled || !canDiscover || searching}
+        >
+          {searching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+          Discover
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          {!canDiscover
+            ? "Discovery needs the desktop app."
+            : discovery.status === "error"
+              ? `Error: ${discovery.error}`
+              : discovery.status === "done" && discovery.mixers.length === 0
+                ? "No desks answered."
+                : "Looks for X32 and M32 desks on the local network."}
+        </span>
+      </div>
+      {discovery.mixers.map((mixer) => {
+        const selected = mixer.host === host.trim();
+        return (
+          <button
+            key={`${mixer.host}:${mixer.port}`}
+            type="button"
+            onClick={() => onSelect(mixer)}
+            disabled={disabled}
+            className={`rounded-md border px-3 py-2 text-left text-sm ${selected ? "border-primary text-foreground" : "border-border/60 text-muted-foreground hover:text-foreground"}`}
+          >
+            {formatX32Mixer(mixer)}
+            {selected && <span className="ml-2 text-xs text-muted-foreground">Selected</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default X32DiscoveryList;
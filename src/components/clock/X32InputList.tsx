@@ -0,0 +1,114 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  X32_INPUT_COUNTS,
+  findX32Strip,
+  formatX32Input,
+  isSameX32Input,
+  x32ColorToCss,
+  type X32Input,
+  type X32InputKind,
+  type X32MixerPayload,
+} from "@/lib/x32";
+
+type X32InputListProps = {
+  inputs: X32Input[];
+  onChange: (inputs: X32Input[]) => void;
+  /** Inputs that are live right now, marked in the list. */
+  liveInputs?: X32Input[];
+  /** Latest desk state; supplies the scribble-strip names and colours. */
+  mixer?: X32MixerPayload | null;
+  disabled?: boolean;
+};
+
+const FIELD_CLASS = "rounded-md border border-border/60 bg-transparent px-2 py-2 text-sm text-foreground";
+
+const clampNumber = (kind: X32InputKind, value: number) =>
+  Math.min(X32_INPUT_COUNTS[kind], Math.max(1, Math.round(value) || 1));
+
+/** The first channel after the last listed one that is not already in the list. */
+const nextInput = (inputs: X32Input[]): X32Input => {
+  const last = inputs[inputs.length - 1];
+  const kind = last?.kind ?? "ch";
+  for (let offset = 1; offset <= X32_INPUT_COUNTS[kind]; offset += 1) {
+    const number = (((last?.number ?? 0) + offset - 1) % X32_INPUT_COUNTS[kind]) + 1;
+    if (!inputs.some((input) => isSameX32Input(input, { kind, number }))) return { kind, number, label: "" };
+  }
+  return { kind, number: 1, label: "" };
+};
+
+/** Editable list of the X32 inputs that carry microphones. */
+const X32InputList = ({ inputs, onChange, liveInputs = [], mixer = null, disabled }: X32InputListProps) => {
+  const update = (index: number, next: Partial<X32Input>) => {
+    onChange(inputs.map((input, position) => (position === index ? { ...input, ...next } : input)));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {inputs.map((input, index) => {
+        const live = liveInputs.some((entry) => isSameX32Input(entry, input));
+        const color = x32ColorToCss(findX32Strip(input, mixer)?.color ?? 0);
+        return (
+          <div key={index} className="grid grid-cols-[6rem_5rem_1fr_auto] items-center gap-2">
+            <select
+              value={input.kind}
+              onChange={(event) => {
+                const kind = event.target.value === "auxin" ? "auxin" : "ch";
+                update(index, { kind, number: clampNumber(kind, input.number) });
+              }}
+              className={FIELD_CLASS}
+              disabled={disabled}
+              aria-label="Input type"
+            >
+              <option value="ch">Channel</option>
+              <option value="auxin">Aux in</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={X32_INPUT_COUNTS[input.kind]}
+              value={input.number}
+              onChange={(event) => update(index, { number: clampNumber(input.kind, Number(event.target.value)) })}
+              className={FIELD_CLASS}
+              disabled={disabled}
+              aria-label="Input number"
+            />
+            <input
+              value={input.label}
+              onChange={(event) => update(index, { label: event.target.value })}
+              className={`${FIELD_CLASS} ${live ? "border-rose-500/70" : ""}`}
+              style={color ? { borderLeftColor: color, borderLeftWidth: 4 } : undefined}
+              placeholder={formatX32Input({ ...input, label: "" }, mixer)}
+              disabled={disabled}
+              aria-label="Label"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(inputs.filter((_, position) => position !== index))}
+              disabled={disabled}
+              title="Remove input"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...inputs, nextInput(inputs)])}
+          disabled={disabled}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add input
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default X32InputList;
@@ -0,0 +1,74 @@
+import { cn } from "@/lib/utils";
+import {
+  X32_METER_FLOOR_DB,
+  formatX32Input,
+  isSameX32Input,
+  x32LevelToDb,
+  type X32Input,
+  type X32MeterFrame,
+  type X32MixerPayload,
+} from "@/lib/x32";
+
+interface X32LevelMetersProps {
+  inputs: X32Input[];
+  frame: X32MeterFrame | null;
+  mixer: X32MixerPayload | null;
+  liveInputs: X32Input[];
+  size?: "sm" | "md";
+  className?: string;
+}
+
+const sizeClasses: Record<NonNullable<X32LevelMetersProps["size"]>, { label: string; bar: string; width: string }> = {
+  sm: { label: "text-[10px] tracking-[0.2em]", bar: "h-1.5", width: "w-24" },
+  md: { label: "text-xs tracking-[0.25em]", bar: "h-2", width: "w-32" },
+};
+
+/** Share of the meter filled by a linear level, from the floor up to full scale. */
+const meterFill = (level: number) => {
+  const db = x32LevelToDb(level);
+  if (db <= X32_METER_FLOOR_DB) return 0;
+  return Math.min(1, 1 - db / X32_METER_FLOOR_DB);
+};
+
+const meterColor = (level: number) => {
+  const db = x32LevelToDb(level);
+  if (db >= -6) return "bg-rose-500";
+  if (db >= -18) return "bg-amber-400";
+  return "bg-emerald-500";
+};
+
+/** Compact input meters: the faint bar is the level before the fader, the solid bar what goes out after it. */
+const X32LevelMeters = ({ inputs, frame, mixer, liveInputs, size = "md", className }: X32LevelMetersProps) => {
+  if (!frame || inputs.length === 0) return null;
+  const styles = sizeClasses[size];
+
+  return (
+    <div className={cn("flex flex-wrap items-center justify-center gap-x-6 gap-y-2", className)}>
+      {inputs.map((input) => {
+        const meter = frame.inputs.find((entry) => isSameX32Input(entry, input));
+        const live = liveInputs.some((entry) => isSameX32Input(entry, input));
+        const pre = meter?.pre ?? 0;
+        const post = meter?.post ?? 0;
+        return (
+          <div key={`${input.kind}/${input.number}`} className="flex flex-col gap-1">
+            <div className={cn("truncate uppercase", styles.label, styles.width, live ? "text-rose-400" : "text-muted-foreground")}>
+              {formatX32Input(input, mixer)}
+            </div>
+            <div className={cn("relative overflow-hidden rounded-full bg-muted", styles.bar, styles.width)}>
+              <div
+                className={cn("absolute inset-y-0 left-0 opacity-30", meterColor(pre))}
+                style={{ width: `${meterFill(pre) * 100}%` }}
+              />
+              <div
+                className={cn("absolute inset-y-0 left-0", meterColor(post))}
+                style={{ width: `${meterFill(post) * 100}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default X32LevelMeters;
@@ -0,0 +1,34 @@
+import AnalogClockFace from "../AnalogClockFace";
+import DdrCountdown from "../DdrCountdown";
+import type { WatchfaceProps } from "./types";
+
+const AnalogFace = ({ time, clockOffsetMs, size, showSecondsRing, logo, ddr, settings }: WatchfaceProps) => (
+  <div className="relative flex w-full items-center justify-center">
+    <div className="relative flex items-center justify-center" style={{ width: size, height: size }}>
+      <AnalogClockFace
+        time={time}
+        size={size}
+        secondHand={settings.secondHand === "tick" ? "tick" : "sweep"}
+        clockOffsetMs={clockOffsetMs}
+        showSecondsRing={showSecondsRing}
+      />
+
+      {logo && (
+        <img
+          src={logo.src}
+          alt="Studio logo"
+          className={`absolute top-[24%] left-1/2 -translate-x-1/2 ${logo.className}`}
+          style={logo.invert ? { filter: "invert(1)" } : undefined}
+        />
+      )}
+
+      {ddr && (
+        <div className="absolute top-1/2 -translate-y-1/2" style={{ left: `calc(100% + ${ddr.gap}px)` }}>
+          <DdrCountdown label={ddr.label} seconds={ddr.seconds} active={ddr.active} size="lg" />
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+export default AnalogFace;
@@ -0,0 +1,62 @@
+import SecondsRing from "../SecondsRing";
+import DdrCountdown from "../DdrCountdown";
+import type { WatchfaceProps } from "./types";
+
+const ClassicFace = ({
+  time,
+  size,
+  renderTime,
+  timeClassName,
+  standaloneTimeClassName,
+  showSecondsRing,
+  logo,
+  ddr,
+}: WatchfaceProps) => {
+  const ddrCountdown = ddr && (
+    <div className="absolute top-1/2 -translate-y-1/2" style={{ left: `calc(100% + ${ddr.gap}px)` }}>
+      <DdrCountdown label={ddr.label} seconds={ddr.seconds} active={ddr.active} size="lg" />
+    </div>
+  );
+
+  if (showSecondsRing) {
+    return (
+      <div className="relative flex w-full items-center justify-center">
+        <div className="relative flex items-center justify-center" style={{ width: size, height: size }}>
+          <SecondsRing currentSecond={time.getSeconds()} size={size} />
+
+          {logo && (
+            <img
+              src={logo.src}
+              alt="Studio logo"
+              className={`absolute top-[18%] left-1/2 -translate-x-1/2 ${logo.className}`}
+              style={logo.invert ? { filter: "invert(1)" } : undefined}
+            />
+          )}
+
+          <div className="absolute inset-0 flex items-center justify-center">{renderTime(timeClassName)}</div>
+          {ddrCountdown}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex w-full items-center justify-center">
+      <div className="relative inline-flex flex-col items-center gap-4">
+        {logo && (
+          <img
+            src={logo.src}
+            alt="Logo"
+            className={logo.className}
+            style={logo.invert ? { filter: "invert(1)" } : undefined}
+          />
+        )}
+
+        {renderTime(standaloneTimeClassName)}
+        {ddrCountdown}
+      </div>
+    </div>
+  );
+};
+
+export default ClassicFace;
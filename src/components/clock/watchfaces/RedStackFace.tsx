@@ -0,0 +1,34 @@
+import DdrCountdown from "../DdrCountdown";
+import type { WatchfaceProps } from "./types";
+
+const RedStackFace = ({ renderTime, standaloneTimeClassName, timeWidthClassName, logo, ddr, settings }: WatchfaceProps) => {
+  const ddrOffsetX = Number(settings.ddrOffsetX);
+
+  return (
+    <div className="relative flex w-full items-center justify-center">
+      <div className="relative inline-flex flex-col items-center gap-4 pb-28">
+        {logo && (
+          <img
+            src={logo.src}
+            alt="Logo"
+            className={logo.className}
+            style={logo.invert ? { filter: "invert(1)" } : undefined}
+          />
+        )}
+        <div className={`flex ${timeWidthClassName} justify-center`}>
+          {renderTime(`${standaloneTimeClassName} ${timeWidthClassName} text-center`)}
+        </div>
+        {ddr && (
+          <div
+            className="absolute left-1/2 top-full mt-3"
+            style={{ transform: `translate(calc(-50% + ${ddrOffsetX}px), 0)` }}
+          >
+            <DdrCountdown label={ddr.label} seconds={ddr.seconds} active={ddr.active} size="xl" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RedStackFace;
@@ -0,0 +1,72 @@
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import type { WatchfaceSettingField, WatchfaceSettingValue, WatchfaceSettingValues } from "./types";
+
+type WatchfaceSettingsFieldsProps = {
+  fields: WatchfaceSettingField[];
+  values: WatchfaceSettingValues;
+  onChange: (key: string, value: WatchfaceSettingValue) => void;
+};
+
+const WatchfaceSettingsFields = ({ fields, values, onChange }: WatchfaceSettingsFieldsProps) => {
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="mt-4 grid gap-3">
+      {fields.map((field) => {
+        const value = values[field.key] ?? field.default;
+        switch (field.type) {
+          case "number":
+            return (
+              <label key={field.key} className="flex flex-col gap-1 text-sm text-muted-foreground">
+                {field.label} ({value}
+                {field.unit ?? ""})
+                <input
+                  type="range"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step ?? 1}
+                  value={Number(value)}
+                  onChange={(event) => onChange(field.key, Number(event.target.value))}
+                  className="w-full"
+                />
+                {field.description && <span className="text-xs">{field.description}</span>}
+              </label>
+            );
+          case "select":
+            return (
+              <div key={field.key} className="flex flex-col gap-1">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-sm text-muted-foreground">{field.label}</span>
+                  {field.options.map((option) => (
+                    <Button
+                      key={option.value}
+                      type="button"
+                      size="sm"
+                      variant={value === option.value ? "default" : "outline"}
+                      onClick={() => onChange(field.key, option.value)}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+                {field.description && <span className="text-xs text-muted-foreground">{field.description}</span>}
+              </div>
+            );
+          case "boolean":
+            return (
+              <div key={field.key} className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="text-sm text-foreground">{field.label}</div>
+                  {field.description && <div className="text-xs text-muted-foreground">{field.description}</div>}
+                </div>
+                <Switch checked={value === true} onCheckedChange={(checked) => onChange(field.key, checked)} />
+              </div>
+            );
+        }
+      })}
+    </div>
+  );
+};
+
+export default WatchfaceSettingsFields;
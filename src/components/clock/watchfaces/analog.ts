@@ -0,0 +1,22 @@
+import AnalogFace from "./AnalogFace";
+import type { WatchfaceDefinition } from "./types";
+
+export const analogWatchface: WatchfaceDefinition = {
+  id: "analog",
+  label: "Analog",
+  description: "Traditional studio clock with hour markers and a red second hand.",
+  settings: [
+    {
+      type: "select",
+      key: "secondHand",
+      label: "Second hand",
+      options: [
+        { value: "sweep", label: "Sweep" },
+        { value: "tick", label: "Tick" },
+      ],
+      default: "sweep",
+    },
+  ],
+  supportsSecondsRing: true,
+  Component: AnalogFace,
+};
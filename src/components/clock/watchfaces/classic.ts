@@ -0,0 +1,11 @@
+import ClassicFace from "./ClassicFace";
+import type { WatchfaceDefinition } from "./types";
+
+export const classicWatchface: WatchfaceDefinition = {
+  id: "classic",
+  label: "Classic",
+  description: "LED seconds ring around a digital clock, DDR countdown to the right.",
+  settings: [],
+  supportsSecondsRing: true,
+  Component: ClassicFace,
+};
@@ -0,0 +1,45 @@
+import { analogWatchface } from "./analog";
+import { classicWatchface } from "./classic";
+import { redStackWatchface } from "./redStack";
+import type { WatchfaceDefinition, WatchfaceSettingField, WatchfaceSettingValues } from "./types";
+
+export type * from "./types";
+
+/**
+ * Faces offered in Settings, in display order. A station-specific face is a module exporting a
+ * WatchfaceDefinition; add it here and its settings schema gets controls automatically.
+ */
+export const WATCHFACES: WatchfaceDefinition[] = [classicWatchface, redStackWatchface, analogWatchface];
+
+export const DEFAULT_WATCHFACE_ID = classicWatchface.id;
+
+export const getWatchface = (id: string | null | undefined) =>
+  WATCHFACES.find((face) => face.id === id) ?? classicWatchface;
+
+export const isWatchfaceId = (value: unknown): value is string =>
+  typeof value === "string" && WATCHFACES.some((face) => face.id === value);
+
+const resolveField = (field: WatchfaceSettingField, value: unknown) => {
+  switch (field.type) {
+    case "number": {
+      if (typeof value !== "number" || !Number.isFinite(value)) return field.default;
+      return Math.min(field.max, Math.max(field.min, value));
+    }
+    case "select":
+      return field.options.some((option) => option.value === value) ? (value as string) : field.default;
+    case "boolean":
+      return typeof value === "boolean" ? value : field.default;
+  }
+};
+
+/** Fills in defaults and drops or clamps stored values that no longer fit the face's schema. */
+export const resolveWatchfaceSettings = (
+  face: WatchfaceDefinition,
+  stored: Record<string, unknown> | null | undefined,
+): WatchfaceSettingValues => {
+  const values: WatchfaceSettingValues = {};
+  face.settings.forEach((field) => {
+    values[field.key] = resolveField(field, stored?.[field.key]);
+  });
+  return values;
+};
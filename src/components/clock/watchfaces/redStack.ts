@@ -0,0 +1,25 @@
+import RedStackFace from "./RedStackFace";
+import type { WatchfaceDefinition } from "./types";
+
+export const RED_FACE_DDR_OFFSET_DEFAULT = 42;
+
+export const redStackWatchface: WatchfaceDefinition = {
+  id: "red-stack",
+  label: "Red stacked",
+  description: "Large digits without a seconds ring, DDR countdown stacked under the clock.",
+  settings: [
+    {
+      type: "number",
+      key: "ddrOffsetX",
+      label: "DDR nudge",
+      min: -160,
+      max: 160,
+      step: 1,
+      unit: "px",
+      default: RED_FACE_DDR_OFFSET_DEFAULT,
+    },
+  ],
+  supportsSecondsRing: false,
+  layout: { offsetX: -42, adornmentOffsetX: 42 },
+  Component: RedStackFace,
+};
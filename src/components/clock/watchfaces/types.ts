@@ -0,0 +1,67 @@
+import type { ComponentType, ReactNode } from "react";
+import type { IndicatorFlash, IndicatorPlacement } from "@/lib/indicators";
+
+type SettingFieldBase = {
+  key: string;
+  label: string;
+  description?: string;
+};
+
+export type WatchfaceSettingField =
+  | (SettingFieldBase & { type: "number"; min: number; max: number; step?: number; unit?: string; default: number })
+  | (SettingFieldBase & { type: "select"; options: { value: string; label: string }[]; default: string })
+  | (SettingFieldBase & { type: "boolean"; default: boolean });
+
+export type WatchfaceSettingValue = number | string | boolean;
+export type WatchfaceSettingValues = Record<string, WatchfaceSettingValue>;
+
+export type WatchfaceIndicator = {
+  id: string;
+  label: string;
+  /** live = on air / recording, safe = armed but quiet, idle = unknown or inactive. */
+  tone: "live" | "safe" | "idle";
+  /** Colours of a user-defined indicator; built-in ones use the tone's colours. */
+  colors?: { background: string; text: string };
+  /** Applies while the indicator is live. */
+  flash?: IndicatorFlash;
+  /** Above the face when unset. */
+  placement?: IndicatorPlacement;
+};
+
+/** Everything a face may draw. Faces pick what they need and ignore the rest. */
+export type WatchfaceProps = {
+  time: Date;
+  /** Offset applied to the local clock, for faces that run their own animation loop. */
+  clockOffsetMs: number;
+  size: number;
+  compact: boolean;
+  /** Renders the digital time (or timecode, when enabled) with the given text classes. */
+  renderTime: (className: string) => ReactNode;
+  timeClassName: string;
+  standaloneTimeClassName: string;
+  timeWidthClassName: string;
+  showSecondsRing: boolean;
+  logo: { src: string; invert: boolean; className: string } | null;
+  ddr: { label: string; seconds: number | null; active: boolean; gap: number } | null;
+  indicators: WatchfaceIndicator[];
+  date: string | null;
+  settings: WatchfaceSettingValues;
+};
+
+export type WatchfaceDefinition = {
+  id: string;
+  label: string;
+  description: string;
+  settings: WatchfaceSettingField[];
+  /** Whether the Display menu's seconds ring toggle applies to this face. */
+  supportsSecondsRing: boolean;
+  /**
+   * Horizontal corrections for faces whose visual centre is not the DOM centre. A fixed
+   * offset replaces the user's horizontal shift; adornments (title, date, world clocks) get
+   * the opposite nudge so they stay centred over the face.
+   */
+  layout?: { offsetX: number; adornmentOffsetX: number };
+  /** Set when the face draws the indicator pills and date itself. */
+  ownsAdornments?: boolean;
+  Component: ComponentType<WatchfaceProps>;
+};
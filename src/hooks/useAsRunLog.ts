@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  EMPTY_AS_RUN_LOG,
+  appendEntry,
+  beginShow,
+  type AsRunEntry,
+  type AsRunEvent,
+  type AsRunLog,
+  type AsRunShow,
+} from "@/lib/asRunLog";
+
+const STORAGE_KEY = "studio_timepiece_as_run_v1";
+// Storage events only reach other windows; this tells other hook instances in the same window.
+const LOCAL_CHANGE_EVENT = "studio-timepiece-as-run-change";
+
+const readStoredLog = (): AsRunLog => {
+  if (typeof window === "undefined") return EMPTY_AS_RUN_LOG;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_AS_RUN_LOG;
+    const parsed = JSON.parse(raw) as Partial<AsRunLog>;
+    const shows = Array.isArray(parsed.shows)
+      ? parsed.shows.filter(
+          (show): show is AsRunShow => typeof show?.id === "string" && typeof show.startedAt === "number",
+        )
+      : [];
+    const entries = Array.isArray(parsed.entries)
+      ? parsed.entries.filter(
+          (entry): entry is AsRunEntry =>
+            typeof entry?.id === "string" && typeof entry.showId === "string" && typeof entry.at === "number",
+        )
+      : [];
+    return {
+      currentShowId: typeof parsed.currentShowId === "string" ? parsed.currentShowId : null,
+      shows,
+      entries,
+    };
+  } catch {
+    return EMPTY_AS_RUN_LOG;
+  }
+};
+
+// Read-modify-write against storage rather than React state, so several windows and components
+// can log without overwriting each other's entries.
+const updateStoredLog = (update: (log: AsRunLog) => AsRunLog) => {
+  const current = readStoredLog();
+  const next = update(current);
+  if (next === current) return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // ignore storage errors
+  }
+  window.dispatchEvent(new Event(LOCAL_CHANGE_EVENT));
+};
+
+const defaultShowName = (at: number) => `Studio ${format(at, "yyyy-MM-dd")}`;
+
+export const useAsRunLog = () => {
+  const [log, setLog] = useState<AsRunLog>(() => readStoredLog());
+
+  useEffect(() => {
+    const refresh = () => setLog(readStoredLog());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== STORAGE_KEY) return;
+      refresh();
+    };
+    window.addEventListener("storage", handleStorage);
+    window.addEventListener(LOCAL_CHANGE_EVENT, refresh);
+    return () => {
+      window.removeEventListener("storage", handleStorage);
+      window.removeEventListener(LOCAL_CHANGE_EVENT, refresh);
+    };
+  }, []);
+
+  const logEvent = useCallback((event: AsRunEvent, at: Date | number = Date.now()) => {
+    const timestamp = typeof at === "number" ? at : at.getTime();
+    updateStoredLog((prev) => appendEntry(prev, event, timestamp, defaultShowName(timestamp)));
+  }, []);
+
+  /** Switches logging to the named show, reusing the show of the same name and show date. */
+  const selectShow = useCallback((name: string | null, showDate: string, at: Date | number = Date.now()) => {
+    const timestamp = typeof at === "number" ? at : at.getTime();
+    updateStoredLog((prev) => beginShow(prev, name || defaultShowName(timestamp), timestamp, { showDate }));
+  }, []);
+
+  const startNewShow = useCallback((name: string | null, at: Date | number = Date.now()) => {
+    const timestamp = typeof at === "number" ? at : at.getTime();
+    updateStoredLog((prev) => beginShow(prev, name || defaultShowName(timestamp), timestamp, { forceNew: true }));
+  }, []);
+
+  const deleteShow = useCallback((showId: string) => {
+    updateStoredLog((prev) => ({
+      currentShowId: prev.currentShowId === showId ? null : prev.currentShowId,
+      shows: prev.shows.filter((show) => show.id !== showId),
+      entries: prev.entries.filter((entry) => entry.showId !== showId),
+    }));
+  }, []);
+
+  return { log, logEvent, selectShow, startNewShow, deleteShow };
+};
@@ -1,5 +1,9 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { invoke } from "@tauri-apps/api/core";
+import { z } from "zod";
+import { useStoredSetting } from "@/hooks/useStoredSetting";
+import { defineSetting } from "@/lib/settingsStore";
+import { isTauri } from "@/lib/tauri";
 
 type CasparCgConfig = {
   enabled: boolean;
@@ -30,43 +34,28 @@ const DEFAULT_CONFIG: CasparCgConfig = {
   templateRootPath: "",
 };
 
-const isTauri = () => {
-  if (typeof window === "undefined") return false;
-  const globals = window as unknown as { __TAURI__?: unknown; __TAURI_INTERNALS__?: unknown };
-  return Boolean(globals.__TAURI__ || globals.__TAURI_INTERNALS__);
-};
-
-const readStoredConfig = (): CasparCgConfig => {
-  if (typeof window === "undefined") return DEFAULT_CONFIG;
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return DEFAULT_CONFIG;
-    const parsed = JSON.parse(raw) as Partial<CasparCgConfig>;
-    return {
-      enabled: parsed.enabled ?? DEFAULT_CONFIG.enabled,
-      host: parsed.host ?? DEFAULT_CONFIG.host,
-      port: parsed.port ?? DEFAULT_CONFIG.port,
-      channel: parsed.channel ?? DEFAULT_CONFIG.channel,
-      layer: parsed.layer ?? DEFAULT_CONFIG.layer,
-      template: parsed.template ?? DEFAULT_CONFIG.template,
-      data: parsed.data ?? DEFAULT_CONFIG.data,
-      templateRootPath: parsed.templateRootPath ?? DEFAULT_CONFIG.templateRootPath,
-    };
-  } catch {
-    return DEFAULT_CONFIG;
-  }
-};
+const casparCgSetting = defineSetting<CasparCgConfig>({
+  key: STORAGE_KEY,
+  label: "CasparCG",
+  version: 1,
+  schema: z.object({
+    enabled: z.boolean(),
+    host: z.string(),
+    port: z.number().int().min(1).max(65535),
+    channel: z.number().int().min(1),
+    layer: z.number().int().min(0),
+    template: z.string(),
+    data: z.string(),
+    templateRootPath: z.string(),
+  }),
+  defaults: DEFAULT_CONFIG,
+});
 
 export const useCasparCg = () => {
-  const [config, setConfigState] = useState<CasparCgConfig>(() => readStoredConfig());
+  const [config, setConfigState] = useStoredSetting(casparCgSetting);
   const [state, setState] = useState<CasparCgState>({ status: "idle" });
   const tauri = isTauri();
 
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
-  }, [config]);
-
   const setConfig = (next: Partial<CasparCgConfig>) => {
     setConfigState((prev) => ({ ...prev, ...next }));
   };
@@ -1,54 +1,180 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { invoke } from "@tauri-apps/api/core";
+import { z } from "zod";
+import { useStoredSetting } from "@/hooks/useStoredSetting";
+import {
+  appendSyncSample,
+  isOutlierSample,
+  shouldStepOffset,
+  slewOffset,
+  type ClockSyncSample,
+  type ClockSyncSampleSource,
+} from "@/lib/clockSync";
+import { defineSetting } from "@/lib/settingsStore";
+import { isTauri } from "@/lib/tauri";
 
-export type ClockSource = "local" | "world";
+export type ClockSource = "local" | "world" | "ntp";
+
+export type ClockSyncQuality = {
+  server: string | null;
+  offsetMs: number;
+  delayMs: number | null;
+  stratum: number | null;
+  lastSync: Date;
+};
 
 type ClockState = {
   source: ClockSource;
   now: Date;
   statusLabel: string;
   lastSync: Date | null;
+  sync: ClockSyncQuality | null;
+  /** The last sync attempts failed; the clock keeps the offset from the last good one. */
+  stale: boolean;
+  history: ClockSyncSample[];
+  appliedOffsetMs: number;
+  targetOffsetMs: number;
+  ntpServers: string[];
   setSource: (next: ClockSource) => void;
+  setNtpServers: (next: string[]) => void;
+};
+
+type NtpSamplePayload = {
+  server: string;
+  offset_ms: number;
+  delay_ms: number;
+  stratum: number;
+  sampled_at: number;
 };
 
 const STORAGE_KEY = "studio_timepiece_clock_source_v1";
+const NTP_STORAGE_KEY = "studio_timepiece_clock_ntp_v1";
 const RESYNC_MS = 5 * 60 * 1000;
+const NTP_RESYNC_MS = 64 * 1000;
+const NTP_TIMEOUT_MS = 1500;
+const DEFAULT_NTP_SERVERS = ["pool.ntp.org"];
+/** Failed syncs in a row before a synced clock falls back to the computer clock. */
+const MAX_SYNC_FAILURES = 3;
 
-const readStoredSource = (): ClockSource => {
-  if (typeof window === "undefined") return "local";
-  const stored = window.localStorage.getItem(STORAGE_KEY);
-  if (stored === "world" || stored === "local") return stored;
-  return "local";
-};
+const normalizeServers = (servers: string[]) =>
+  servers.map((server) => server.trim()).filter((server, index, list) => server && list.indexOf(server) === index);
+
+const sourceSetting = defineSetting<ClockSource>({
+  key: STORAGE_KEY,
+  label: "Clock source",
+  version: 1,
+  schema: z.enum(["local", "world", "ntp"]),
+  defaults: "local",
+});
+
+const ntpSetting = defineSetting<{ servers: string[] }>({
+  key: NTP_STORAGE_KEY,
+  label: "NTP servers",
+  version: 1,
+  schema: z.object({
+    servers: z
+      .array(z.string())
+      .transform(normalizeServers)
+      .refine((servers) => servers.length > 0, "no NTP servers"),
+  }),
+  defaults: { servers: DEFAULT_NTP_SERVERS },
+});
+
+const formatSignedMs = (value: number) => `${value >= 0 ? "+" : "-"}${Math.abs(value).toFixed(1)} ms`;
+
+const describeNtpSync = (sync: ClockSyncQuality) =>
+  [
+    `NTP ${sync.server ?? ""}`.trim(),
+    `offset ${formatSignedMs(sync.offsetMs)}`,
+    sync.delayMs != null ? `delay ${sync.delayMs.toFixed(1)} ms` : null,
+    sync.stratum != null ? `stratum ${sync.stratum}` : null,
+  ]
+    .filter(Boolean)
+    .join(" • ");
 
 export const useClock = (): ClockState => {
-  const [source, setSourceState] = useState<ClockSource>(() => readStoredSource());
-  const [offsetMs, setOffsetMs] = useState(0);
+  const [source, setSourceState] = useStoredSetting(sourceSetting);
+  const [ntpConfig, setNtpConfig] = useStoredSetting(ntpSetting);
+  const ntpServers = ntpConfig.servers;
+  const [targetOffsetMs, setTargetOffsetMs] = useState(0);
+  const [appliedOffsetMs, setAppliedOffsetMs] = useState(0);
+  const [history, setHistory] = useState<ClockSyncSample[]>([]);
   const [statusLabel, setStatusLabel] = useState("Offline computer clock");
   const [lastSync, setLastSync] = useState<Date | null>(null);
+  const [sync, setSync] = useState<ClockSyncQuality | null>(null);
+  const [stale, setStale] = useState(false);
   const [now, setNow] = useState<Date>(() => new Date());
+  const ntpServersKey = ntpServers.join("\n");
+  const targetOffsetRef = useRef(0);
+  const appliedOffsetRef = useRef(0);
+  const historyRef = useRef<ClockSyncSample[]>([]);
 
   useEffect(() => {
-    window.localStorage.setItem(STORAGE_KEY, source);
-  }, [source]);
+    let interval: number | undefined;
+    let active = true;
+    // Per source: switching sources starts over from the computer clock.
+    let synced = false;
+    let failures = 0;
 
-  useEffect(() => {
-    const handleStorage = (event: StorageEvent) => {
-      if (event.key !== STORAGE_KEY || !event.newValue) return;
-      if (event.newValue === "world" || event.newValue === "local") {
-        setSourceState(event.newValue);
+    const applyTargetOffset = (nextTarget: number, forceStep: boolean) => {
+      targetOffsetRef.current = nextTarget;
+      setTargetOffsetMs(nextTarget);
+      if (forceStep || shouldStepOffset(appliedOffsetRef.current, nextTarget)) {
+        appliedOffsetRef.current = nextTarget;
+        setAppliedOffsetMs(nextTarget);
       }
     };
-    window.addEventListener("storage", handleStorage);
-    return () => window.removeEventListener("storage", handleStorage);
-  }, []);
 
-  useEffect(() => {
-    let interval: number | undefined;
-    let tickTimer: number | undefined;
-    let active = true;
+    // Records the sample and returns whether it was accepted as the new target offset.
+    const recordSample = (
+      sampleSource: ClockSyncSampleSource,
+      server: string | null,
+      measuredOffsetMs: number,
+      rttMs: number | null,
+    ) => {
+      const hadSync = historyRef.current.some((sample) => sample.source === sampleSource && sample.accepted);
+      const candidate = { source: sampleSource, offsetMs: measuredOffsetMs, rttMs };
+      const accepted = !isOutlierSample(historyRef.current, candidate);
+      historyRef.current = appendSyncSample(historyRef.current, {
+        ...candidate,
+        at: Date.now(),
+        server,
+        accepted,
+      });
+      setHistory(historyRef.current);
+      if (accepted) {
+        applyTargetOffset(measuredOffsetMs, !hadSync);
+      }
+      return accepted;
+    };
+
+    const resetToLocal = (label: string) => {
+      applyTargetOffset(0, false);
+      setSync(null);
+      setStale(false);
+      setStatusLabel(label);
+    };
+
+    const markSynced = () => {
+      synced = true;
+      failures = 0;
+      setStale(false);
+    };
+
+    // A short outage keeps the last good offset rather than swinging back to the computer clock.
+    const handleSyncFailure = (label: string) => {
+      failures += 1;
+      if (synced && failures < MAX_SYNC_FAILURES) {
+        setStale(true);
+        return;
+      }
+      synced = false;
+      resetToLocal(label);
+    };
 
     const syncWorldTime = async () => {
       try {
+        const requestedAt = Date.now();
         const response = await fetch("https://worldtimeapi.org/api/ip", { cache: "no-store" });
         if (!response.ok) throw new Error(`WorldTimeAPI ${response.status}`);
         const data = (await response.json()) as { unixtime?: number };
@@ -56,40 +182,115 @@ export const useClock = (): ClockState => {
         const serverMs = data.unixtime * 1000;
         const localMs = Date.now();
         if (!active) return;
-        setOffsetMs(serverMs - localMs);
-        setLastSync(new Date());
+        const syncedAt = new Date();
+        const accepted = recordSample("world", "worldtimeapi.org", serverMs - localMs, localMs - requestedAt);
+        if (!accepted) return;
+        markSynced();
+        setLastSync(syncedAt);
+        setSync({
+          server: "worldtimeapi.org",
+          offsetMs: serverMs - localMs,
+          delayMs: localMs - requestedAt,
+          stratum: null,
+          lastSync: syncedAt,
+        });
         setStatusLabel("World clock");
       } catch {
         if (!active) return;
-        setOffsetMs(0);
-        setStatusLabel("Offline computer clock");
+        handleSyncFailure("Offline computer clock");
+      }
+    };
+
+    const syncNtpTime = async () => {
+      if (!isTauri()) {
+        resetToLocal("NTP needs the desktop app • computer clock");
+        return;
+      }
+      try {
+        const sample = await invoke<NtpSamplePayload>("ntp_query", {
+          servers: ntpServersKey.split("\n"),
+          timeoutMs: NTP_TIMEOUT_MS,
+        });
+        if (!active) return;
+        const accepted = recordSample("ntp", sample.server, sample.offset_ms, sample.delay_ms);
+        if (!accepted) return;
+        markSynced();
+        const syncedAt = new Date(sample.sampled_at);
+        const nextSync: ClockSyncQuality = {
+          server: sample.server,
+          offsetMs: sample.offset_ms,
+          delayMs: sample.delay_ms,
+          stratum: sample.stratum,
+          lastSync: syncedAt,
+        };
+        setLastSync(syncedAt);
+        setSync(nextSync);
+        setStatusLabel(describeNtpSync(nextSync));
+      } catch {
+        if (!active) return;
+        handleSyncFailure("NTP unreachable • computer clock");
       }
     };
 
     if (source === "world") {
       syncWorldTime();
       interval = window.setInterval(syncWorldTime, RESYNC_MS);
+    } else if (source === "ntp") {
+      syncNtpTime();
+      interval = window.setInterval(syncNtpTime, NTP_RESYNC_MS);
     } else {
-      setOffsetMs(0);
+      applyTargetOffset(0, true);
+      setSync(null);
+      setStale(false);
       setStatusLabel("Offline computer clock");
       setLastSync(null);
     }
 
-    tickTimer = window.setInterval(() => {
-      if (!active) return;
-      setNow(new Date(Date.now() + offsetMs));
-    }, 100);
-
     return () => {
       active = false;
       if (interval) window.clearInterval(interval);
-      if (tickTimer) window.clearInterval(tickTimer);
     };
-  }, [source, offsetMs]);
+  }, [source, ntpServersKey]);
+
+  useEffect(() => {
+    let lastTick = Date.now();
+    const tickTimer = window.setInterval(() => {
+      const localMs = Date.now();
+      const applied = slewOffset(appliedOffsetRef.current, targetOffsetRef.current, localMs - lastTick);
+      lastTick = localMs;
+      if (applied !== appliedOffsetRef.current) {
+        appliedOffsetRef.current = applied;
+        setAppliedOffsetMs(applied);
+      }
+      setNow(new Date(localMs + applied));
+    }, 100);
+    return () => window.clearInterval(tickTimer);
+  }, []);
 
   const setSource = (next: ClockSource) => {
     setSourceState(next);
   };
 
-  return { source, now, statusLabel, lastSync, setSource };
+  const setNtpServers = (next: string[]) => {
+    const servers = normalizeServers(next);
+    setNtpConfig({ servers: servers.length > 0 ? servers : DEFAULT_NTP_SERVERS });
+  };
+
+  const slewing = Math.abs(targetOffsetMs - appliedOffsetMs) >= 1;
+  const label = stale ? `${statusLabel} • last sync failed` : statusLabel;
+
+  return {
+    source,
+    now,
+    statusLabel: slewing ? `${label} • slewing` : label,
+    lastSync,
+    sync,
+    stale,
+    history,
+    appliedOffsetMs,
+    targetOffsetMs,
+    ntpServers,
+    setSource,
+    setNtpServers,
+  };
 };
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { useStoredSetting } from "@/hooks/useStoredSetting";
+import { defineSetting } from "@/lib/settingsStore";
+import {
+  DEFAULT_CRITICAL_COLOR,
+  DEFAULT_WARNING_COLOR,
+  type CountdownMode,
+  type CountdownTimer,
+} from "@/lib/countdown";
+
+const STORAGE_KEY = "studio_timepiece_countdowns_v1";
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readNumber = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.round(value)) : fallback;
+
+const readColor = (value: unknown, fallback: string) =>
+  typeof value === "string" && HEX_COLOR.test(value) ? value : fallback;
+
+const seconds = z.number().int().min(0);
+const color = z.string().regex(HEX_COLOR);
+
+const countdownsSetting = defineSetting<CountdownTimer[]>({
+  key: STORAGE_KEY,
+  label: "Countdown timers",
+  version: 2,
+  schema: z.array(
+    z.object({
+      id: z.string().min(1),
+      label: z.string(),
+      mode: z.enum(["time-of-day", "duration"]),
+      targetTime: z.string(),
+      durationSeconds: seconds,
+      startedAt: z.number().finite().nullable(),
+      warningSeconds: seconds,
+      criticalSeconds: seconds,
+      warningColor: color,
+      criticalColor: color,
+      preRollSeconds: seconds,
+      enabled: z.boolean(),
+    }),
+  ),
+  defaults: [],
+  migrations: {
+    // Version 1 was a bare array read leniently: entries without an id were dropped, other fields defaulted.
+    1: (value) =>
+      (Array.isArray(value) ? value : [])
+        .filter((entry) => isRecord(entry) && typeof entry.id === "string")
+        .map((entry: Record<string, unknown>) => ({
+          id: entry.id,
+          label: typeof entry.label === "string" ? entry.label : "",
+          mode: entry.mode === "duration" ? "duration" : "time-of-day",
+          targetTime: typeof entry.targetTime === "string" ? entry.targetTime : "18:00:00",
+          durationSeconds: readNumber(entry.durationSeconds, 600),
+          startedAt: typeof entry.startedAt === "number" && Number.isFinite(entry.startedAt) ? entry.startedAt : null,
+          warningSeconds: readNumber(entry.warningSeconds, 60),
+          criticalSeconds: readNumber(entry.criticalSeconds, 10),
+          warningColor: readColor(entry.warningColor, DEFAULT_WARNING_COLOR),
+          criticalColor: readColor(entry.criticalColor, DEFAULT_CRITICAL_COLOR),
+          preRollSeconds: readNumber(entry.preRollSeconds, 0),
+          enabled: entry.enabled !== false,
+        })),
+  },
+});
+
+export const useCountdownTimers = () => {
+  const [timers, setTimersState] = useStoredSetting(countdownsSetting);
+
+  const addTimer = (mode: CountdownMode = "time-of-day") => {
+    setTimersState((prev) => [
+      ...prev,
+      {
+        id: `countdown-${Date.now()}-${prev.length + 1}`,
+        label: mode === "duration" ? "Countdown" : "On air",
+        mode,
+        targetTime: "18:00:00",
+        durationSeconds: 600,
+        startedAt: null,
+        warningSeconds: 60,
+        criticalSeconds: 10,
+        warningColor: DEFAULT_WARNING_COLOR,
+        criticalColor: DEFAULT_CRITICAL_COLOR,
+        preRollSeconds: 0,
+        enabled: true,
+      },
+    ]);
+  };
+
+  const updateTimer = (timerId: string, next: Partial<Omit<CountdownTimer, "id">>) => {
+    setTimersState((prev) => prev.map((timer) => (timer.id === timerId ? { ...timer, ...next } : timer)));
+  };
+
+  const removeTimer = (timerId: string) => {
+    setTimersState((prev) => prev.filter((timer) => timer.id !== timerId));
+  };
+
+  /** Starts a duration timer from the given clock time, so every window counts from the same instant. */
+  const startTimer = (timerId: string, now: Date) => {
+    updateTimer(timerId, { startedAt: now.getTime() });
+  };
+
+  const resetTimer = (timerId: string) => {
+    updateTimer(timerId, { startedAt: null });
+  };
+
+  return { timers, addTimer, updateTimer, removeTimer, startTimer, resetTimer };
+};
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from "react";
+import { SEGMENT_FIELDS, type ColumnMapping, type ImportMapping } from "@/lib/runningOrderImport";
+
+type StoredMappings = Record<string, ImportMapping>;
+
+const STORAGE_KEY = "studio_timepiece_import_mappings_v1";
+const MAX_MAPPINGS = 50;
+
+const isColumnIndex = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const readMapping = (value: unknown): ImportMapping | null => {
+  if (!value || typeof value !== "object") return null;
+  const candidate = value as Partial<ImportMapping>;
+  if (!isColumnIndex(candidate.headerRow) || !candidate.columns || typeof candidate.columns !== "object") {
+    return null;
+  }
+  const columns = {} as ColumnMapping;
+  SEGMENT_FIELDS.forEach((field) => {
+    const column = (candidate.columns as Partial<ColumnMapping>)[field.id];
+    columns[field.id] = isColumnIndex(column) ? column : null;
+  });
+  return {
+    sheetName: typeof candidate.sheetName === "string" ? candidate.sheetName : null,
+    headerRow: candidate.headerRow,
+    columns,
+  };
+};
+
+const readStoredMappings = (): StoredMappings => {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const result: StoredMappings = {};
+    Object.entries(parsed ?? {}).forEach(([fileName, value]) => {
+      const mapping = readMapping(value);
+      if (mapping) result[fileName] = mapping;
+    });
+    return result;
+  } catch {
+    return {};
+  }
+};
+
+/** Column mappings chosen in the import wizard, remembered per source file name. */
+export const useImportMappings = () => {
+  const [mappings, setMappings] = useState<StoredMappings>(() => readStoredMappings());
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+  }, [mappings]);
+
+  const getMapping = useCallback((fileName: string) => mappings[fileName] ?? null, [mappings]);
+
+  const rememberMapping = useCallback((fileName: string, mapping: ImportMapping) => {
+    setMappings((prev) => {
+      const { [fileName]: _previous, ...rest } = prev;
+      // Re-inserting keeps the most recently used file last, so the oldest ones are dropped first.
+      const entries = Object.entries({ ...rest, [fileName]: mapping });
+      return Object.fromEntries(entries.slice(-MAX_MAPPINGS));
+    });
+  }, []);
+
+  return { getMapping, rememberMapping };
+};
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { useStoredSetting } from "@/hooks/useStoredSetting";
+import { defineSetting } from "@/lib/settingsStore";
+import { createIndicator, type IndicatorDefinition, type IndicatorPreset } from "@/lib/indicators";
+
+const STORAGE_KEY = "studio_timepiece_indicators_v1";
+
+const conditionSchema = z.object({
+  signal: z.enum(["mic-live", "recording", "ddr-playing", "segment-type"]),
+  target: z.string(),
+  negate: z.boolean(),
+});
+
+const indicatorSchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  background: z.string(),
+  text: z.string(),
+  flash: z.enum(["off", "slow", "fast"]),
+  placement: z.enum(["above", "below", "left", "right"]),
+  showWhenOff: z.boolean(),
+  rule: z.object({
+    match: z.enum(["all", "any"]),
+    conditions: z.array(conditionSchema),
+  }),
+});
+
+const indicatorsSetting = defineSetting<IndicatorDefinition[]>({
+  key: STORAGE_KEY,
+  label: "Indicators",
+  version: 1,
+  schema: z.array(indicatorSchema),
+  defaults: [],
+});
+
+/** User-defined indicators such as ON AIR, lit by rules over the integration signals. */
+export const useIndicators = () => {
+  const [indicators, setIndicators] = useStoredSetting(indicatorsSetting);
+
+  const addIndicator = (preset?: IndicatorPreset) => {
+    setIndicators((prev) => [...prev, createIndicator(preset)]);
+  };
+
+  const updateIndicator = (indicatorId: string, next: Partial<Omit<IndicatorDefinition, "id">>) => {
+    setIndicators((prev) =>
+      prev.map((indicator) => (indicator.id === indicatorId ? { ...indicator, ...next } : indicator)),
+    );
+  };
+
+  const removeIndicator = (indicatorId: string) => {
+    setIndicators((prev) => prev.filter((indicator) => indicator.id !== indicatorId));
+  };
+
+  return { indicators, addIndicator, updateIndicator, removeIndicator };
+};
@@ -0,0 +1,36 @@
+import { useEffect, useMemo, useState } from "react";
+import { parseStoredRunningOrder } from "@/lib/runningOrderProject";
+import { getOnAirSegment } from "@/lib/runningOrderTiming";
+
+const readRaw = (persistKey: string) =>
+  typeof window === "undefined" ? null : window.localStorage.getItem(persistKey);
+
+/**
+ * The running-order segment on air at `now`, read from the stored running order so it is known in
+ * every view. The store is checked each second because the running-order view saves in this window too.
+ */
+export const useOnAirSegment = (persistKey: string, now: Date) => {
+  const [raw, setRaw] = useState<string | null>(() => readRaw(persistKey));
+
+  useEffect(() => {
+    const refresh = () => setRaw(readRaw(persistKey));
+    refresh();
+    const id = window.setInterval(refresh, 1000);
+    window.addEventListener("storage", refresh);
+    return () => {
+      window.clearInterval(id);
+      window.removeEventListener("storage", refresh);
+    };
+  }, [persistKey]);
+
+  const state = useMemo(() => parseStoredRunningOrder(raw), [raw]);
+  // Segments start and end on whole seconds, so the clock's faster ticks need not re-time the show.
+  const second = Math.floor(now.getTime() / 1000);
+  const segment = useMemo(() => (state ? getOnAirSegment(state, new Date(second * 1000)) : null), [second, state]);
+  const segmentTypes = useMemo(
+    () => Array.from(new Set((state?.segments ?? []).map((entry) => entry.type.trim()).filter(Boolean))),
+    [state],
+  );
+
+  return { segment, segmentTypes };
+};
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from "react";
+
+export type RecentProject = {
+  path: string;
+  name: string;
+  /** Epoch ms the project was last opened or saved. */
+  usedAt: number;
+};
+
+const STORAGE_KEY = "studio_timepiece_recent_projects_v1";
+const MAX_RECENT = 8;
+
+const readStoredProjects = (): RecentProject[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (item): item is RecentProject =>
+        Boolean(item) && typeof item.path === "string" && typeof item.name === "string",
+    );
+  } catch {
+    return [];
+  }
+};
+
+/** Project files opened or saved in the desktop app, most recent first. */
+export const useRecentProjects = () => {
+  const [recentProjects, setRecentProjects] = useState<RecentProject[]>(() => readStoredProjects());
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(recentProjects));
+  }, [recentProjects]);
+
+  const rememberProject = useCallback((path: string, name: string) => {
+    setRecentProjects((prev) =>
+      [{ path, name, usedAt: Date.now() }, ...prev.filter((item) => item.path !== path)].slice(0, MAX_RECENT),
+    );
+  }, []);
+
+  const forgetProject = useCallback((path: string) => {
+    setRecentProjects((prev) => prev.filter((item) => item.path !== path));
+  }, []);
+
+  return { recentProjects, rememberProject, forgetProject };
+};
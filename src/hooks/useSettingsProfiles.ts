@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState } from "react";
+import { readSetting, writeSetting } from "@/lib/settingsStore";
+import {
+  PROFILE_URL_PARAM,
+  captureActiveProfile,
+  captureSettings,
+  findProfile,
+  parseProfile,
+  profilesSetting,
+  removeProfile,
+  serializeProfile,
+  switchToProfile,
+  upsertProfile,
+  type ProfileStore,
+} from "@/lib/settingsProfiles";
+
+// Every hook reads its settings once on mount, so a new profile is loaded by reloading the window.
+const reloadWithoutLaunchProfile = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(PROFILE_URL_PARAM);
+  window.history.replaceState(window.history.state, "", url);
+  window.location.reload();
+};
+
+/** Named bundles of every persisted setting, for moving a studio setup between machines. */
+export const useSettingsProfiles = () => {
+  const [store, setStore] = useState<ProfileStore>(() => readSetting(profilesSetting));
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== profilesSetting.key || !event.newValue) return;
+      setStore(readSetting(profilesSetting));
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const commit = useCallback((next: ProfileStore) => {
+    writeSetting(profilesSetting, next);
+    setStore(next);
+  }, []);
+
+  /** Saves the current settings under `name` and makes it the active profile. */
+  const saveProfile = useCallback(
+    (name: string) => {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+      const current = readSetting(profilesSetting);
+      const existing = findProfile(current, trimmed);
+      const next = upsertProfile(current, {
+        name: existing?.name ?? trimmed,
+        updatedAt: new Date().toISOString(),
+        settings: captureSettings(),
+      });
+      commit({ ...next, activeName: existing?.name ?? trimmed });
+    },
+    [commit],
+  );
+
+  const switchProfile = useCallback((name: string) => {
+    if (switchToProfile(name, new Date())) reloadWithoutLaunchProfile();
+  }, []);
+
+  const deleteProfile = useCallback(
+    (name: string) => {
+      commit(removeProfile(readSetting(profilesSetting), name));
+    },
+    [commit],
+  );
+
+  /** Profile file contents; the active profile is captured first so the export is current. */
+  const exportProfile = useCallback(
+    (name: string) => {
+      const next = captureActiveProfile(readSetting(profilesSetting), new Date());
+      commit(next);
+      const profile = findProfile(next, name);
+      return profile ? { name: profile.name, contents: serializeProfile(profile) } : null;
+    },
+    [commit],
+  );
+
+  /** Adds the profile in `text`. Replacing the active profile loads it straight away. */
+  const importProfile = useCallback(
+    (text: string) => {
+      const { profile, issues } = parseProfile(text, new Date());
+      const current = readSetting(profilesSetting);
+      const replacesActive =
+        current.activeName != null && findProfile(current, profile.name)?.name === current.activeName;
+      const next = upsertProfile(current, profile);
+      if (replacesActive) {
+        // Switching would first capture the current settings over the imported ones.
+        writeSetting(profilesSetting, { ...next, activeName: null });
+        switchToProfile(profile.name, new Date());
+        reloadWithoutLaunchProfile();
+      } else {
+        commit(next);
+      }
+      return { profile, issues };
+    },
+    [commit],
+  );
+
+  return {
+    profiles: store.profiles,
+    activeProfileName: store.activeName,
+    saveProfile,
+    switchProfile,
+    deleteProfile,
+    exportProfile,
+    importProfile,
+  };
+};
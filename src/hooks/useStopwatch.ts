@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import {
+  EMPTY_STOPWATCH,
+  recordLap,
+  startStopwatch,
+  stopStopwatch,
+  type StopwatchLap,
+  type StopwatchState,
+} from "@/lib/stopwatch";
+
+const STORAGE_KEY = "studio_timepiece_stopwatch_v1";
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const readStoredState = (): StopwatchState => {
+  if (typeof window === "undefined") return EMPTY_STOPWATCH;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_STOPWATCH;
+    const parsed = JSON.parse(raw) as Partial<StopwatchState>;
+    const laps = Array.isArray(parsed.laps)
+      ? parsed.laps.filter(
+          (lap): lap is StopwatchLap =>
+            isFiniteNumber(lap?.index) &&
+            isFiniteNumber(lap.splitMs) &&
+            isFiniteNumber(lap.lapMs) &&
+            isFiniteNumber(lap.recordedAt),
+        )
+      : [];
+    return {
+      startedAt: isFiniteNumber(parsed.startedAt) ? parsed.startedAt : null,
+      accumulatedMs: isFiniteNumber(parsed.accumulatedMs) ? Math.max(0, parsed.accumulatedMs) : 0,
+      laps,
+    };
+  } catch {
+    return EMPTY_STOPWATCH;
+  }
+};
+
+/**
+ * Stopwatch state lives in localStorage as a start timestamp plus banked time, so it keeps running
+ * across reloads and every window (main and /running-order) shows and controls the same run.
+ */
+export const useStopwatch = () => {
+  const [state, setState] = useState<StopwatchState>(() => readStoredState());
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  }, [state]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== STORAGE_KEY || !event.newValue) return;
+      setState(readStoredState());
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const start = () => setState((prev) => startStopwatch(prev, Date.now()));
+  const stop = () => setState((prev) => stopStopwatch(prev, Date.now()));
+  const lap = () => setState((prev) => recordLap(prev, Date.now()));
+  const reset = () => setState(EMPTY_STOPWATCH);
+
+  return { state, isRunning: state.startedAt != null, start, stop, lap, reset };
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState, type Dispatch, type SetStateAction } from "react";
+import { readSetting, writeSetting, type SettingDefinition } from "@/lib/settingsStore";
+
+/** State kept in a versioned setting and shared with other windows through storage events. */
+export const useStoredSetting = <T>(definition: SettingDefinition<T>): [T, Dispatch<SetStateAction<T>>] => {
+  const [value, setValue] = useState<T>(() => readSetting(definition));
+
+  useEffect(() => {
+    writeSetting(definition, value);
+  }, [definition, value]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== definition.key || !event.newValue) return;
+      setValue(readSetting(definition));
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [definition]);
+
+  return [value, setValue];
+};
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { useStoredSetting } from "@/hooks/useStoredSetting";
+import { defineSetting } from "@/lib/settingsStore";
+import { DEFAULT_FRAME_RATE, isFrameRateId, type FrameRateId } from "@/lib/timecode";
+
+type TimecodeConfig = {
+  displayMode: "clock" | "timecode";
+  frameRate: FrameRateId;
+  offsetFrames: number;
+};
+
+const STORAGE_KEY = "studio_timepiece_timecode_v1";
+const DEFAULT_CONFIG: TimecodeConfig = {
+  displayMode: "clock",
+  frameRate: DEFAULT_FRAME_RATE,
+  offsetFrames: 0,
+};
+
+const timecodeSetting = defineSetting<TimecodeConfig>({
+  key: STORAGE_KEY,
+  label: "Timecode",
+  version: 1,
+  schema: z.object({
+    displayMode: z.enum(["clock", "timecode"]),
+    frameRate: z.string().refine(isFrameRateId, "unknown frame rate"),
+    offsetFrames: z.number().finite().transform(Math.round),
+  }),
+  defaults: DEFAULT_CONFIG,
+});
+
+export const useTimecodeSettings = () => {
+  const [config, setConfigState] = useStoredSetting(timecodeSetting);
+
+  const setConfig = (next: Partial<TimecodeConfig>) => {
+    setConfigState((prev) => ({ ...prev, ...next }));
+  };
+
+  return { config, setConfig };
+};
+
+export type { TimecodeConfig };
@@ -1,4 +1,7 @@
 import { useEffect, useMemo, useRef, useState } from "react";
+import { z } from "zod";
+import { useStoredSetting } from "@/hooks/useStoredSetting";
+import { defineSetting } from "@/lib/settingsStore";
 
 type TriCasterConfig = {
   enabled: boolean;
@@ -44,30 +47,24 @@ const DEFAULT_CONFIG: TriCasterConfig = {
 
 const isValidNumber = (value: number) => Number.isFinite(value) && !Number.isNaN(value);
 
-const readStoredConfig = (): TriCasterConfig => {
-  if (typeof window === "undefined") return DEFAULT_CONFIG;
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return DEFAULT_CONFIG;
-    const parsed = JSON.parse(raw) as Partial<TriCasterConfig>;
-    return {
-      enabled: parsed.enabled ?? DEFAULT_CONFIG.enabled,
-      showCountdown: parsed.showCountdown ?? DEFAULT_CONFIG.showCountdown,
-      host: parsed.host ?? DEFAULT_CONFIG.host,
-      username: parsed.username ?? DEFAULT_CONFIG.username,
-      password: parsed.password ?? DEFAULT_CONFIG.password,
-      label: parsed.label ?? DEFAULT_CONFIG.label,
-      remainingStatePattern: parsed.remainingStatePattern ?? DEFAULT_CONFIG.remainingStatePattern,
-      playStatePattern: parsed.playStatePattern ?? DEFAULT_CONFIG.playStatePattern,
-      useEstimatedCountdown: parsed.useEstimatedCountdown ?? DEFAULT_CONFIG.useEstimatedCountdown,
-      estimatedDurationSeconds: isValidNumber(Number(parsed.estimatedDurationSeconds))
-        ? Math.max(1, Number(parsed.estimatedDurationSeconds))
-        : DEFAULT_CONFIG.estimatedDurationSeconds,
-    };
-  } catch {
-    return DEFAULT_CONFIG;
-  }
-};
+const ddrSetting = defineSetting<TriCasterConfig>({
+  key: STORAGE_KEY,
+  label: "TriCaster DDR",
+  version: 1,
+  schema: z.object({
+    enabled: z.boolean(),
+    showCountdown: z.boolean(),
+    host: z.string(),
+    username: z.string(),
+    password: z.string(),
+    label: z.string(),
+    remainingStatePattern: z.string(),
+    playStatePattern: z.string(),
+    useEstimatedCountdown: z.boolean(),
+    estimatedDurationSeconds: z.coerce.number().finite().min(1),
+  }),
+  defaults: DEFAULT_CONFIG,
+});
 
 const buildWsUrl = (host: string, username: string, password: string) => {
   const trimmed = host.trim();
@@ -461,7 +458,7 @@ const applyShortcutUpdates = (
 };
 
 export const useTriCasterDdr = () => {
-  const [config, setConfigState] = useState<TriCasterConfig>(() => readStoredConfig());
+  const [config, setConfigState] = useStoredSetting(ddrSetting);
   const [state, setState] = useState<TriCasterState>({
     status: "idle",
     programTally: [],
@@ -472,10 +469,6 @@ export const useTriCasterDdr = () => {
   const socketRef = useRef<WebSocket | null>(null);
   const reconnectRef = useRef<number | null>(null);
 
-  useEffect(() => {
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
-  }, [config]);
-
   useEffect(() => {
     const interval = window.setInterval(() => setTick((prev) => prev + 1), 500);
     return () => window.clearInterval(interval);
@@ -1,4 +1,7 @@
 import { useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import { useStoredSetting } from "@/hooks/useStoredSetting";
+import { defineSetting } from "@/lib/settingsStore";
 
 type RecorderConfig = {
   enabled: boolean;
@@ -26,24 +29,20 @@ const DEFAULT_CONFIG: RecorderConfig = {
   stateName: "recording",
 };
 
-const readStoredConfig = (): RecorderConfig => {
-  if (typeof window === "undefined") return DEFAULT_CONFIG;
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return DEFAULT_CONFIG;
-    const parsed = JSON.parse(raw) as Partial<RecorderConfig>;
-    return {
-      enabled: parsed.enabled ?? DEFAULT_CONFIG.enabled,
-      showIndicator: parsed.showIndicator ?? DEFAULT_CONFIG.showIndicator,
-      host: parsed.host ?? DEFAULT_CONFIG.host,
-      username: parsed.username ?? DEFAULT_CONFIG.username,
-      password: parsed.password ?? DEFAULT_CONFIG.password,
-      stateName: parsed.stateName ?? DEFAULT_CONFIG.stateName,
-    };
-  } catch {
-    return DEFAULT_CONFIG;
-  }
-};
+const recorderSetting = defineSetting<RecorderConfig>({
+  key: STORAGE_KEY,
+  label: "TriCaster recording",
+  version: 1,
+  schema: z.object({
+    enabled: z.boolean(),
+    showIndicator: z.boolean(),
+    host: z.string(),
+    username: z.string(),
+    password: z.string(),
+    stateName: z.string(),
+  }),
+  defaults: DEFAULT_CONFIG,
+});
 
 const buildWsUrl = (host: string, username: string, password: string) => {
   const trimmed = host.trim();
@@ -112,7 +111,7 @@ const parseRecordingValue = (value: string) => {
 };
 
 export const useTriCasterRecording = () => {
-  const [config, setConfigState] = useState<RecorderConfig>(() => readStoredConfig());
+  const [config, setConfigState] = useStoredSetting(recorderSetting);
   const [state, setState] = useState<RecorderState>({
     status: "idle",
     recording: null,
@@ -120,10 +119,6 @@ export const useTriCasterRecording = () => {
   const socketRef = useRef<WebSocket | null>(null);
   const reconnectRef = useRef<number | null>(null);
 
-  useEffect(() => {
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
-  }, [config]);
-
   useEffect(() => {
     const host = config.host;
     const username = config.username;
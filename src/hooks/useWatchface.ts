@@ -0,0 +1,102 @@
+import { useMemo } from "react";
+import { z } from "zod";
+import {
+  DEFAULT_WATCHFACE_ID,
+  getWatchface,
+  isWatchfaceId,
+  resolveWatchfaceSettings,
+  type WatchfaceSettingValue,
+} from "@/components/clock/watchfaces";
+import { RED_FACE_DDR_OFFSET_DEFAULT } from "@/components/clock/watchfaces/redStack";
+import { useStoredSetting } from "@/hooks/useStoredSetting";
+import { defineSetting } from "@/lib/settingsStore";
+
+type WatchfaceConfig = {
+  faceId: string;
+  /** Raw settings per face id; resolved against the face's schema on read. */
+  settings: Record<string, Record<string, unknown>>;
+};
+
+const STORAGE_KEY = "studio_timepiece_watchface_v2";
+const LEGACY_WATCHFACE_KEY = "studio_timepiece_watchface_v1";
+const LEGACY_LAYOUT_KEY = "studio_timepiece_layout_v4";
+
+const DEFAULT_CONFIG: WatchfaceConfig = {
+  faceId: DEFAULT_WATCHFACE_ID,
+  settings: {},
+};
+
+// Before the registry, the face id had its own key and face options lived in the layout blob.
+const readLegacyConfig = (): WatchfaceConfig => {
+  const faceId = window.localStorage.getItem(LEGACY_WATCHFACE_KEY);
+  const settings: WatchfaceConfig["settings"] = {};
+  const rawLayout = window.localStorage.getItem(LEGACY_LAYOUT_KEY);
+  if (rawLayout) {
+    const layout = JSON.parse(rawLayout) as Partial<{
+      redFaceClockOffsetX: number;
+      redFaceDdrOffsetX: number;
+      redFaceOffsetX: number;
+      analogSecondHand: string;
+    }>;
+    const clockOffset = layout.redFaceClockOffsetX ?? layout.redFaceOffsetX ?? 0;
+    const ddrOffset = layout.redFaceDdrOffsetX ?? RED_FACE_DDR_OFFSET_DEFAULT;
+    // Offsets that match an earlier release's defaults were never chosen by the user.
+    const isPreviousDefaultPair =
+      (clockOffset === -40 && ddrOffset === 18) ||
+      (clockOffset === -72 && ddrOffset === 64) ||
+      (clockOffset === -34 && ddrOffset === 80) ||
+      (clockOffset === 0 && ddrOffset === 0);
+    settings["red-stack"] = { ddrOffsetX: isPreviousDefaultPair ? RED_FACE_DDR_OFFSET_DEFAULT : ddrOffset };
+    if (layout.analogSecondHand) {
+      settings.analog = { secondHand: layout.analogSecondHand };
+    }
+  }
+  return {
+    faceId: isWatchfaceId(faceId) ? faceId : DEFAULT_CONFIG.faceId,
+    settings,
+  };
+};
+
+const watchfaceSetting = defineSetting<WatchfaceConfig>({
+  key: STORAGE_KEY,
+  label: "Watch face",
+  version: 1,
+  schema: z.object({
+    // An unknown id is usually a station face that has since been removed.
+    faceId: z.string().refine(isWatchfaceId, "unknown watch face"),
+    settings: z.record(z.record(z.unknown())),
+  }),
+  defaults: DEFAULT_CONFIG,
+  readLegacy: () => readLegacyConfig(),
+});
+
+export const useWatchface = () => {
+  const [config, setConfig] = useStoredSetting(watchfaceSetting);
+
+  const face = getWatchface(config.faceId);
+  const storedSettings = config.settings[face.id];
+  const settings = useMemo(() => resolveWatchfaceSettings(face, storedSettings), [face, storedSettings]);
+
+  const setFaceId = (faceId: string) => {
+    setConfig((prev) => ({ ...prev, faceId }));
+  };
+
+  const setSetting = (key: string, value: WatchfaceSettingValue) => {
+    setConfig((prev) => ({
+      ...prev,
+      settings: { ...prev.settings, [face.id]: { ...prev.settings[face.id], [key]: value } },
+    }));
+  };
+
+  const resetSettings = () => {
+    setConfig((prev) => {
+      const next = { ...prev.settings };
+      delete next[face.id];
+      return { ...prev, settings: next };
+    });
+  };
+
+  return { face, settings, setFaceId, setSetting, resetSettings };
+};
+
+export type { WatchfaceConfig };
@@ -0,0 +1,65 @@
+import { useMemo } from "react";
+import { z } from "zod";
+import { useStoredSetting } from "@/hooks/useStoredSetting";
+import { defineSetting } from "@/lib/settingsStore";
+import { isValidTimeZone, type WorldClockEntry } from "@/lib/timeZones";
+
+const STORAGE_KEY = "studio_timepiece_world_clocks_v1";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const worldClocksSetting = defineSetting<WorldClockEntry[]>({
+  key: STORAGE_KEY,
+  label: "World clocks",
+  version: 2,
+  schema: z.array(
+    z.object({
+      id: z.string().min(1),
+      label: z.string(),
+      timeZone: z.string(),
+      abbreviation: z.string().optional(),
+    }),
+  ),
+  defaults: [],
+  migrations: {
+    // Version 1 was a bare array read leniently: entries without an id or zone were dropped.
+    1: (value) =>
+      (Array.isArray(value) ? value : [])
+        .filter((entry) => isRecord(entry) && typeof entry.id === "string" && typeof entry.timeZone === "string")
+        .map((entry: Record<string, unknown>) => ({
+          id: entry.id,
+          label: typeof entry.label === "string" ? entry.label : "",
+          timeZone: entry.timeZone,
+          abbreviation: typeof entry.abbreviation === "string" ? entry.abbreviation : undefined,
+        })),
+  },
+});
+
+export const useWorldClocks = () => {
+  const [clocks, setClocksState] = useStoredSetting(worldClocksSetting);
+
+  const addClock = (timeZone = "UTC") => {
+    setClocksState((prev) => [
+      ...prev,
+      {
+        id: `zone-${Date.now()}-${prev.length + 1}`,
+        label: timeZone.split("/").pop()?.replace(/_/g, " ") ?? timeZone,
+        timeZone,
+      },
+    ]);
+  };
+
+  const updateClock = (clockId: string, next: Partial<Omit<WorldClockEntry, "id">>) => {
+    setClocksState((prev) => prev.map((clock) => (clock.id === clockId ? { ...clock, ...next } : clock)));
+  };
+
+  const removeClock = (clockId: string) => {
+    setClocksState((prev) => prev.filter((clock) => clock.id !== clockId));
+  };
+
+  // Entries with a zone that is still being typed are kept but not rendered.
+  const validClocks = useMemo(() => clocks.filter((clock) => isValidTimeZone(clock.timeZone)), [clocks]);
+
+  return { clocks, validClocks, addClock, updateClock, removeClock };
+};
@@ -0,0 +1,36 @@
+import { useCallback, useState } from "react";
+import { invoke } from "@tauri-apps/api/core";
+import { isTauri } from "@/lib/tauri";
+import type { X32DiscoveredMixer } from "@/lib/x32";
+
+type X32DiscoveryState = {
+  status: "idle" | "searching" | "done" | "error";
+  mixers: X32DiscoveredMixer[];
+  error?: string;
+};
+
+/** Finds X32 desks on the local network by broadcasting `/xinfo` from the desktop app. */
+export const useX32Discovery = () => {
+  const [state, setState] = useState<X32DiscoveryState>({ status: "idle", mixers: [] });
+
+  const discover = useCallback(async (port: number) => {
+    if (!isTauri()) return;
+    setState((prev) => ({ ...prev, status: "searching", error: undefined }));
+    try {
+      const mixers = await invoke<X32DiscoveredMixer[]>("discover_x32", { port });
+      setState({ status: "done", mixers });
+    } catch (err) {
+      setState({
+        status: "error",
+        mixers: [],
+        error: typeof err === "string" ? err : err instanceof Error ? err.message : "Discovery failed",
+      });
+    }
+  }, []);
+
+  return {
+    discovery: state,
+    discover,
+    canDiscover: isTauri(),
+  };
+};
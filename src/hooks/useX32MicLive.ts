@@ -1,19 +1,23 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { invoke } from "@tauri-apps/api/core";
 import { listen } from "@tauri-apps/api/event";
-
-type MicChannel = {
-  channel: number;
-  on: boolean;
-  fader: number;
-  live: boolean;
-};
-
-type MicStatePayload = {
-  channels: MicChannel[];
-  any_live: boolean;
-  updated_at: number;
-};
+import { z } from "zod";
+import { useStoredSetting } from "@/hooks/useStoredSetting";
+import { defineSetting } from "@/lib/settingsStore";
+import { isTauri } from "@/lib/tauri";
+import {
+  DEFAULT_X32_INPUTS,
+  X32_BUS_COUNT,
+  X32_DCA_COUNT,
+  X32_INPUT_COUNTS,
+  getLiveX32Inputs,
+  hasX32Signal,
+  trackX32Signal,
+  type X32Input,
+  type X32MeterFrame,
+  type X32MixerPayload,
+  type X32SignalState,
+} from "@/lib/x32";
 
 type X32Config = {
   enabled: boolean;
@@ -21,13 +25,25 @@ type X32Config = {
   host: string;
   port: number;
   threshold: number;
+  /** Mic inputs to watch, each with an optional label. */
+  inputs: X32Input[];
+  /** Buses reported alongside the inputs. */
+  buses: number[];
+  followDca: boolean;
+  requireMainBus: boolean;
+  requireSignal: boolean;
+  /** Pre-fader level (dBFS) that counts as signal. */
+  signalThresholdDb: number;
+  /** Level meters for the inputs under the clock. */
+  showMeters: boolean;
 };
 
 type X32State = {
   status: "idle" | "listening" | "error";
   error?: string;
-  channels: MicChannel[];
-  anyLive: boolean;
+  mixer: X32MixerPayload | null;
+  meters: X32MeterFrame | null;
+  signal: X32SignalState;
   lastUpdate?: number;
 };
 
@@ -38,44 +54,74 @@ const DEFAULT_CONFIG: X32Config = {
   host: "192.168.0.100",
   port: 10023,
   threshold: 0.0001,
+  inputs: DEFAULT_X32_INPUTS,
+  buses: [],
+  followDca: true,
+  requireMainBus: false,
+  requireSignal: false,
+  signalThresholdDb: -50,
+  showMeters: false,
 };
-const CHANNELS = [1, 2, 3, 4, 5, 6];
-
-const isTauri = () => {
-  if (typeof window === "undefined") return false;
-  const globals = window as unknown as { __TAURI__?: unknown; __TAURI_INTERNALS__?: unknown };
-  return Boolean(globals.__TAURI__ || globals.__TAURI_INTERNALS__);
-};
-
-const readStoredConfig = (): X32Config => {
-  if (typeof window === "undefined") return DEFAULT_CONFIG;
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return DEFAULT_CONFIG;
-    const parsed = JSON.parse(raw) as Partial<X32Config>;
-    return {
-      enabled: parsed.enabled ?? DEFAULT_CONFIG.enabled,
-      showIndicator: parsed.showIndicator ?? DEFAULT_CONFIG.showIndicator,
-      host: parsed.host ?? DEFAULT_CONFIG.host,
-      port: parsed.port ?? DEFAULT_CONFIG.port,
-      threshold: parsed.threshold ?? DEFAULT_CONFIG.threshold,
-    };
-  } catch {
-    return DEFAULT_CONFIG;
-  }
-};
+const ALL_DCAS = Array.from({ length: X32_DCA_COUNT }, (_, index) => index + 1);
+
+const inputSchema = z
+  .object({
+    kind: z.enum(["ch", "auxin"]),
+    number: z.number().int().min(1),
+    label: z.string(),
+  })
+  .refine((input) => input.number <= X32_INPUT_COUNTS[input.kind], "input number out of range");
+
+const x32Setting = defineSetting<X32Config>({
+  key: STORAGE_KEY,
+  label: "X32",
+  version: 2,
+  schema: z.object({
+    enabled: z.boolean(),
+    showIndicator: z.boolean(),
+    host: z.string(),
+    port: z.number().int().min(1).max(65535),
+    threshold: z.number().min(0).max(1),
+    inputs: z.array(inputSchema),
+    buses: z.array(z.number().int().min(1).max(X32_BUS_COUNT)),
+    followDca: z.boolean(),
+    requireMainBus: z.boolean(),
+    requireSignal: z.boolean(),
+    signalThresholdDb: z.number().min(-90).max(0),
+    showMeters: z.boolean(),
+  }),
+  defaults: DEFAULT_CONFIG,
+  migrations: {
+    // Version 1 always watched channels 1–6 on mute and fader alone.
+    1: (value) => ({ ...(value as object), inputs: DEFAULT_X32_INPUTS, followDca: false, requireMainBus: false }),
+  },
+});
 
 export const useX32MicLive = () => {
-  const [config, setConfigState] = useState<X32Config>(() => readStoredConfig());
+  const [config, setConfigState] = useStoredSetting(x32Setting);
   const [state, setState] = useState<X32State>({
     status: "idle",
-    channels: [],
-    anyLive: false,
+    mixer: null,
+    meters: null,
+    signal: {},
   });
+  const signalThresholdRef = useRef(config.signalThresholdDb);
 
   useEffect(() => {
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
-  }, [config]);
+    signalThresholdRef.current = config.signalThresholdDb;
+  }, [config.signalThresholdDb]);
+
+  // Labels and the live rules do not change what is subscribed, so editing them keeps the listener running.
+  const subscriptionKey = JSON.stringify({
+    enabled: config.enabled,
+    host: config.host,
+    port: config.port,
+    inputs: config.inputs.map(({ kind, number }) => ({ kind, number })),
+    buses: config.buses,
+    dcas: config.followDca ? ALL_DCAS : [],
+    main: config.requireMainBus,
+    meters: config.requireSignal || config.showMeters,
+  });
 
   useEffect(() => {
     if (!isTauri()) {
@@ -83,47 +129,52 @@ export const useX32MicLive = () => {
       return;
     }
 
+    const { enabled, ...subscription } = JSON.parse(subscriptionKey) as { enabled: boolean } & Record<string, unknown>;
     let unlisten: (() => void) | undefined;
+    let unlistenMeters: (() => void) | undefined;
     let active = true;
 
     const start = async () => {
-      if (!config.enabled) {
+      if (!enabled) {
         try {
           await invoke("stop_x32_listener");
         } catch {
           // ignore
         }
-        setState((prev) => ({ ...prev, status: "idle", error: undefined }));
+        setState((prev) => ({ ...prev, status: "idle", error: undefined, mixer: null, meters: null, signal: {} }));
         return;
       }
 
       try {
-        await invoke("start_x32_listener", {
-          host: config.host,
-          port: config.port,
-          channels: CHANNELS,
-          threshold: config.threshold,
-        });
+        await invoke("start_x32_listener", subscription);
         if (!active) return;
-        setState((prev) => ({ ...prev, status: "listening", error: undefined }));
-        const unlistenFn = await listen<MicStatePayload>("x32_mic_state", (event) => {
-          const payload = event.payload;
-          setState({
+        setState((prev) => ({ ...prev, status: "listening", error: undefined, mixer: null, meters: null, signal: {} }));
+        const unlistenFn = await listen<X32MixerPayload>("x32_mic_state", (event) => {
+          setState((prev) => ({
+            ...prev,
             status: "listening",
-            channels: payload.channels ?? [],
-            anyLive: payload.any_live ?? false,
-            lastUpdate: payload.updated_at,
-          });
+            error: undefined,
+            mixer: event.payload,
+            lastUpdate: event.payload.updated_at,
+          }));
         });
         unlisten = () => {
           unlistenFn();
         };
+        unlistenMeters = await listen<X32MeterFrame>("x32_meters", (event) => {
+          setState((prev) => ({
+            ...prev,
+            meters: event.payload,
+            signal: trackX32Signal(prev.signal, event.payload, signalThresholdRef.current),
+          }));
+        });
       } catch (err) {
         if (!active) return;
         setState((prev) => ({
           ...prev,
           status: "error",
-          error: err instanceof Error ? err.message : "Failed to start X32 listener",
+          error:
+            typeof err === "string" ? err : err instanceof Error ? err.message : "Failed to start X32 listener",
         }));
       }
     };
@@ -133,12 +184,33 @@ export const useX32MicLive = () => {
     return () => {
       active = false;
       if (unlisten) unlisten();
+      if (unlistenMeters) unlistenMeters();
     };
-  }, [config]);
-
-  const liveChannels = useMemo(
-    () => state.channels.filter((channel) => channel.live).map((channel) => channel.channel),
-    [state.channels],
+  }, [subscriptionKey]);
+
+  const liveInputs = useMemo(
+    () =>
+      getLiveX32Inputs(
+        config.inputs,
+        state.mixer,
+        {
+          threshold: config.threshold,
+          followDca: config.followDca,
+          requireMainBus: config.requireMainBus,
+          requireSignal: config.requireSignal,
+        },
+        (input) => hasX32Signal(state.signal, input, state.meters?.updated_at ?? 0),
+      ),
+    [
+      config.followDca,
+      config.inputs,
+      config.requireMainBus,
+      config.requireSignal,
+      config.threshold,
+      state.meters?.updated_at,
+      state.mixer,
+      state.signal,
+    ],
   );
 
   const setConfig = (next: Partial<X32Config>) => {
@@ -149,8 +221,8 @@ export const useX32MicLive = () => {
     config,
     setConfig,
     state,
-    liveChannels,
-    channels: CHANNELS,
+    liveInputs,
+    anyLive: liveInputs.length > 0,
     isTauri: isTauri(),
   };
 };
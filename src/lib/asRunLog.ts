@@ -0,0 +1,260 @@
+import * as XLSX from "xlsx";
+import { addDays, format, parse } from "date-fns";
+import { SHOW_DATE_FORMAT } from "@/lib/runningOrderTiming";
+
+export type AsRunEventKind =
+  | "segment-start"
+  | "segment-end"
+  | "segment-skip"
+  | "segment-unskip"
+  | "segment-jump"
+  | "caspar-play"
+  | "caspar-stop"
+  | "tricaster-record-start"
+  | "tricaster-record-stop"
+  | "mic-live"
+  | "mic-muted";
+
+export type AsRunEntry = {
+  id: string;
+  showId: string;
+  /** Wall-clock time of the event (epoch ms, from the synced studio clock). */
+  at: number;
+  kind: AsRunEventKind;
+  segmentId?: string;
+  segmentNumber?: string;
+  title?: string;
+  plannedStartSeconds?: number;
+  plannedDurationSeconds?: number;
+  detail?: string;
+};
+
+export type AsRunEvent = Omit<AsRunEntry, "id" | "showId" | "at">;
+
+export type AsRunShow = {
+  id: string;
+  name: string;
+  startedAt: number;
+  /**
+   * "yyyy-MM-dd" show date of the running order the show was logged from. Shows without one were
+   * started by other events and only cover the calendar day they started on.
+   */
+  showDate?: string;
+};
+
+export type AsRunLog = {
+  currentShowId: string | null;
+  shows: AsRunShow[];
+  entries: AsRunEntry[];
+};
+
+export const EMPTY_AS_RUN_LOG: AsRunLog = { currentShowId: null, shows: [], entries: [] };
+
+export const AS_RUN_MAX_SHOWS = 30;
+/**
+ * Every open window (main and /running-order) watches the same running order, so each segment
+ * change is seen more than once. An event this close to an identical latest event on the same
+ * subject is the same event.
+ */
+export const AS_RUN_DUPLICATE_WINDOW_MS = 5000;
+
+export const AS_RUN_EVENT_LABELS: Record<AsRunEventKind, string> = {
+  "segment-start": "Segment start",
+  "segment-end": "Segment end",
+  "segment-skip": "Segment skipped",
+  "segment-unskip": "Segment restored",
+  "segment-jump": "Jump",
+  "caspar-play": "CasparCG play",
+  "caspar-stop": "CasparCG stop",
+  "tricaster-record-start": "TriCaster record start",
+  "tricaster-record-stop": "TriCaster record stop",
+  "mic-live": "Mic live",
+  "mic-muted": "Mics muted",
+};
+
+const createShow = (name: string, at: number, showDate?: string): AsRunShow => ({
+  id: `show-${at}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  startedAt: at,
+  ...(showDate ? { showDate } : {}),
+});
+
+const sameLocalDay = (a: number, b: number) => new Date(a).toDateString() === new Date(b).toDateString();
+
+/** A running-order show also takes events from the morning after its show date, when late shows end. */
+const showCovers = (show: AsRunShow, at: number) => {
+  if (!show.showDate) return sameLocalDay(show.startedAt, at);
+  const day = format(at, SHOW_DATE_FORMAT);
+  const nextDay = format(addDays(parse(show.showDate, SHOW_DATE_FORMAT, at), 1), SHOW_DATE_FORMAT);
+  return day === show.showDate || day === nextDay;
+};
+
+const pruneShows = (log: AsRunLog): AsRunLog => {
+  if (log.shows.length <= AS_RUN_MAX_SHOWS) return log;
+  const shows = log.shows.slice(-AS_RUN_MAX_SHOWS);
+  const kept = new Set(shows.map((show) => show.id));
+  return { ...log, shows, entries: log.entries.filter((entry) => kept.has(entry.showId)) };
+};
+
+/**
+ * Makes `name` the current show. The current show is reused when it has the same name and show date
+ * (the calendar day it started, without one), so reloading or reopening a window keeps appending to it.
+ */
+export const beginShow = (
+  log: AsRunLog,
+  name: string,
+  at: number,
+  { showDate, forceNew = false }: { showDate?: string; forceNew?: boolean } = {},
+): AsRunLog => {
+  const current = log.shows.find((show) => show.id === log.currentShowId);
+  const sameShow =
+    current &&
+    current.name === name &&
+    (showDate ? current.showDate === showDate : !current.showDate && sameLocalDay(current.startedAt, at));
+  if (!forceNew && sameShow) return log;
+  const show = createShow(name, at, showDate);
+  return pruneShows({ ...log, currentShowId: show.id, shows: [...log.shows, show] });
+};
+
+// Events that undo each other (live and muted, play and stop) share a subject.
+const EVENT_SUBJECT: Record<AsRunEventKind, string> = {
+  "segment-start": "segment",
+  "segment-end": "segment",
+  "segment-skip": "skip",
+  "segment-unskip": "skip",
+  "segment-jump": "jump",
+  "caspar-play": "caspar",
+  "caspar-stop": "caspar",
+  "tricaster-record-start": "record",
+  "tricaster-record-stop": "record",
+  "mic-live": "mic",
+  "mic-muted": "mic",
+};
+
+/** Only the latest event on the same subject is compared, so live, muted, live logs all three. */
+const isDuplicate = (entries: AsRunEntry[], candidate: Omit<AsRunEntry, "id">) => {
+  for (let i = entries.length - 1; i >= 0; i -= 1) {
+    const entry = entries[i];
+    if (candidate.at - entry.at > AS_RUN_DUPLICATE_WINDOW_MS) return false;
+    if (
+      entry.showId !== candidate.showId ||
+      EVENT_SUBJECT[entry.kind] !== EVENT_SUBJECT[candidate.kind] ||
+      entry.segmentId !== candidate.segmentId
+    ) {
+      continue;
+    }
+    // Only the window that caused a segment change knows why (jump, skip), so ignore the detail there.
+    const isSegmentChange = candidate.kind === "segment-start" || candidate.kind === "segment-end";
+    return entry.kind === candidate.kind && (isSegmentChange || entry.detail === candidate.detail);
+  }
+  return false;
+};
+
+export const appendEntry = (log: AsRunLog, event: AsRunEvent, at: number, fallbackShowName: string): AsRunLog => {
+  const current = log.shows.find((show) => show.id === log.currentShowId);
+  // Events outside any running order (mic, recording) start a show of their own for the day.
+  const withShow = current && showCovers(current, at) ? log : beginShow(log, fallbackShowName, at);
+  const candidate = { ...event, showId: withShow.currentShowId as string, at };
+  if (isDuplicate(withShow.entries, candidate)) return withShow;
+  return {
+    ...withShow,
+    entries: [...withShow.entries, { ...candidate, id: `${at}-${Math.random().toString(36).slice(2, 8)}` }],
+  };
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatSeconds = (seconds: number | undefined) => {
+  if (seconds == null || !Number.isFinite(seconds)) return "";
+  const total = Math.max(0, Math.round(seconds));
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+};
+
+const formatClockSeconds = (seconds: number | undefined) =>
+  seconds == null ? "" : formatSeconds(((seconds % 86400) + 86400) % 86400);
+
+export type AsRunSegmentSummary = {
+  segmentId: string;
+  segmentNumber: string;
+  title: string;
+  plannedStartSeconds?: number;
+  plannedDurationSeconds?: number;
+  actualStart: number | null;
+  actualEnd: number | null;
+  skipped: boolean;
+};
+
+/** One row per segment that ran or was skipped, pairing each start with the end that followed it. */
+export const summarizeSegments = (entries: AsRunEntry[]): AsRunSegmentSummary[] => {
+  const rows: AsRunSegmentSummary[] = [];
+  const open = new Map<string, AsRunSegmentSummary>();
+  entries.forEach((entry) => {
+    if (!entry.segmentId) return;
+    const base = {
+      segmentId: entry.segmentId,
+      segmentNumber: entry.segmentNumber ?? "",
+      title: entry.title ?? "",
+      plannedStartSeconds: entry.plannedStartSeconds,
+      plannedDurationSeconds: entry.plannedDurationSeconds,
+    };
+    if (entry.kind === "segment-start") {
+      const row = { ...base, actualStart: entry.at, actualEnd: null, skipped: false };
+      rows.push(row);
+      open.set(entry.segmentId, row);
+    } else if (entry.kind === "segment-end") {
+      const row = open.get(entry.segmentId);
+      if (row) {
+        row.actualEnd = entry.at;
+        open.delete(entry.segmentId);
+      } else {
+        rows.push({ ...base, actualStart: null, actualEnd: entry.at, skipped: false });
+      }
+    } else if (entry.kind === "segment-skip" && !open.has(entry.segmentId)) {
+      rows.push({ ...base, actualStart: null, actualEnd: null, skipped: true });
+    }
+  });
+  return rows;
+};
+
+const formatTimestamp = (at: number | null) => (at == null ? "" : format(at, "HH:mm:ss"));
+
+export const buildEventRows = (entries: AsRunEntry[]) => [
+  ["Date", "Time", "Event", "Segment", "Title", "Planned start", "Planned duration", "Detail"],
+  ...entries.map((entry) => [
+    format(entry.at, "yyyy-MM-dd"),
+    format(entry.at, "HH:mm:ss"),
+    AS_RUN_EVENT_LABELS[entry.kind],
+    entry.segmentNumber ?? "",
+    entry.title ?? "",
+    formatClockSeconds(entry.plannedStartSeconds),
+    formatSeconds(entry.plannedDurationSeconds),
+    entry.detail ?? "",
+  ]),
+];
+
+export const buildSegmentRows = (entries: AsRunEntry[]) => [
+  ["Segment", "Title", "Planned start", "Actual start", "Planned duration", "Actual duration", "Over/under", "Status"],
+  ...summarizeSegments(entries).map((row) => {
+    const actualSeconds =
+      row.actualStart != null && row.actualEnd != null ? (row.actualEnd - row.actualStart) / 1000 : undefined;
+    const deltaSeconds =
+      actualSeconds != null && row.plannedDurationSeconds != null ? actualSeconds - row.plannedDurationSeconds : null;
+    return [
+      row.segmentNumber,
+      row.title,
+      formatClockSeconds(row.plannedStartSeconds),
+      formatTimestamp(row.actualStart),
+      formatSeconds(row.plannedDurationSeconds),
+      formatSeconds(actualSeconds),
+      deltaSeconds == null ? "" : `${deltaSeconds >= 0 ? "+" : "-"}${formatSeconds(Math.abs(deltaSeconds))}`,
+      row.skipped ? "Skipped" : row.actualEnd == null ? "Running" : "Done",
+    ];
+  }),
+];
+
+export const buildAsRunWorkbook = (entries: AsRunEntry[]) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(buildSegmentRows(entries)), "Segments");
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(buildEventRows(entries)), "Events");
+  return workbook;
+};
@@ -0,0 +1,82 @@
+export type ClockSyncSampleSource = "world" | "ntp";
+
+export type ClockSyncSample = {
+  at: number;
+  source: ClockSyncSampleSource;
+  server: string | null;
+  offsetMs: number;
+  rttMs: number | null;
+  accepted: boolean;
+};
+
+export const SYNC_HISTORY_LIMIT = 64;
+// Corrections larger than this are stepped; anything smaller is slewed in.
+export const STEP_THRESHOLD_MS = 1000;
+// Milliseconds of correction per elapsed millisecond. 5% keeps every displayed
+// second between 950 and 1050 ms long, so the seconds ring never skips or repeats.
+export const MAX_SLEW_RATE = 0.05;
+
+const OUTLIER_WINDOW = 8;
+const OUTLIER_MIN_SAMPLES = 4;
+const OUTLIER_MAD_FACTOR = 4;
+const OUTLIER_MIN_TOLERANCE_MS = 25;
+const RTT_SPIKE_FACTOR = 3;
+const RTT_MIN_TOLERANCE_MS = 50;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+export const slewOffset = (currentMs: number, targetMs: number, elapsedMs: number) => {
+  const diff = targetMs - currentMs;
+  const maxStep = Math.max(0, elapsedMs) * MAX_SLEW_RATE;
+  if (Math.abs(diff) <= maxStep) return targetMs;
+  return currentMs + Math.sign(diff) * maxStep;
+};
+
+export const shouldStepOffset = (currentMs: number, targetMs: number) =>
+  Math.abs(targetMs - currentMs) > STEP_THRESHOLD_MS;
+
+/**
+ * Compares a new sample against the median of recent accepted samples from the same
+ * source. Offsets further than a few median absolute deviations away, or round trips
+ * far above the usual, are rejected. If the two previous samples were rejected and
+ * agree with this one, the reference has genuinely moved and the sample is accepted.
+ */
+export const isOutlierSample = (
+  history: ClockSyncSample[],
+  candidate: Pick<ClockSyncSample, "source" | "offsetMs" | "rttMs">,
+) => {
+  const sameSource = history.filter((sample) => sample.source === candidate.source);
+  const accepted = sameSource.filter((sample) => sample.accepted).slice(-OUTLIER_WINDOW);
+  if (accepted.length < OUTLIER_MIN_SAMPLES) return false;
+
+  const offsets = accepted.map((sample) => sample.offsetMs);
+  const offsetMedian = median(offsets);
+  const offsetMad = median(offsets.map((offset) => Math.abs(offset - offsetMedian)));
+  const tolerance = Math.max(OUTLIER_MIN_TOLERANCE_MS, offsetMad * OUTLIER_MAD_FACTOR);
+  const offsetDeviates = Math.abs(candidate.offsetMs - offsetMedian) > tolerance;
+
+  const rtts = accepted.map((sample) => sample.rttMs).filter((rtt): rtt is number => rtt != null);
+  const rttMedian = median(rtts);
+  const rttSpikes =
+    candidate.rttMs != null &&
+    rtts.length >= OUTLIER_MIN_SAMPLES &&
+    candidate.rttMs > Math.max(rttMedian * RTT_SPIKE_FACTOR, rttMedian + RTT_MIN_TOLERANCE_MS);
+
+  if (!offsetDeviates && !rttSpikes) return false;
+
+  const previous = sameSource.slice(-2);
+  const persistentShift =
+    offsetDeviates &&
+    !rttSpikes &&
+    previous.length === 2 &&
+    previous.every((sample) => !sample.accepted && Math.abs(sample.offsetMs - candidate.offsetMs) <= tolerance);
+  return !persistentShift;
+};
+
+export const appendSyncSample = (history: ClockSyncSample[], sample: ClockSyncSample) =>
+  [...history, sample].slice(-SYNC_HISTORY_LIMIT);
@@ -0,0 +1,102 @@
+export type CountdownMode = "time-of-day" | "duration";
+
+export type CountdownTimer = {
+  id: string;
+  label: string;
+  mode: CountdownMode;
+  /** HH:mm:ss target for time-of-day timers. */
+  targetTime: string;
+  /** Length of duration timers. */
+  durationSeconds: number;
+  /** Clock time (epoch ms) a duration timer was started at, null while stopped. */
+  startedAt: number | null;
+  warningSeconds: number;
+  criticalSeconds: number;
+  warningColor: string;
+  criticalColor: string;
+  /** When above zero, the timer stays hidden until this many seconds remain. */
+  preRollSeconds: number;
+  enabled: boolean;
+};
+
+export type CountdownStage = "hidden" | "ready" | "running" | "warning" | "critical" | "expired";
+
+export type CountdownStatus = {
+  stage: CountdownStage;
+  /** Seconds left until the target; negative once it has passed. */
+  remainingSeconds: number;
+};
+
+/** How long a passed time-of-day target keeps counting up before rolling over to tomorrow. */
+export const EXPIRED_HOLD_SECONDS = 5 * 60;
+
+export const DEFAULT_WARNING_COLOR = "#f59e0b";
+export const DEFAULT_CRITICAL_COLOR = "#ef4444";
+
+/** Parses H:mm, HH:mm:ss or a bare number of minutes into seconds. */
+export const parseClockDuration = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 60);
+  const parts = trimmed.split(":");
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) return null;
+  const [a, b, c] = parts.map(Number);
+  if (b > 59 || (c ?? 0) > 59) return null;
+  return parts.length === 3 ? a * 3600 + b * 60 + c : a * 60 + b;
+};
+
+const parseTimeOfDay = (value: string) => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const [hours, minutes, seconds] = [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)];
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return { hours, minutes, seconds };
+};
+
+/** The next occurrence of the target time, or today's if it passed less than the hold time ago. */
+export const resolveTimeOfDayTarget = (targetTime: string, now: Date) => {
+  const parsed = parseTimeOfDay(targetTime);
+  if (!parsed) return null;
+  const target = new Date(now);
+  target.setHours(parsed.hours, parsed.minutes, parsed.seconds, 0);
+  if (now.getTime() - target.getTime() > EXPIRED_HOLD_SECONDS * 1000) {
+    target.setDate(target.getDate() + 1);
+  }
+  return target;
+};
+
+export const getCountdownStatus = (timer: CountdownTimer, now: Date): CountdownStatus => {
+  if (!timer.enabled) return { stage: "hidden", remainingSeconds: 0 };
+
+  let remainingMs: number;
+  if (timer.mode === "duration") {
+    if (timer.startedAt == null) return { stage: "ready", remainingSeconds: timer.durationSeconds };
+    remainingMs = timer.startedAt + timer.durationSeconds * 1000 - now.getTime();
+  } else {
+    const target = resolveTimeOfDayTarget(timer.targetTime, now);
+    if (!target) return { stage: "hidden", remainingSeconds: 0 };
+    remainingMs = target.getTime() - now.getTime();
+  }
+
+  // Round up so the display reads 00:01 for the whole last second and 00:00 exactly on target.
+  const remainingSeconds = remainingMs > 0 ? Math.ceil(remainingMs / 1000) : Math.floor(remainingMs / 1000);
+  if (remainingSeconds <= 0) return { stage: "expired", remainingSeconds };
+  if (timer.preRollSeconds > 0 && remainingSeconds > timer.preRollSeconds) {
+    return { stage: "hidden", remainingSeconds };
+  }
+  if (remainingSeconds <= timer.criticalSeconds) return { stage: "critical", remainingSeconds };
+  if (remainingSeconds <= timer.warningSeconds) return { stage: "warning", remainingSeconds };
+  return { stage: "running", remainingSeconds };
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** MM:SS below an hour, H:MM:SS above; passed targets count up with a leading plus. */
+export const formatCountdown = (remainingSeconds: number) => {
+  const total = Math.abs(remainingSeconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  const body = hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+  return remainingSeconds < 0 ? `+${body}` : body;
+};
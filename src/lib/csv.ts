@@ -0,0 +1,69 @@
+const escapeCsvCell = (value: string, delimiter: string) =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** RFC 4180 CSV with CRLF line endings, which Excel opens without an import dialog. */
+export const toCsv = (rows: string[][], delimiter = ",") =>
+  rows.map((row) => row.map((cell) => escapeCsvCell(cell, delimiter)).join(delimiter)).join("\r\n");
+
+const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+/** Splits CSV text into rows, honouring quoted cells with embedded delimiters, quotes and newlines. */
+export const parseCsv = (text: string, delimiter = ",") => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Picks the delimiter that splits the first lines into the same, largest number of columns.
+ * Swedish Excel writes semicolons, most tools write commas.
+ */
+export const detectCsvDelimiter = (text: string) => {
+  const sample = text.split(/\r?\n/).filter((line) => line.trim() !== "").slice(0, 10).join("\n");
+  let best = ",";
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const counts = parseCsv(sample, delimiter).map((row) => row.length);
+    if (counts.length === 0 || counts[0] < 2) return;
+    const consistent = counts.filter((count) => count === counts[0]).length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
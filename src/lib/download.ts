@@ -0,0 +1,40 @@
+import { invoke } from "@tauri-apps/api/core";
+import { isTauri } from "@/lib/tauri";
+
+/** Saves generated content through the browser's download flow. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking synchronously can cancel the download in some WebKit builds.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadTextFile = (content: string, fileName: string, mimeType = "text/plain") => {
+  // The BOM makes Excel read UTF-8 (å, ä, ö) correctly when opening CSV files.
+  const bom = mimeType === "text/csv" ? "\uFEFF" : "";
+  downloadBlob(new Blob([bom + content], { type: `${mimeType};charset=utf-8` }), fileName);
+};
+
+/** CSV text as file bytes, with the BOM that makes Excel read UTF-8 (å, ä, ö) correctly. */
+export const encodeCsv = (content: string) => new TextEncoder().encode(`\uFEFF${content}`);
+
+/** Makes a show or file title safe to use in a file name. */
+export const fileSafeName = (value: string, fallback = "export") =>
+  value.replace(/[^\p{L}\p{N}.-]+/gu, "_").replace(/^_+|_+$/g, "") || fallback;
+
+/**
+ * The desktop app writes exports to `Documents/Studioklocka/output/<relativePath>` (for example
+ * `pdf/show.pdf`) and returns the full path. In a browser the file is downloaded and null returned.
+ */
+export const saveOutputFile = async (bytes: Uint8Array, relativePath: string, mimeType: string) => {
+  if (isTauri()) {
+    return invoke<string>("write_output_file", { relativePath, bytes: Array.from(bytes) });
+  }
+  downloadBlob(new Blob([bytes], { type: mimeType }), relativePath.split("/").pop() || relativePath);
+  return null;
+};
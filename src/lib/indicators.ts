@@ -0,0 +1,132 @@
+/** Integration states an indicator rule can test. */
+export type IndicatorSignal = "mic-live" | "recording" | "ddr-playing" | "segment-type";
+
+export type IndicatorCondition = {
+  signal: IndicatorSignal;
+  /**
+   * What the condition is about: a mic as "ch/9", a DDR number or a segment type. Empty matches any
+   * mic or DDR; recording ignores it.
+   */
+  target: string;
+  negate: boolean;
+};
+
+export type IndicatorRule = {
+  match: "all" | "any";
+  conditions: IndicatorCondition[];
+};
+
+export type IndicatorFlash = "off" | "slow" | "fast";
+
+/** Where the pill sits relative to the watchface. */
+export type IndicatorPlacement = "above" | "below" | "left" | "right";
+
+export type IndicatorDefinition = {
+  id: string;
+  label: string;
+  background: string;
+  text: string;
+  flash: IndicatorFlash;
+  placement: IndicatorPlacement;
+  /** Shown dimmed while the rule is false, like an unlit sign, instead of hidden. */
+  showWhenOff: boolean;
+  rule: IndicatorRule;
+};
+
+/** Current integration states; null where an integration is off or has not reported yet. */
+export type IndicatorSignals = {
+  liveMics: { kind: string; number: number }[] | null;
+  recording: boolean | null;
+  playingDdrs: number[] | null;
+  segmentType: string | null;
+};
+
+export const INDICATOR_SIGNAL_LABELS: Record<IndicatorSignal, string> = {
+  "mic-live": "Mic live",
+  recording: "TriCaster recording",
+  "ddr-playing": "DDR playing",
+  "segment-type": "Segment type on air",
+};
+
+export const INDICATOR_PLACEMENTS: IndicatorPlacement[] = ["above", "below", "left", "right"];
+
+export const micTarget = (input: { kind: string; number: number }) => `${input.kind}/${input.number}`;
+
+const normalizeType = (value: string) => value.trim().toLowerCase();
+
+const testSignal = (condition: IndicatorCondition, signals: IndicatorSignals) => {
+  const target = condition.target.trim();
+  switch (condition.signal) {
+    case "mic-live":
+      return (signals.liveMics ?? []).some((input) => !target || micTarget(input) === target);
+    case "recording":
+      return signals.recording === true;
+    case "ddr-playing":
+      return (signals.playingDdrs ?? []).some((ddr) => !target || String(ddr) === target);
+    case "segment-type":
+      return signals.segmentType != null && normalizeType(signals.segmentType) === normalizeType(target);
+  }
+};
+
+/** A signal that is unknown counts as false, so NOT recording holds while the TriCaster is off. */
+export const evaluateIndicatorCondition = (condition: IndicatorCondition, signals: IndicatorSignals) =>
+  testSignal(condition, signals) !== condition.negate;
+
+/** A rule without conditions never lights. */
+export const evaluateIndicatorRule = (rule: IndicatorRule, signals: IndicatorSignals) => {
+  if (rule.conditions.length === 0) return false;
+  return rule.match === "all"
+    ? rule.conditions.every((condition) => evaluateIndicatorCondition(condition, signals))
+    : rule.conditions.some((condition) => evaluateIndicatorCondition(condition, signals));
+};
+
+/** Indicators to draw right now with whether each is lit; unlit ones without `showWhenOff` are left out. */
+export const getIndicatorStates = (definitions: IndicatorDefinition[], signals: IndicatorSignals) =>
+  definitions
+    .map((definition) => ({ definition, active: evaluateIndicatorRule(definition.rule, signals) }))
+    .filter((state) => state.active || state.definition.showWhenOff);
+
+export type IndicatorPreset = Omit<IndicatorDefinition, "id">;
+
+const condition = (signal: IndicatorSignal, target = "", negate = false): IndicatorCondition => ({
+  signal,
+  target,
+  negate,
+});
+
+/** Starting points offered when adding an indicator; every field can be changed afterwards. */
+export const INDICATOR_PRESETS: IndicatorPreset[] = [
+  {
+    label: "ON AIR",
+    background: "#e11d48",
+    text: "#ffffff",
+    flash: "off",
+    placement: "above",
+    showWhenOff: true,
+    rule: { match: "all", conditions: [condition("mic-live"), condition("recording")] },
+  },
+  {
+    label: "REHEARSAL",
+    background: "#f59e0b",
+    text: "#1c1917",
+    flash: "off",
+    placement: "above",
+    showWhenOff: false,
+    rule: { match: "all", conditions: [condition("segment-type", "Rehearsal"), condition("recording", "", true)] },
+  },
+  {
+    label: "TALKBACK",
+    background: "#16a34a",
+    text: "#ffffff",
+    flash: "fast",
+    placement: "below",
+    showWhenOff: false,
+    rule: { match: "any", conditions: [condition("mic-live")] },
+  },
+];
+
+export const createIndicator = (preset: IndicatorPreset = INDICATOR_PRESETS[0]): IndicatorDefinition => ({
+  ...preset,
+  id: `indicator-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  rule: { ...preset.rule, conditions: preset.rule.conditions.map((entry) => ({ ...entry })) },
+});
@@ -0,0 +1,132 @@
+/** A4 portrait in PDF points. */
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+export type PdfFont = "regular" | "bold";
+
+type PdfTextOptions = {
+  font?: PdfFont;
+  size?: number;
+  /** 0 is black, 1 is white. */
+  gray?: number;
+};
+
+// WinAnsi code points for the characters outside Latin-1 that show up in rundowns.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+const toWinAnsi = (value: string) =>
+  Array.from(value)
+    .map((char) => {
+      const code = char.codePointAt(0) ?? 63;
+      if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      if (code === 9) return " ";
+      return code >= 32 && code <= 255 && (code < 127 || code > 159) ? char : "?";
+    })
+    .join("");
+
+const escapePdfString = (value: string) => toWinAnsi(value).replace(/[\\()]/g, (char) => `\\${char}`);
+
+const fixed = (value: number) => Number(value.toFixed(2)).toString();
+
+/** Approximate Helvetica advance widths, good enough to truncate table cells. */
+export const measurePdfText = (value: string, size: number, font: PdfFont = "regular") => {
+  let width = 0;
+  for (const char of value) {
+    if ("ijl.,:;|!'".includes(char)) width += 0.25;
+    else if ("ftrI -()/[]".includes(char)) width += 0.33;
+    else if ("mwMW@".includes(char)) width += 0.85;
+    else if (char >= "A" && char <= "Z") width += 0.68;
+    else width += 0.55;
+  }
+  return width * size * (font === "bold" ? 1.06 : 1);
+};
+
+export const truncatePdfText = (value: string, maxWidth: number, size: number, font: PdfFont = "regular") => {
+  if (measurePdfText(value, size, font) <= maxWidth) return value;
+  let result = value;
+  while (result.length > 0 && measurePdfText(`${result}…`, size, font) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result.trimEnd()}…`;
+};
+
+/**
+ * A small PDF 1.4 writer with the two built-in Helvetica faces, lines and filled rectangles.
+ * Coordinates are PDF points from the bottom-left corner of the page.
+ */
+export const createPdfDocument = () => {
+  const pages: string[][] = [];
+  let current: string[] = [];
+
+  const addPage = () => {
+    current = [];
+    pages.push(current);
+  };
+  addPage();
+
+  const text = (x: number, y: number, value: string, options: PdfTextOptions = {}) => {
+    const { font = "regular", size = 10, gray = 0 } = options;
+    const fontName = font === "bold" ? "F2" : "F1";
+    const position = `${fixed(x)} ${fixed(y)} Td`;
+    current.push(`${fixed(gray)} g BT /${fontName} ${size} Tf ${position} (${escapePdfString(value)}) Tj ET`);
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number, { width = 0.5, gray = 0.6 } = {}) => {
+    current.push(`${fixed(gray)} G ${fixed(width)} w ${fixed(x1)} ${fixed(y1)} m ${fixed(x2)} ${fixed(y2)} l S`);
+  };
+
+  const rect = (x: number, y: number, width: number, height: number, gray = 0.9) => {
+    current.push(`${fixed(gray)} g ${fixed(x)} ${fixed(y)} ${fixed(width)} ${fixed(height)} re f`);
+  };
+
+  const toBytes = () => {
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    ];
+    const pageIds: number[] = [];
+    pages.forEach((commands) => {
+      const stream = commands.join("\n");
+      objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      const contentId = objects.length;
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`,
+      );
+      pageIds.push(objects.length);
+    });
+    objects[1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+    let output = "%PDF-1.4\n";
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Every character is already a single WinAnsi byte, so string offsets are byte offsets.
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i += 1) bytes[i] = output.charCodeAt(i) & 0xff;
+    return bytes;
+  };
+
+  return { addPage, text, line, rect, toBytes, pageCount: () => pages.length };
+};
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
@@ -0,0 +1,25 @@
+import { invoke } from "@tauri-apps/api/core";
+import { open, save } from "@tauri-apps/plugin-dialog";
+import { PROJECT_FILE_EXTENSION } from "@/lib/runningOrderProject";
+import { isTauri } from "@/lib/tauri";
+
+/** Native open/save dialogs and file paths are only available in the desktop app. */
+export const hasNativeProjectFiles = isTauri;
+
+const PROJECT_FILTERS = [{ name: "Studioklocka project", extensions: [PROJECT_FILE_EXTENSION] }];
+
+export const pickProjectToOpen = async () => {
+  const path = await open({ multiple: false, directory: false, filters: PROJECT_FILTERS });
+  return typeof path === "string" ? path : null;
+};
+
+export const pickProjectSavePath = async (defaultName: string) => {
+  const path = await save({ defaultPath: `${defaultName}.${PROJECT_FILE_EXTENSION}`, filters: PROJECT_FILTERS });
+  if (!path) return null;
+  return path.toLowerCase().endsWith(`.${PROJECT_FILE_EXTENSION}`) ? path : `${path}.${PROJECT_FILE_EXTENSION}`;
+};
+
+export const readProjectFile = (path: string) => invoke<string>("read_project_file", { path });
+
+export const writeProjectFile = (path: string, contents: string) =>
+  invoke<string>("write_project_file", { path, contents });
@@ -0,0 +1,161 @@
+import * as XLSX from "xlsx";
+import type { RunningOrderTimingMode, SegmentTake } from "@/lib/runningOrderTiming";
+import {
+  DEFAULT_FRAME_RATE,
+  framesToSeconds,
+  snapSecondsToFrame,
+  timecodeToFrames,
+  type FrameRateId,
+} from "@/lib/timecode";
+
+export type RunningOrderSegment = {
+  id: string;
+  segmentNumber: string;
+  startSeconds: number | null;
+  durationSeconds: number;
+  type: string;
+  camera: string;
+  casparTemplate: string;
+  casparData: string;
+  notes: string;
+  /** Can be cut to bring an overrunning show back on time. */
+  droppable: boolean;
+  /** Starts at `startSeconds` on the clock whatever happens before it; other segments float. */
+  hardStart: boolean;
+  rowIndex: number;
+};
+
+export type ShotboxItem = {
+  id: string;
+  label: string;
+  template: string;
+  data: string;
+};
+
+export type RunningOrderState = {
+  sourceName: string | null;
+  segments: RunningOrderSegment[];
+  showStartEnabled: boolean;
+  showStartSeconds: number | null;
+  skippedIds: string[];
+  casparAutoPlayEnabled: boolean;
+  shotboxItems: ShotboxItem[];
+  /** Time of day the show must be off air by; the planned end is used when unset. */
+  hardOutSeconds: number | null;
+  /** "yyyy-MM-dd" the running order airs on; today when unset. */
+  showDate: string | null;
+  timingMode: RunningOrderTimingMode;
+  /** Operator takes in manual timing mode, oldest first. */
+  takes: SegmentTake[];
+};
+
+export type EffectiveSegment = RunningOrderSegment & {
+  startSeconds: number;
+  endSeconds: number;
+  isSkipped: boolean;
+  /** For hard starts: time left free (positive) or overrun (negative) after the previous segment. */
+  gapBeforeSeconds: number | null;
+};
+
+/**
+ * Start and end times as they will air: shifted by the show-start override, with later segments
+ * pulled forward by the length of skipped ones. Hard starts stay put and reset that shift, so the
+ * floating segments before each one show up as a gap or an overlap instead of moving the post.
+ */
+export const getEffectiveSegments = (
+  segments: RunningOrderSegment[],
+  skippedIds: string[],
+  showStartSeconds: number | null,
+): EffectiveSegment[] => {
+  const baseStartSeconds = segments.find((segment) => segment.startSeconds != null)?.startSeconds ?? 0;
+  let shift = showStartSeconds != null ? showStartSeconds - baseStartSeconds : 0;
+  let previousEnd: number | null = null;
+  return segments.map((segment) => {
+    const isSkipped = skippedIds.includes(segment.id);
+    if (segment.hardStart) shift = 0;
+    const startSeconds = (segment.startSeconds ?? 0) + shift;
+    const endSeconds = startSeconds + segment.durationSeconds;
+    const gapBeforeSeconds =
+      segment.hardStart && !isSkipped && previousEnd != null ? startSeconds - previousEnd : null;
+    if (isSkipped) {
+      shift -= segment.durationSeconds;
+    } else {
+      previousEnd = endSeconds;
+    }
+    return { ...segment, startSeconds, endSeconds, isSkipped, gapBeforeSeconds };
+  });
+};
+
+export const isBlankCell = (value: unknown) =>
+  value == null || (typeof value === "string" && value.trim() === "");
+
+const parseClockParts = (value: string) => {
+  const parts = value.split(":").map((part) => Number(part));
+  if (parts.length > 3 || parts.some((part) => Number.isNaN(part) || part < 0)) return null;
+  const [h = 0, m = 0, s = 0] = parts;
+  return h * 3600 + m * 60 + s;
+};
+
+export const parseTimeCellToSeconds = (value: unknown) => {
+  if (value == null || value === "") return null;
+  if (value instanceof Date) {
+    return value.getHours() * 3600 + value.getMinutes() * 60 + value.getSeconds();
+  }
+  if (typeof value === "number") {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (!parsed) return null;
+    return parsed.H * 3600 + parsed.M * 60 + Math.floor(parsed.S || 0);
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    return parseClockParts(trimmed);
+  }
+  return null;
+};
+
+/**
+ * Spreadsheet times are day fractions, so whole seconds come back a hair off; those are kept whole.
+ * Only a cell that really has a fraction of a second is snapped to a frame.
+ */
+const snapCellSeconds = (seconds: number, frameRate: FrameRateId) => {
+  const whole = Math.round(seconds);
+  return Math.abs(seconds - whole) < 0.001 ? whole : snapSecondsToFrame(seconds, frameRate);
+};
+
+/** Duration in seconds, 0 for an empty cell, or null when the cell cannot be read as a duration. */
+export const parseDurationCell = (value: unknown, frameRate: FrameRateId = DEFAULT_FRAME_RATE) => {
+  if (isBlankCell(value)) return 0;
+  if (value instanceof Date) {
+    return snapCellSeconds(
+      value.getHours() * 3600 + value.getMinutes() * 60 + value.getSeconds() + value.getMilliseconds() / 1000,
+      frameRate,
+    );
+  }
+  if (typeof value === "number") {
+    if (!Number.isFinite(value) || value < 0) return null;
+    if (value > 0 && value <= 1) {
+      return snapCellSeconds(value * 86400, frameRate);
+    }
+    return Math.round(value);
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    const frames = timecodeToFrames(trimmed, frameRate);
+    if (frames != null) return Math.max(0, framesToSeconds(frames, frameRate));
+    return parseClockParts(trimmed);
+  }
+  return null;
+};
+
+const TRUTHY_CELLS = new Set(["x", "1", "true", "yes", "ja", "y", "j"]);
+
+/** Spreadsheet-style flag: "x", "ja", "yes", "true" or 1 count as set. */
+export const parseFlagCell = (value: unknown) => {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  return typeof value === "string" && TRUTHY_CELLS.has(value.trim().toLowerCase());
+};
+
+export const parseDurationCellToSeconds = (value: unknown, frameRate: FrameRateId = DEFAULT_FRAME_RATE) =>
+  parseDurationCell(value, frameRate) ?? 0;
@@ -0,0 +1,223 @@
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import { sv } from "date-fns/locale";
+import { fileSafeName } from "@/lib/download";
+import {
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  createPdfDocument,
+  measurePdfText,
+  truncatePdfText,
+  type PdfDocument,
+} from "@/lib/pdf";
+import { getEffectiveSegments, type EffectiveSegment, type RunningOrderState } from "@/lib/runningOrder";
+import { unwrapSegmentStarts } from "@/lib/runningOrderTiming";
+
+export type RunningOrderExport = {
+  title: string;
+  date: Date;
+  /** Every segment in running order, skipped ones included and flagged. */
+  segments: EffectiveSegment[];
+};
+
+export const getRunningOrderExport = (
+  state: Pick<RunningOrderState, "sourceName" | "segments" | "skippedIds" | "showStartEnabled" | "showStartSeconds">,
+  date: Date,
+): RunningOrderExport => ({
+  title: state.sourceName?.replace(/\.[^.]+$/, "").trim() || "Running order",
+  date,
+  segments: getEffectiveSegments(
+    unwrapSegmentStarts(state.segments),
+    state.skippedIds,
+    state.showStartEnabled ? state.showStartSeconds : null,
+  ),
+});
+
+export const getExportBaseName = ({ title, date }: RunningOrderExport) =>
+  `${fileSafeName(title, "running-order")}-${format(date, "yyyy-MM-dd")}`;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatHms = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+};
+
+const wrapDay = (seconds: number) => ((seconds % 86400) + 86400) % 86400;
+
+const airedSegments = (data: RunningOrderExport) => data.segments.filter((segment) => !segment.isSkipped);
+
+export const getExportTotals = (data: RunningOrderExport) => {
+  const aired = airedSegments(data);
+  return {
+    start: aired[0]?.startSeconds ?? null,
+    end: aired[aired.length - 1]?.endSeconds ?? null,
+    durationSeconds: aired.reduce((sum, segment) => sum + segment.durationSeconds, 0),
+    skippedCount: data.segments.length - aired.length,
+  };
+};
+
+// Time cells are written as Excel day fractions so they stay editable times, as in the template.
+const timeCell = (seconds: number | null): XLSX.CellObject | null =>
+  seconds == null ? null : { t: "n", v: wrapDay(seconds) / 86400, z: "hh:mm:ss" };
+
+const durationCell = (seconds: number): XLSX.CellObject => ({ t: "n", v: seconds / 86400, z: "[hh]:mm:ss" });
+
+const KORSCHEMA_HEADERS = [
+  "NR",
+  "STARTTID",
+  "TID /",
+  "FORM",
+  "Kamera",
+  "LJUD",
+  "Lämna tom",
+  "Bild i 3d skärm",
+  "GRAFIK/MUSIK\n(Namnskyltar, stillbilder, informationsskyltar, loggor etc)",
+  "ANTECKNINGAR",
+  "MEDV.",
+  "INNEHÅLL\n(Här fylls i en lätt förklaring om vad som ska hända i sändningen)",
+];
+
+/**
+ * The running order as aired, in the column layout of `running-order/Korschema_mall.xlsx`: title
+ * and date on row 1, headers on rows 2 and 3, segments from row 4. Skipped segments are left out,
+ * so the file imports straight back.
+ */
+export const buildRunningOrderWorkbook = (data: RunningOrderExport) => {
+  const aired = airedSegments(data);
+  const { start } = getExportTotals(data);
+  const rows: unknown[][] = [
+    [null, null, null, null, null, data.title, null, null, null, null, null, "DATUM", format(data.date, "yyyy-MM-dd")],
+    KORSCHEMA_HEADERS,
+    [
+      null,
+      timeCell(start),
+      "tid/segment\nhh:mm:ss",
+      null,
+      null,
+      null,
+      "Studiopersonalens\nanteckningar",
+      null,
+      null,
+      "POSITION/REKVISITA",
+    ],
+    ...aired.map((segment) => [
+      /^\d+$/.test(segment.segmentNumber) ? Number(segment.segmentNumber) : segment.segmentNumber,
+      timeCell(segment.startSeconds),
+      durationCell(segment.durationSeconds),
+      segment.type,
+      segment.camera,
+      segment.casparTemplate,
+      segment.casparData,
+      null,
+      null,
+      segment.notes,
+    ]),
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet["!merges"] = [
+    { s: { c: 0, r: 0 }, e: { c: 3, r: 0 } },
+    { s: { c: 5, r: 0 }, e: { c: 10, r: 0 } },
+    ...[0, 3, 4, 5, 8, 10, 11].map((c) => ({ s: { c, r: 1 }, e: { c, r: 2 } })),
+  ];
+  sheet["!cols"] = [6, 10, 10, 22, 10, 18, 18, 12, 30, 30, 8, 40].map((wch) => ({ wch }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Körschema");
+  return workbook;
+};
+
+const MARGIN = 40;
+const ROW_SIZE = 9;
+const LINE_HEIGHT = 11;
+const COLUMNS = [
+  { key: "number", label: "Nr", width: 28 },
+  { key: "start", label: "Start", width: 52 },
+  { key: "duration", label: "Duration", width: 52 },
+  { key: "title", label: "Segment", width: 150 },
+  { key: "camera", label: "Camera", width: 50 },
+  { key: "notes", label: "Notes", width: PDF_PAGE_WIDTH - 2 * MARGIN - 332 },
+] as const;
+
+const wrapText = (value: string, maxWidth: number, size: number) => {
+  const lines: string[] = [];
+  value.split(/\r?\n/).forEach((paragraph) => {
+    let line = "";
+    paragraph.split(/\s+/).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measurePdfText(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(truncatePdfText(line, maxWidth, size));
+  });
+  return lines.filter((line, index) => line || index === 0);
+};
+
+const drawTableHeader = (pdf: PdfDocument, top: number) => {
+  pdf.rect(MARGIN, top - 14, PDF_PAGE_WIDTH - 2 * MARGIN, 16, 0.9);
+  let x = MARGIN + 4;
+  COLUMNS.forEach((column) => {
+    pdf.text(x, top - 9, column.label.toUpperCase(), { font: "bold", size: 8, gray: 0.25 });
+    x += column.width;
+  });
+  return top - 20;
+};
+
+/** A printable A4 rundown: title, date, start, end and total duration, then one row per segment. */
+export const buildRunningOrderPdf = (data: RunningOrderExport, exportedAt = new Date()) => {
+  const pdf = createPdfDocument();
+  const totals = getExportTotals(data);
+  const footer = `Studioklocka · exported ${format(exportedAt, "yyyy-MM-dd HH:mm")}`;
+  const startPage = () => pdf.text(MARGIN, 24, footer, { size: 7, gray: 0.5 });
+
+  startPage();
+  let y = PDF_PAGE_HEIGHT - MARGIN - 10;
+  pdf.text(MARGIN, y, data.title, { font: "bold", size: 18 });
+  y -= 18;
+  pdf.text(MARGIN, y, format(data.date, "EEEE d MMMM yyyy", { locale: sv }), { size: 11, gray: 0.3 });
+  y -= 16;
+  const summary = [
+    `Start ${totals.start != null ? formatHms(wrapDay(totals.start)) : "–"}`,
+    `End ${totals.end != null ? formatHms(wrapDay(totals.end)) : "–"}`,
+    `Total duration ${formatHms(totals.durationSeconds)}`,
+    `${data.segments.length - totals.skippedCount} segments`,
+    ...(totals.skippedCount > 0 ? [`${totals.skippedCount} skipped`] : []),
+  ].join("   ·   ");
+  pdf.text(MARGIN, y, summary, { size: 10 });
+  y = drawTableHeader(pdf, y - 14);
+
+  data.segments.forEach((segment) => {
+    const gray = segment.isSkipped ? 0.55 : 0;
+    const cells: Record<(typeof COLUMNS)[number]["key"], string[]> = {
+      number: [segment.segmentNumber],
+      start: [segment.isSkipped ? "skipped" : formatHms(wrapDay(segment.startSeconds))],
+      duration: [formatHms(segment.durationSeconds)],
+      title: wrapText(segment.type || "Untitled segment", COLUMNS[3].width - 8, ROW_SIZE),
+      camera: [segment.camera],
+      notes: segment.notes ? wrapText(segment.notes, COLUMNS[5].width - 4, ROW_SIZE) : [""],
+    };
+    const lineCount = Math.max(cells.title.length, cells.notes.length);
+    const rowHeight = lineCount * LINE_HEIGHT + 4;
+    if (y - rowHeight < MARGIN + 10) {
+      pdf.addPage();
+      startPage();
+      y = drawTableHeader(pdf, PDF_PAGE_HEIGHT - MARGIN);
+    }
+    let x = MARGIN + 4;
+    COLUMNS.forEach((column) => {
+      cells[column.key].forEach((line, index) => {
+        const value = truncatePdfText(line, column.width - 6, ROW_SIZE);
+        const font = column.key === "title" && index === 0 && !segment.isSkipped ? "bold" : "regular";
+        pdf.text(x, y - 8 - index * LINE_HEIGHT, value, { size: ROW_SIZE, gray, font });
+      });
+      x += column.width;
+    });
+    y -= rowHeight;
+    pdf.line(MARGIN, y + 1, PDF_PAGE_WIDTH - MARGIN, y + 1, { width: 0.3, gray: 0.8 });
+  });
+
+  return pdf.toBytes();
+};
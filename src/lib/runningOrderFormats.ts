@@ -0,0 +1,144 @@
+import * as XLSX from "xlsx";
+import { z } from "zod";
+import { detectCsvDelimiter, parseCsv } from "@/lib/csv";
+import type { FrameRateId } from "@/lib/timecode";
+import {
+  validateRunningOrderRows,
+  type ImportRowError,
+  type RawRunningOrderRow,
+  type RunningOrderImportResult,
+} from "@/lib/runningOrderImport";
+
+/** Value for the running-order file input's `accept` attribute. */
+export const RUNNING_ORDER_FILE_ACCEPT = ".xlsx,.xls,.ods,.csv,.tsv,.txt,.json";
+
+const jsonCell = z.union([z.string(), z.number(), z.null()]).optional();
+
+/** Times as text like the spreadsheet cells, or as a number of seconds (seconds after midnight for `start`). */
+const jsonSeconds = z.union([z.string(), z.number().finite().nonnegative(), z.null()]).optional();
+
+const jsonFlag = z.union([z.boolean(), z.string(), z.number(), z.null()]).optional();
+
+const jsonSegmentSchema = z.object({
+  number: jsonCell,
+  start: jsonSeconds,
+  duration: jsonSeconds,
+  type: jsonCell,
+  camera: jsonCell,
+  casparTemplate: jsonCell,
+  // Automation tools tend to hand over template data as an object; it is stored as JSON text.
+  casparData: z.union([jsonCell, z.record(z.unknown())]),
+  notes: jsonCell,
+  droppable: jsonFlag,
+  hardStart: jsonFlag,
+});
+
+const jsonRundownSchema = z.union([
+  z.object({ name: z.string().optional(), segments: z.array(z.unknown()) }),
+  z.array(z.unknown()),
+]);
+
+export type JsonRundownSegment = z.infer<typeof jsonSegmentSchema>;
+
+// The shared cell parsers read bare numbers as spreadsheet day fractions, so seconds go in as clock text.
+// A fraction keeps three decimals so "0:00:00.500" is not mistaken for a timecode with a frame field.
+const secondsToClock = (value: string | number | null | undefined) => {
+  if (typeof value !== "number") return value;
+  const minutes = String(Math.floor((value % 3600) / 60)).padStart(2, "0");
+  const rest = value % 60;
+  const seconds = Number.isInteger(rest) ? String(rest).padStart(2, "0") : rest.toFixed(3).padStart(6, "0");
+  return `${Math.floor(value / 3600)}:${minutes}:${seconds}`;
+};
+
+/**
+ * Reads the JSON rundown format: `{ "name"?: string, "segments": [...] }` or a bare array of
+ * segments. Entries that are not valid segment objects are reported, not dropped.
+ */
+export const parseJsonRundown = (text: string) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const rundown = jsonRundownSchema.safeParse(data);
+  if (!rundown.success) throw new Error('Expected an array of segments or an object with a "segments" array.');
+  const entries = Array.isArray(rundown.data) ? rundown.data : rundown.data.segments;
+  const name = Array.isArray(rundown.data) ? null : rundown.data.name?.trim() || null;
+
+  const rows: RawRunningOrderRow[] = [];
+  const errors: ImportRowError[] = [];
+  entries.forEach((entry, index) => {
+    const segment = jsonSegmentSchema.safeParse(entry);
+    if (!segment.success) {
+      const issue = segment.error.issues[0];
+      errors.push({
+        rowNumber: index + 1,
+        message: issue?.path.length ? `${issue.path.join(".")}: ${issue.message}` : "not a segment object",
+        values: [JSON.stringify(entry) ?? ""],
+      });
+      return;
+    }
+    const { number, start, duration, type, camera, casparTemplate, casparData, notes, droppable, hardStart } =
+      segment.data;
+    rows.push({
+      rowIndex: index,
+      values: {
+        segmentNumber: number,
+        startSeconds: secondsToClock(start),
+        durationSeconds: secondsToClock(duration),
+        type,
+        camera,
+        casparTemplate,
+        casparData: casparData != null && typeof casparData === "object" ? JSON.stringify(casparData) : casparData,
+        notes,
+        droppable,
+        hardStart,
+      },
+    });
+  });
+  return { name, rows, errors };
+};
+
+export const csvToWorkbook = (text: string, delimiter = detectCsvDelimiter(text)) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(parseCsv(text, delimiter)), "CSV");
+  return workbook;
+};
+
+export type RunningOrderSource =
+  | { kind: "workbook"; workbook: XLSX.WorkBook }
+  | { kind: "segments"; name: string | null; result: RunningOrderImportResult };
+
+const extensionOf = (fileName: string) => fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? "";
+
+/**
+ * Spreadsheets and CSV go through the column-mapping wizard; JSON already names its fields and is
+ * validated straight away. Both end in `validateRunningOrderRows`.
+ */
+export const readRunningOrderFile = (
+  fileName: string,
+  buffer: ArrayBuffer,
+  frameRate: FrameRateId,
+): RunningOrderSource => {
+  const extension = extensionOf(fileName);
+  if (extension === "json") {
+    const { name, rows, errors } = parseJsonRundown(new TextDecoder().decode(buffer));
+    const result = validateRunningOrderRows(rows, frameRate);
+    return {
+      kind: "segments",
+      name,
+      result: {
+        segments: result.segments,
+        errors: [...errors, ...result.errors].sort((a, b) => a.rowNumber - b.rowNumber),
+      },
+    };
+  }
+  if (extension === "csv" || extension === "tsv" || extension === "txt") {
+    return { kind: "workbook", workbook: csvToWorkbook(new TextDecoder().decode(buffer)) };
+  }
+  if (extension === "xlsx" || extension === "xls" || extension === "ods") {
+    return { kind: "workbook", workbook: XLSX.read(buffer, { type: "array", cellDates: true }) };
+  }
+  throw new Error(`Unsupported file type${extension ? ` .${extension}` : ""}.`);
+};
@@ -0,0 +1,217 @@
+import { format } from "date-fns";
+import type { FrameRateId } from "@/lib/timecode";
+import {
+  isBlankCell,
+  parseDurationCell,
+  parseFlagCell,
+  parseTimeCellToSeconds,
+  type RunningOrderSegment,
+} from "@/lib/runningOrder";
+
+export type SegmentField =
+  | "segmentNumber"
+  | "startSeconds"
+  | "durationSeconds"
+  | "type"
+  | "camera"
+  | "casparTemplate"
+  | "casparData"
+  | "notes"
+  | "droppable"
+  | "hardStart";
+
+export const SEGMENT_FIELDS: { id: SegmentField; label: string; aliases: string[] }[] = [
+  { id: "segmentNumber", label: "Number", aliases: ["nr", "#", "no", "number", "nummer", "segment"] },
+  { id: "startSeconds", label: "Start", aliases: ["start", "starttid", "start time", "klockslag", "time"] },
+  { id: "durationSeconds", label: "Duration", aliases: ["längd", "langd", "duration", "length", "dur", "tid"] },
+  { id: "type", label: "Type", aliases: ["typ", "type", "form", "inslag", "titel", "title", "rubrik", "innehåll"] },
+  { id: "camera", label: "Camera", aliases: ["kamera", "camera", "cam", "bild"] },
+  { id: "casparTemplate", label: "Caspar template", aliases: ["caspar template", "template", "mall", "grafik"] },
+  { id: "casparData", label: "Caspar data", aliases: ["caspar data", "data", "f0"] },
+  { id: "notes", label: "Notes", aliases: ["anteckningar", "notes", "kommentar", "comments", "note"] },
+  { id: "droppable", label: "Droppable", aliases: ["droppable", "drop", "stryk", "kan strykas", "optional"] },
+  {
+    id: "hardStart",
+    label: "Hard start",
+    aliases: ["hard start", "hård start", "fast tid", "fixed", "hard", "låst"],
+  },
+];
+
+export type ColumnMapping = Record<SegmentField, number | null>;
+
+export type ImportMapping = {
+  sheetName: string | null;
+  /** Zero-based row holding the column headers; data starts on the row after it. */
+  headerRow: number;
+  columns: ColumnMapping;
+};
+
+/** The fixed layout of Korschema_mall.xlsx, used when a sheet's headers are not recognised. */
+export const KORSCHEMA_MAPPING: ImportMapping = {
+  sheetName: null,
+  headerRow: 2,
+  columns: {
+    segmentNumber: 0,
+    startSeconds: 1,
+    durationSeconds: 2,
+    type: 3,
+    camera: 4,
+    casparTemplate: 5,
+    casparData: 6,
+    notes: 9,
+    droppable: null,
+    hardStart: null,
+  },
+};
+
+export type RawRunningOrderRow = {
+  /** Zero-based row index in the source, kept on the segment as `rowIndex`. */
+  rowIndex: number;
+  values: Partial<Record<SegmentField, unknown>>;
+};
+
+export type ImportRowError = {
+  /** One-based row number as shown in a spreadsheet. */
+  rowNumber: number;
+  message: string;
+  values: string[];
+};
+
+export type RunningOrderImportResult = {
+  segments: RunningOrderSegment[];
+  errors: ImportRowError[];
+};
+
+export const formatCellValue = (value: unknown) => {
+  if (value == null) return "";
+  if (value instanceof Date) return format(value, "HH:mm:ss");
+  return String(value);
+};
+
+const normalizeHeader = (value: unknown) => formatCellValue(value).trim().toLowerCase().replace(/\s+/g, " ");
+
+/** Maps columns to fields by their header text, Swedish or English. */
+export const guessColumns = (headers: unknown[]): ColumnMapping => {
+  const labels = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const columns = {} as ColumnMapping;
+  const find = (aliases: string[], matches: (label: string, alias: string) => boolean) =>
+    labels.findIndex((label, index) => !used.has(index) && label && aliases.some((alias) => matches(label, alias)));
+  // Exact matches first, so "Caspar data" is not taken by the looser "data" alias of another field.
+  SEGMENT_FIELDS.forEach((field) => {
+    const index = find(field.aliases, (label, alias) => label === alias);
+    columns[field.id] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+  SEGMENT_FIELDS.forEach((field) => {
+    if (columns[field.id] != null) return;
+    const index = find(field.aliases, (label, alias) => alias.length > 2 && label.includes(alias));
+    if (index >= 0) {
+      columns[field.id] = index;
+      used.add(index);
+    }
+  });
+  return columns;
+};
+
+const countMapped = (columns: ColumnMapping) => Object.values(columns).filter((value) => value != null).length;
+
+/** Finds the header row among the first rows of a sheet, falling back to the Korschema layout. */
+export const guessMapping = (rows: unknown[][], sheetName: string | null): ImportMapping => {
+  let best: ImportMapping = { ...KORSCHEMA_MAPPING, sheetName };
+  let bestCount = 1;
+  for (let index = 0; index < Math.min(rows.length, 15); index += 1) {
+    const columns = guessColumns(rows[index] ?? []);
+    const count = countMapped(columns);
+    if (count > bestCount && columns.durationSeconds != null) {
+      best = { sheetName, headerRow: index, columns };
+      bestCount = count;
+    }
+  }
+  // Korschema's own headers span two rows and do not name the Caspar columns; use its fixed layout.
+  const { segmentNumber, startSeconds, durationSeconds } = best.columns;
+  const looksLikeKorschema = segmentNumber === 0 && startSeconds === 1 && durationSeconds === 2;
+  if (looksLikeKorschema && best.headerRow < KORSCHEMA_MAPPING.headerRow) {
+    return { ...KORSCHEMA_MAPPING, sheetName };
+  }
+  return best;
+};
+
+export const mapSheetRows = (rows: unknown[][], mapping: ImportMapping): RawRunningOrderRow[] => {
+  const result: RawRunningOrderRow[] = [];
+  for (let i = mapping.headerRow + 1; i < rows.length; i += 1) {
+    const row = rows[i] ?? [];
+    const values: RawRunningOrderRow["values"] = {};
+    SEGMENT_FIELDS.forEach((field) => {
+      const column = mapping.columns[field.id];
+      if (column != null) values[field.id] = row[column];
+    });
+    result.push({ rowIndex: i, values });
+  }
+  return result;
+};
+
+const textValue = (value: unknown) => (isBlankCell(value) ? "" : formatCellValue(value).trim());
+
+/**
+ * Turns raw rows from any source into segments with the same time and duration rules. Blank
+ * rows are skipped, rows with unreadable times are reported, and missing starts follow on from
+ * the previous segment.
+ */
+export const validateRunningOrderRows = (
+  rows: RawRunningOrderRow[],
+  frameRate: FrameRateId,
+): RunningOrderImportResult => {
+  const segments: RunningOrderSegment[] = [];
+  const errors: ImportRowError[] = [];
+  rows.forEach(({ rowIndex, values }) => {
+    const { segmentNumber, startSeconds: startCell, durationSeconds: durationCell, type } = values;
+    if ([segmentNumber, startCell, durationCell, type].every(isBlankCell)) return;
+
+    const problems: string[] = [];
+    const startSeconds = parseTimeCellToSeconds(startCell);
+    if (!isBlankCell(startCell) && startSeconds == null) {
+      problems.push(`start "${formatCellValue(startCell)}" is not a time`);
+    }
+    const hardStart = parseFlagCell(values.hardStart);
+    if (hardStart && isBlankCell(startCell)) {
+      problems.push("hard start without a start time");
+    }
+    const durationSeconds = parseDurationCell(durationCell, frameRate);
+    if (durationSeconds == null) {
+      problems.push(`duration "${formatCellValue(durationCell)}" is not a duration`);
+    }
+    if (problems.length > 0) {
+      errors.push({
+        rowNumber: rowIndex + 1,
+        message: problems.join("; "),
+        values: SEGMENT_FIELDS.map((field) => formatCellValue(values[field.id])),
+      });
+      return;
+    }
+
+    const number = textValue(segmentNumber);
+    segments.push({
+      id: `${rowIndex}-${number || "segment"}`,
+      segmentNumber: number || String(segments.length + 1),
+      startSeconds,
+      durationSeconds,
+      type: textValue(type),
+      camera: textValue(values.camera),
+      casparTemplate: textValue(values.casparTemplate),
+      casparData: textValue(values.casparData),
+      notes: textValue(values.notes),
+      droppable: parseFlagCell(values.droppable),
+      hardStart,
+      rowIndex,
+    });
+  });
+
+  const filled: RunningOrderSegment[] = [];
+  segments.forEach((segment) => {
+    const prev = filled[filled.length - 1];
+    const startSeconds = segment.startSeconds ?? (prev ? prev.startSeconds + prev.durationSeconds : 0);
+    filled.push({ ...segment, startSeconds });
+  });
+  return { segments: filled, errors };
+};
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import type { RunningOrderSegment, RunningOrderState } from "@/lib/runningOrder";
+import { DEFAULT_TIMING_MODE } from "@/lib/runningOrderTiming";
+
+/**
+ * Version of the stored running-order state, shared by localStorage and project files.
+ * 1: fields were added over time, so any of them may be missing. 2: every field is present.
+ */
+export const RUNNING_ORDER_STATE_VERSION = 2;
+
+export const PROJECT_FILE_EXTENSION = "studioklocka";
+
+const PROJECT_FORMAT = "studioklocka";
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+
+const asNumberOrNull = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : null);
+
+const normalizeSegment = (segment: Partial<RunningOrderSegment>, index: number): RunningOrderSegment => ({
+  id: segment.id ?? `segment-${index + 1}`,
+  segmentNumber: segment.segmentNumber ?? String(index + 1),
+  startSeconds: asNumberOrNull(segment.startSeconds),
+  durationSeconds: asNumberOrNull(segment.durationSeconds) ?? 0,
+  type: segment.type ?? "",
+  camera: segment.camera ?? "",
+  casparTemplate: segment.casparTemplate ?? "",
+  casparData: segment.casparData ?? "",
+  notes: segment.notes ?? "",
+  droppable: segment.droppable ?? false,
+  hardStart: segment.hardStart ?? false,
+  rowIndex: segment.rowIndex ?? index,
+});
+
+/** Fills in every field a state from an older version or a hand-edited file may lack. */
+export const normalizeRunningOrderState = (state: Partial<RunningOrderState>): RunningOrderState => ({
+  sourceName: state.sourceName ?? null,
+  segments: asArray<Partial<RunningOrderSegment>>(state.segments).map(normalizeSegment),
+  showStartEnabled: state.showStartEnabled ?? false,
+  showStartSeconds: asNumberOrNull(state.showStartSeconds),
+  skippedIds: asArray<string>(state.skippedIds),
+  casparAutoPlayEnabled: state.casparAutoPlayEnabled ?? false,
+  shotboxItems: asArray(state.shotboxItems),
+  hardOutSeconds: asNumberOrNull(state.hardOutSeconds),
+  showDate: state.showDate ?? null,
+  timingMode: state.timingMode === "manual" ? "manual" : DEFAULT_TIMING_MODE,
+  takes: asArray(state.takes),
+});
+
+// Each entry upgrades a state from its version to the next one.
+const MIGRATIONS: Record<number, (state: Partial<RunningOrderState>) => Partial<RunningOrderState>> = {
+  1: (state) => normalizeRunningOrderState(state),
+};
+
+/** Upgrades a stored state to the current version; throws for versions newer than this build. */
+export const migrateRunningOrderState = (state: unknown, version: number): RunningOrderState => {
+  if (!Number.isInteger(version) || version < 1) throw new Error(`Unknown running-order version ${version}.`);
+  if (version > RUNNING_ORDER_STATE_VERSION) {
+    throw new Error(`The running order was saved by a newer version of Studioklocka (format ${version}).`);
+  }
+  let current = (state && typeof state === "object" ? state : {}) as Partial<RunningOrderState>;
+  for (let step = version; step < RUNNING_ORDER_STATE_VERSION; step += 1) {
+    current = MIGRATIONS[step](current);
+  }
+  return normalizeRunningOrderState(current);
+};
+
+export type StoredRunningOrder = {
+  /** Null when nothing is stored or the stored text cannot be used. */
+  state: RunningOrderState | null;
+  /** Why stored text cannot be used, e.g. it was saved by a newer version. */
+  error: string | null;
+};
+
+/** A state saved to localStorage as `{ version, state }`, telling a missing state from an unreadable one. */
+export const readStoredRunningOrder = (raw: string | null): StoredRunningOrder => {
+  if (!raw) return { state: null, error: null };
+  let parsed: { version: number; state: unknown };
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { state: null, error: "The stored running order is not valid JSON." };
+  }
+  try {
+    return { state: migrateRunningOrderState(parsed?.state, parsed?.version), error: null };
+  } catch (error) {
+    return { state: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/** The stored state; null when missing or unreadable. */
+export const parseStoredRunningOrder = (raw: string | null) => readStoredRunningOrder(raw).state;
+
+export type RunningOrderProject = {
+  name: string;
+  /** ISO timestamp of the last save. */
+  savedAt: string | null;
+  state: RunningOrderState;
+};
+
+const projectFileSchema = z.object({
+  format: z.literal(PROJECT_FORMAT),
+  version: z.number().int(),
+  name: z.string().optional(),
+  savedAt: z.string().optional(),
+  state: z.record(z.unknown()),
+});
+
+export const serializeProject = (state: RunningOrderState, name: string, savedAt: Date) =>
+  JSON.stringify(
+    {
+      format: PROJECT_FORMAT,
+      version: RUNNING_ORDER_STATE_VERSION,
+      name,
+      savedAt: savedAt.toISOString(),
+      state,
+    },
+    null,
+    2,
+  );
+
+export const parseProject = (text: string): RunningOrderProject => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The project file is not valid JSON.");
+  }
+  const project = projectFileSchema.safeParse(data);
+  if (!project.success) throw new Error("This is not a Studioklocka project file.");
+  const state = migrateRunningOrderState(project.data.state, project.data.version);
+  return {
+    name: project.data.name?.trim() || state.sourceName || "Running order",
+    savedAt: project.data.savedAt ?? null,
+    state,
+  };
+};
+
+/** Project name taken from a file path or name, without folders and the extension. */
+export const projectNameFromPath = (path: string) =>
+  path
+    .split(/[\\/]/)
+    .pop()
+    ?.replace(new RegExp(`\\.${PROJECT_FILE_EXTENSION}$`, "i"), "") || "Running order";
@@ -0,0 +1,348 @@
+import { format, isValid, parse, startOfDay } from "date-fns";
+import {
+  getEffectiveSegments,
+  type EffectiveSegment,
+  type RunningOrderSegment,
+  type RunningOrderState,
+} from "@/lib/runningOrder";
+
+/** Time-of-day follows the planned start times; manual waits for the operator to take each segment. */
+export type RunningOrderTimingMode = "time-of-day" | "manual";
+
+export const DEFAULT_TIMING_MODE: RunningOrderTimingMode = "time-of-day";
+
+// Running-order times are seconds since local midnight of the show date, counted in real elapsed
+// time, so they run past 86400 after midnight and stay continuous across DST changes. Spreadsheet
+// and input times are wall-clock times of day and are converted with the helpers below.
+
+export const SHOW_DATE_FORMAT = "yyyy-MM-dd";
+
+/** Local midnight of the show date, or of `now` when no valid date is set. */
+export const getShowDayStart = (showDate: string | null, now: Date) => {
+  const parsed = showDate ? parse(showDate, SHOW_DATE_FORMAT, now) : null;
+  return startOfDay(parsed && isValid(parsed) ? parsed : now);
+};
+
+const DAY = 86400;
+
+/** Moves a time of day by whole days to within twelve hours of `referenceSeconds`. */
+export const unwrapTimeOfDay = (seconds: number, referenceSeconds: number) =>
+  seconds + DAY * Math.round((referenceSeconds - seconds) / DAY);
+
+/** Wall-clock seconds after the show day's midnight (past 86400 for later days) to show seconds. */
+export const wallToShowSeconds = (dayStart: Date, wallSeconds: number) =>
+  (new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate(), 0, 0, wallSeconds).getTime() -
+    dayStart.getTime()) /
+  1000;
+
+export const getShowSeconds = (dayStart: Date, at: Date | number) =>
+  Math.floor((new Date(at).getTime() - dayStart.getTime()) / 1000);
+
+export const formatShowTime = (dayStart: Date, seconds: number) =>
+  format(new Date(dayStart.getTime() + seconds * 1000), "HH:mm:ss");
+
+/** Whole days between the show date and the wall-clock day `seconds` falls on. */
+export const getShowDayOffset = (dayStart: Date, seconds: number) =>
+  Math.round((startOfDay(new Date(dayStart.getTime() + seconds * 1000)).getTime() - dayStart.getTime()) / (DAY * 1000));
+
+/**
+ * Puts wall-clock start times in running order: a start that is more than twelve hours before the
+ * previous one belongs to the next day, so 23:50 followed by 00:10 reads as twenty minutes later.
+ */
+export const unwrapSegmentStarts = (segments: RunningOrderSegment[]) => {
+  let previous: number | null = null;
+  return segments.map((segment) => {
+    if (segment.startSeconds == null) return segment;
+    const startSeconds = previous == null ? segment.startSeconds : unwrapTimeOfDay(segment.startSeconds, previous);
+    previous = startSeconds;
+    return { ...segment, startSeconds };
+  });
+};
+
+/** Segments with their starts converted to show seconds on the given show day. */
+export const anchorSegments = (segments: RunningOrderSegment[], dayStart: Date) =>
+  unwrapSegmentStarts(segments).map((segment) =>
+    segment.startSeconds == null
+      ? segment
+      : { ...segment, startSeconds: wallToShowSeconds(dayStart, segment.startSeconds) },
+  );
+
+export type SegmentTake = {
+  segmentId: string;
+  /** Epoch ms when the segment was taken. */
+  takenAt: number;
+};
+
+export type SegmentStatus = "done" | "missed" | "current" | "upcoming" | "skipped";
+
+export type TimedSegment = EffectiveSegment & {
+  /** Start from the time-of-day plan, before re-timing. */
+  plannedStartSeconds: number;
+  status: SegmentStatus;
+  /** Actual minus planned duration for finished segments; time over for the current one. */
+  overUnderSeconds: number | null;
+};
+
+export type ManualTiming = {
+  segments: TimedSegment[];
+  current: TimedSegment | null;
+  next: TimedSegment | null;
+  plannedEndSeconds: number | null;
+  projectedEndSeconds: number | null;
+  /** Positive when the show will end late. */
+  showOverUnderSeconds: number | null;
+};
+
+/** Take id that ends the segment on air without starting another, closing the show. */
+export const SHOW_END_TAKE_ID = "show-end";
+
+/**
+ * Re-times a running order from the operator's takes. `takes` carry start times in the same
+ * seconds-of-day scale as the segments, oldest first. Taken segments keep their actual start,
+ * and everything after the current segment follows on from it, pushed back while it runs over.
+ * Hard starts keep their clock time; the floating segments before them end in a gap or overlap.
+ */
+export const getManualTiming = (
+  segments: EffectiveSegment[],
+  takes: { segmentId: string; startSeconds: number }[],
+  nowSeconds: number,
+): ManualTiming => {
+  const active = segments.filter((segment) => !segment.isSkipped);
+  const validTakes = takes.filter(
+    (take) => take.segmentId === SHOW_END_TAKE_ID || active.some((segment) => segment.id === take.segmentId),
+  );
+  const takeStarts = new Map<string, number>();
+  const takeEnds = new Map<string, number>();
+  validTakes.forEach((take, index) => {
+    takeStarts.set(take.segmentId, take.startSeconds);
+    const following = validTakes[index + 1];
+    if (following) takeEnds.set(take.segmentId, following.startSeconds);
+    else takeEnds.delete(take.segmentId);
+  });
+  const lastTake = validTakes[validTakes.length - 1];
+  const ended = lastTake?.segmentId === SHOW_END_TAKE_ID;
+  const currentId = lastTake?.segmentId ?? null;
+  // After the end take every segment is behind the show.
+  const currentIndex = ended
+    ? active.length
+    : currentId
+      ? active.findIndex((segment) => segment.id === currentId)
+      : -1;
+
+  // Before the first take the show can still start on time, but not earlier than now.
+  let cursor = ended
+    ? lastTake.startSeconds
+    : currentIndex < 0
+      ? Math.max(nowSeconds, active[0]?.startSeconds ?? nowSeconds)
+      : nowSeconds;
+  let activeIndex = -1;
+  const timed = segments.map((segment): TimedSegment => {
+    const base = { ...segment, plannedStartSeconds: segment.startSeconds, gapBeforeSeconds: null };
+    if (segment.isSkipped) {
+      return { ...base, startSeconds: cursor, endSeconds: cursor, status: "skipped", overUnderSeconds: null };
+    }
+    activeIndex += 1;
+    const takenStart = takeStarts.get(segment.id);
+    if (activeIndex < currentIndex) {
+      if (takenStart == null) return { ...base, status: "missed", overUnderSeconds: null };
+      const end = takeEnds.get(segment.id) ?? takenStart + segment.durationSeconds;
+      return {
+        ...base,
+        startSeconds: takenStart,
+        endSeconds: end,
+        status: "done",
+        overUnderSeconds: end - takenStart - segment.durationSeconds,
+      };
+    }
+    if (activeIndex === currentIndex && takenStart != null) {
+      const end = takenStart + segment.durationSeconds;
+      cursor = Math.max(nowSeconds, end);
+      return {
+        ...base,
+        startSeconds: takenStart,
+        endSeconds: end,
+        status: "current",
+        overUnderSeconds: nowSeconds > end ? nowSeconds - end : null,
+      };
+    }
+    const start = segment.hardStart ? segment.startSeconds : cursor;
+    const gapBeforeSeconds = segment.hardStart ? start - cursor : null;
+    cursor = start + segment.durationSeconds;
+    return {
+      ...base,
+      startSeconds: start,
+      endSeconds: cursor,
+      gapBeforeSeconds,
+      status: "upcoming",
+      overUnderSeconds: null,
+    };
+  });
+
+  const timedActive = timed.filter((segment) => segment.status !== "skipped");
+  const plannedEndSeconds = active.length > 0 ? active[active.length - 1].endSeconds : null;
+  const projectedEndSeconds = active.length > 0 ? cursor : null;
+  return {
+    segments: timed,
+    current: currentIndex >= 0 ? timedActive[currentIndex] ?? null : null,
+    next: timedActive[currentIndex + 1] ?? null,
+    plannedEndSeconds,
+    projectedEndSeconds,
+    showOverUnderSeconds:
+      plannedEndSeconds != null && projectedEndSeconds != null ? projectedEndSeconds - plannedEndSeconds : null,
+  };
+};
+
+/**
+ * The segment on air: the last take in manual timing, otherwise the latest segment whose slot holds
+ * `nowSeconds`, so a hard start takes over from a floating segment that overlaps it.
+ */
+export const findCurrentSegment = <T extends EffectiveSegment>(
+  segments: T[],
+  manual: ManualTiming | null,
+  nowSeconds: number,
+): T | TimedSegment | null => {
+  if (manual) return manual.current;
+  return (
+    [...segments]
+      .reverse()
+      .find(
+        (segment) => !segment.isSkipped && nowSeconds >= segment.startSeconds && nowSeconds < segment.endSeconds,
+      ) ?? null
+  );
+};
+
+export type RunningOrderTiming = {
+  dayStart: Date;
+  /** First planned start, the reference for times of day typed without a date. */
+  baseStartSeconds: number;
+  anchoredSegments: RunningOrderSegment[];
+  showStartOverride: number | null;
+  segments: EffectiveSegment[];
+  nowSeconds: number;
+  /** Set in manual timing. */
+  manual: ManualTiming | null;
+  current: EffectiveSegment | TimedSegment | null;
+};
+
+/** Times a whole running-order state at `now`; the running-order view and the on-air indicators share it. */
+export const getRunningOrderTiming = (
+  state: Pick<
+    RunningOrderState,
+    "segments" | "showDate" | "showStartEnabled" | "showStartSeconds" | "skippedIds" | "timingMode" | "takes"
+  >,
+  now: Date,
+): RunningOrderTiming => {
+  const dayStart = getShowDayStart(state.showDate, now);
+  const baseStartSeconds = state.segments.find((segment) => segment.startSeconds != null)?.startSeconds ?? 0;
+  const anchoredSegments = anchorSegments(state.segments, dayStart);
+  const showStartOverride =
+    state.showStartEnabled && state.showStartSeconds != null
+      ? wallToShowSeconds(dayStart, unwrapTimeOfDay(state.showStartSeconds, baseStartSeconds))
+      : null;
+  const segments = getEffectiveSegments(anchoredSegments, state.skippedIds, showStartOverride);
+  const nowSeconds = getShowSeconds(dayStart, now);
+  const takeStarts = state.takes.map((take) => ({
+    segmentId: take.segmentId,
+    startSeconds: getShowSeconds(dayStart, take.takenAt),
+  }));
+  const manual = state.timingMode === "manual" ? getManualTiming(segments, takeStarts, nowSeconds) : null;
+  return {
+    dayStart,
+    baseStartSeconds,
+    anchoredSegments,
+    showStartOverride,
+    segments,
+    nowSeconds,
+    manual,
+    current: findCurrentSegment(segments, manual, nowSeconds),
+  };
+};
+
+/** The segment on air for a whole running-order state, timed the way the running-order view does. */
+export const getOnAirSegment = (state: RunningOrderState, now: Date) => getRunningOrderTiming(state, now).current;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** "+01:05" for over, "-00:30" for under; hours are added when needed. */
+export const formatOverUnder = (seconds: number) => {
+  const total = Math.round(Math.abs(seconds));
+  const hours = Math.floor(total / 3600);
+  const body = `${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+  return `${seconds < 0 && total > 0 ? "-" : "+"}${hours > 0 ? `${hours}:` : ""}${body}`;
+};
+
+export type BackTiming = {
+  targetEndSeconds: number;
+  projectedEndSeconds: number;
+  /** Positive when the show is heading past the target end. */
+  overUnderSeconds: number;
+  /** Latest start for each remaining segment that still lands the show on the target end. */
+  backTimes: Record<string, number>;
+  /** Droppable remaining segments that together cover the overrun, in running order. */
+  suggestedDrops: string[];
+  /** False when dropping every droppable segment is still not enough. */
+  recoverable: boolean;
+};
+
+/** Picks as little droppable material as possible that still covers `overSeconds`. */
+const pickDrops = (candidates: { id: string; durationSeconds: number }[], overSeconds: number) => {
+  const single = candidates
+    .filter((segment) => segment.durationSeconds >= overSeconds)
+    .sort((a, b) => a.durationSeconds - b.durationSeconds)[0];
+  if (single) return [single];
+  const chosen: typeof candidates = [];
+  let covered = 0;
+  [...candidates]
+    .sort((a, b) => b.durationSeconds - a.durationSeconds)
+    .forEach((segment) => {
+      if (covered >= overSeconds) return;
+      chosen.push(segment);
+      covered += segment.durationSeconds;
+    });
+  // Largest-first can overshoot; give back any segment the rest can cover without.
+  [...chosen]
+    .sort((a, b) => a.durationSeconds - b.durationSeconds)
+    .forEach((segment) => {
+      if (covered - segment.durationSeconds >= overSeconds) {
+        chosen.splice(chosen.indexOf(segment), 1);
+        covered -= segment.durationSeconds;
+      }
+    });
+  return chosen;
+};
+
+/**
+ * Back-times the segments still to come from the target end (the hard out, or the planned end)
+ * and works out which droppable ones would bring an overrunning show back on time. Segments before
+ * a hard start are back-timed from that post, and dropping them cannot move the end.
+ */
+export const getBackTiming = (
+  remaining: Pick<EffectiveSegment, "id" | "startSeconds" | "durationSeconds" | "droppable" | "hardStart">[],
+  projectedEndSeconds: number,
+  targetEndSeconds: number,
+): BackTiming => {
+  const backTimes: Record<string, number> = {};
+  let cursor = targetEndSeconds;
+  let lastHardIndex = -1;
+  for (let index = remaining.length - 1; index >= 0; index -= 1) {
+    const segment = remaining[index];
+    cursor = segment.hardStart ? segment.startSeconds : cursor - segment.durationSeconds;
+    backTimes[segment.id] = cursor;
+    if (segment.hardStart && lastHardIndex < 0) lastHardIndex = index;
+  }
+  const overUnderSeconds = projectedEndSeconds - targetEndSeconds;
+  const droppable = remaining
+    .slice(lastHardIndex + 1)
+    .filter((segment) => segment.droppable && segment.durationSeconds > 0);
+  const drops = overUnderSeconds > 0 ? pickDrops(droppable, overUnderSeconds) : [];
+  const dropped = new Set(drops.map((segment) => segment.id));
+  const recovered = drops.reduce((sum, segment) => sum + segment.durationSeconds, 0);
+  return {
+    targetEndSeconds,
+    projectedEndSeconds,
+    overUnderSeconds,
+    backTimes,
+    suggestedDrops: remaining.filter((segment) => dropped.has(segment.id)).map((segment) => segment.id),
+    recoverable: overUnderSeconds <= 0 || recovered >= overUnderSeconds,
+  };
+};
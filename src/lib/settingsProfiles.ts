@@ -0,0 +1,202 @@
+import { invoke } from "@tauri-apps/api/core";
+import { z } from "zod";
+import {
+  decodeSetting,
+  getSettingDefinitions,
+  readSetting,
+  reportSettingIssue,
+  writeSetting,
+  type SettingDefinition,
+  type SettingIssue,
+} from "@/lib/settingsStore";
+import { isTauri } from "@/lib/tauri";
+
+export const PROFILE_FILE_FORMAT = "studioklocka-profile";
+
+const PROFILE_FILE_VERSION = 1;
+
+/** URL query parameter (`?profile=Studio 2`) that picks the profile at launch. */
+export const PROFILE_URL_PARAM = "profile";
+
+const storedSettingSchema = z.object({
+  version: z.number().int().positive(),
+  value: z.unknown(),
+});
+
+/** Settings by storage key, each in the `{ version, value }` form the settings store writes. */
+export type SettingsSnapshot = Record<string, { version: number; value: unknown }>;
+
+export type SettingsProfile = {
+  name: string;
+  /** ISO timestamp of the last capture or import. */
+  updatedAt: string;
+  settings: SettingsSnapshot;
+};
+
+export type ProfileStore = {
+  /** Profile the current settings belong to; they are captured back into it before a switch. */
+  activeName: string | null;
+  profiles: SettingsProfile[];
+};
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1),
+  updatedAt: z.string(),
+  settings: z.record(storedSettingSchema),
+});
+
+// Not registered with `defineSetting`, so profiles never contain other profiles.
+export const profilesSetting: SettingDefinition<ProfileStore> = {
+  key: "studio_timepiece_profiles_v1",
+  label: "Settings profiles",
+  version: 1,
+  schema: z.object({
+    activeName: z.string().nullable(),
+    profiles: z.array(profileSchema),
+  }),
+  defaults: { activeName: null, profiles: [] },
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const findProfile = (store: ProfileStore, name: string) =>
+  store.profiles.find((profile) => sameName(profile.name, name)) ?? null;
+
+/** Adds the profile, replacing one with the same name (ignoring case) in place. */
+export const upsertProfile = (store: ProfileStore, profile: SettingsProfile): ProfileStore => {
+  const index = store.profiles.findIndex((entry) => sameName(entry.name, profile.name));
+  if (index < 0) return { ...store, profiles: [...store.profiles, profile] };
+  const profiles = [...store.profiles];
+  profiles[index] = profile;
+  return { ...store, profiles };
+};
+
+export const removeProfile = (store: ProfileStore, name: string): ProfileStore => ({
+  activeName: store.activeName && sameName(store.activeName, name) ? null : store.activeName,
+  profiles: store.profiles.filter((profile) => !sameName(profile.name, name)),
+});
+
+/** Every registered setting that has been stored; unset ones stay out and load as defaults. */
+export const captureSettings = (storage: Storage = window.localStorage): SettingsSnapshot => {
+  const snapshot: SettingsSnapshot = {};
+  getSettingDefinitions().forEach((definition) => {
+    const raw = storage.getItem(definition.key);
+    if (raw == null) return;
+    snapshot[definition.key] = { version: definition.version, value: decodeSetting(definition, raw).value };
+  });
+  return snapshot;
+};
+
+/**
+ * Writes a snapshot over the stored settings. Registered settings the snapshot lacks are cleared
+ * back to their defaults; the values themselves are migrated and checked when the hooks read them.
+ */
+export const applySettings = (snapshot: SettingsSnapshot, storage: Storage = window.localStorage) => {
+  getSettingDefinitions().forEach((definition) => {
+    const entry = snapshot[definition.key];
+    if (entry) storage.setItem(definition.key, JSON.stringify(entry));
+    else storage.removeItem(definition.key);
+  });
+};
+
+/** Stores the current settings in the active profile, if there is one. */
+export const captureActiveProfile = (store: ProfileStore, at: Date): ProfileStore => {
+  const active = store.activeName ? findProfile(store, store.activeName) : null;
+  if (!active) return store;
+  return upsertProfile(store, { ...active, updatedAt: at.toISOString(), settings: captureSettings() });
+};
+
+/** Captures the active profile, then loads `name`. Returns false when there is no such profile. */
+export const switchToProfile = (name: string, at: Date) => {
+  const store = captureActiveProfile(readSetting(profilesSetting), at);
+  const target = findProfile(store, name);
+  if (!target) return false;
+  applySettings(target.settings);
+  writeSetting(profilesSetting, { ...store, activeName: target.name });
+  return true;
+};
+
+export const serializeProfile = (profile: SettingsProfile) =>
+  JSON.stringify(
+    {
+      format: PROFILE_FILE_FORMAT,
+      version: PROFILE_FILE_VERSION,
+      name: profile.name,
+      savedAt: profile.updatedAt,
+      settings: profile.settings,
+    },
+    null,
+    2,
+  );
+
+const profileFileSchema = z.object({
+  format: z.literal(PROFILE_FILE_FORMAT),
+  version: z.number().int(),
+  name: z.string(),
+  savedAt: z.string().optional(),
+  settings: z.record(z.unknown()),
+});
+
+/**
+ * Reads an exported profile. Settings this build does not know, or cannot read, are kept as they
+ * are so the profile survives a round trip; the problems found are returned for reporting.
+ */
+export const parseProfile = (text: string, importedAt: Date): { profile: SettingsProfile; issues: SettingIssue[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The profile file is not valid JSON.");
+  }
+  const file = profileFileSchema.safeParse(data);
+  if (!file.success) throw new Error("This is not a Studioklocka profile file.");
+  if (file.data.version > PROFILE_FILE_VERSION) {
+    throw new Error(`The profile was exported by a newer version of Studioklocka (format ${file.data.version}).`);
+  }
+  const name = file.data.name.trim();
+  if (!name) throw new Error("The profile has no name.");
+
+  const settings: SettingsSnapshot = {};
+  const issues: SettingIssue[] = [];
+  Object.entries(file.data.settings).forEach(([key, entry]) => {
+    const stored = storedSettingSchema.safeParse(entry);
+    if (!stored.success) {
+      issues.push({ key, label: key, message: "not a stored setting; left out" });
+      return;
+    }
+    settings[key] = stored.data as SettingsSnapshot[string];
+    const definition = getSettingDefinitions().find((candidate) => candidate.key === key);
+    if (definition) issues.push(...decodeSetting(definition, JSON.stringify(stored.data)).issues);
+  });
+  return { profile: { name, updatedAt: importedAt.toISOString(), settings }, issues };
+};
+
+/**
+ * `?profile=` in the URL, or `--profile <name>` on the desktop app's command line. The app hands the
+ * command-line profile out once per run, so reloading after a switch keeps the chosen profile.
+ */
+export const getLaunchProfileName = async () => {
+  const fromUrl = new URLSearchParams(window.location.search).get(PROFILE_URL_PARAM)?.trim();
+  if (fromUrl) return fromUrl;
+  if (!isTauri()) return null;
+  try {
+    return (await invoke<string | null>("launch_profile"))?.trim() || null;
+  } catch {
+    return null;
+  }
+};
+
+/** Loads the launch profile before the app reads its settings; run once at startup. */
+export const applyLaunchProfile = async () => {
+  const name = await getLaunchProfileName();
+  if (!name) return;
+  const store = readSetting(profilesSetting);
+  if (store.activeName && sameName(store.activeName, name)) return;
+  if (!switchToProfile(name, new Date())) {
+    reportSettingIssue({
+      key: profilesSetting.key,
+      label: "Profile",
+      message: `no profile named "${name}"; keeping the current settings`,
+    });
+  }
+};
@@ -0,0 +1,177 @@
+import { z } from "zod";
+
+/**
+ * A persisted setting: one localStorage key holding `{ version, value }`. Values written before
+ * the store existed (bare JSON or plain text) are read as version 1.
+ */
+export type SettingDefinition<T> = {
+  key: string;
+  /** Shown when a stored value has to be reported. */
+  label: string;
+  version: number;
+  /** Parses to a `T`; typed loosely since zod marks every field optional without strict null checks. */
+  schema: z.ZodTypeAny;
+  defaults: T;
+  /** Each entry upgrades a stored value from its version to the next one. */
+  migrations?: Record<number, (value: unknown) => unknown>;
+  /** Value to start from while the key has never been written, e.g. read from keys it replaced. */
+  readLegacy?: () => unknown;
+};
+
+export type SettingIssue = {
+  key: string;
+  label: string;
+  message: string;
+};
+
+export type DecodedSetting<T> = {
+  value: T;
+  issues: SettingIssue[];
+};
+
+const envelopeSchema = z
+  .object({
+    version: z.number().int().positive(),
+    value: z.unknown(),
+  })
+  .strict();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const definitions = new Map<string, SettingDefinition<unknown>>();
+
+/** Registers a setting so profiles and reports can find every persisted key. */
+export const defineSetting = <T>(definition: SettingDefinition<T>) => {
+  definitions.set(definition.key, definition as SettingDefinition<unknown>);
+  return definition;
+};
+
+export const getSettingDefinitions = () => [...definitions.values()];
+
+const describeIssue = (issue: z.ZodIssue) =>
+  issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+
+/**
+ * Validates a migrated value. Fields missing from an object are filled from the defaults quietly,
+ * since settings gain fields over time; fields that are present but invalid fall back one by one.
+ */
+const validate = <T>(definition: SettingDefinition<T>, value: unknown, report: (message: string) => void): T => {
+  const { schema, defaults } = definition;
+  const candidate = isRecord(defaults) && isRecord(value) ? { ...defaults, ...value } : value;
+  const first = schema.safeParse(candidate);
+  if (first.success) return first.data as T;
+
+  if (isRecord(defaults) && isRecord(candidate)) {
+    const repaired = { ...candidate };
+    first.error.issues.forEach((issue) => {
+      const field = issue.path[0];
+      if (typeof field !== "string" || !(field in defaults)) return;
+      repaired[field] = defaults[field];
+      report(`${describeIssue(issue)}; using the default`);
+    });
+    const second = schema.safeParse(repaired);
+    if (second.success) return second.data as T;
+  }
+  report(`${first.error.issues.map(describeIssue).join("; ")}; using the defaults`);
+  return defaults;
+};
+
+/** Turns the stored text of a setting (null when unset) into a current, valid value. */
+export const decodeSetting = <T>(definition: SettingDefinition<T>, raw: string | null): DecodedSetting<T> => {
+  const issues: SettingIssue[] = [];
+  const report = (message: string) => issues.push({ key: definition.key, label: definition.label, message });
+
+  let stored: unknown;
+  let version = 1;
+  if (raw == null) {
+    try {
+      stored = definition.readLegacy?.();
+    } catch {
+      report("older settings could not be read; using the defaults");
+      return { value: definition.defaults, issues };
+    }
+    if (stored === undefined) return { value: definition.defaults, issues };
+  } else {
+    try {
+      stored = JSON.parse(raw);
+    } catch {
+      // Older builds kept some settings as plain text.
+      stored = raw;
+    }
+    const envelope = envelopeSchema.safeParse(stored);
+    if (envelope.success) {
+      version = envelope.data.version;
+      stored = envelope.data.value;
+    }
+  }
+
+  if (version > definition.version) {
+    report(`saved by a newer version of Studioklocka (format ${version}); using the defaults`);
+    return { value: definition.defaults, issues };
+  }
+  try {
+    for (let step = version; step < definition.version; step += 1) {
+      const migrate = definition.migrations?.[step];
+      if (migrate) stored = migrate(stored);
+    }
+  } catch (error) {
+    report(`could not be upgraded (${error instanceof Error ? error.message : String(error)}); using the defaults`);
+    return { value: definition.defaults, issues };
+  }
+  return { value: validate(definition, stored, report), issues };
+};
+
+export const encodeSetting = <T>(definition: SettingDefinition<T>, value: T) =>
+  JSON.stringify({ version: definition.version, value });
+
+/** Where the original text of a value that failed to load is kept, so it can be recovered by hand. */
+export const settingBackupKey = (key: string) => `${key}_invalid`;
+
+const issues: SettingIssue[] = [];
+const issueListeners = new Set<(issue: SettingIssue) => void>();
+
+export const reportSettingIssue = (issue: SettingIssue) => {
+  issues.push(issue);
+  console.warn(`[settings] ${issue.label} (${issue.key}): ${issue.message}`);
+  issueListeners.forEach((listener) => listener(issue));
+};
+
+export const getSettingIssues = () => [...issues];
+
+/** Calls `listener` for every issue reported from now on. */
+export const subscribeSettingIssues = (listener: (issue: SettingIssue) => void) => {
+  issueListeners.add(listener);
+  return () => {
+    issueListeners.delete(listener);
+  };
+};
+
+export const readSetting = <T>(definition: SettingDefinition<T>): T => {
+  if (typeof window === "undefined") return definition.defaults;
+  let raw: string | null = null;
+  try {
+    raw = window.localStorage.getItem(definition.key);
+  } catch {
+    return definition.defaults;
+  }
+  const decoded = decodeSetting(definition, raw);
+  if (decoded.issues.length > 0 && raw != null) {
+    try {
+      window.localStorage.setItem(settingBackupKey(definition.key), raw);
+    } catch {
+      // ignore storage errors
+    }
+  }
+  decoded.issues.forEach(reportSettingIssue);
+  return decoded.value;
+};
+
+export const writeSetting = <T>(definition: SettingDefinition<T>, value: T) => {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(definition.key, encodeSetting(definition, value));
+  } catch {
+    // ignore storage errors
+  }
+};
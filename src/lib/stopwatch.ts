@@ -0,0 +1,71 @@
+export type StopwatchLap = {
+  /** 1-based lap number. */
+  index: number;
+  /** Elapsed time when the lap was taken (the split). */
+  splitMs: number;
+  /** Time since the previous lap. */
+  lapMs: number;
+  /** Wall-clock time the lap was taken, for the export. */
+  recordedAt: number;
+};
+
+export type StopwatchState = {
+  /** Wall-clock start of the current run, null while stopped. */
+  startedAt: number | null;
+  /** Time banked by earlier runs before the last stop. */
+  accumulatedMs: number;
+  laps: StopwatchLap[];
+};
+
+export const EMPTY_STOPWATCH: StopwatchState = { startedAt: null, accumulatedMs: 0, laps: [] };
+
+export const getElapsedMs = (state: StopwatchState, nowMs: number) =>
+  state.accumulatedMs + (state.startedAt != null ? Math.max(0, nowMs - state.startedAt) : 0);
+
+export const startStopwatch = (state: StopwatchState, nowMs: number): StopwatchState =>
+  state.startedAt != null ? state : { ...state, startedAt: nowMs };
+
+export const stopStopwatch = (state: StopwatchState, nowMs: number): StopwatchState =>
+  state.startedAt == null ? state : { ...state, startedAt: null, accumulatedMs: getElapsedMs(state, nowMs) };
+
+export const recordLap = (state: StopwatchState, nowMs: number): StopwatchState => {
+  const splitMs = getElapsedMs(state, nowMs);
+  const previous = state.laps[state.laps.length - 1];
+  return {
+    ...state,
+    laps: [
+      ...state.laps,
+      {
+        index: state.laps.length + 1,
+        splitMs,
+        lapMs: splitMs - (previous?.splitMs ?? 0),
+        recordedAt: nowMs,
+      },
+    ],
+  };
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** HH:MM:SS.t — tenths are truncated so the display never runs ahead of the stored time. */
+export const formatStopwatch = (ms: number) => {
+  const totalTenths = Math.floor(Math.max(0, ms) / 100);
+  const tenths = totalTenths % 10;
+  const totalSeconds = Math.floor(totalTenths / 10);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${tenths}`;
+};
+
+export const lapsToCsvRows = (laps: StopwatchLap[]) => [
+  ["Lap", "Lap time", "Split", "Lap (s)", "Split (s)", "Recorded at"],
+  ...laps.map((lap) => [
+    String(lap.index),
+    formatStopwatch(lap.lapMs),
+    formatStopwatch(lap.splitMs),
+    (lap.lapMs / 1000).toFixed(1),
+    (lap.splitMs / 1000).toFixed(1),
+    new Date(lap.recordedAt).toISOString(),
+  ]),
+];
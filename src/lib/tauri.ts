@@ -0,0 +1,6 @@
+/** True inside the desktop app, where the Rust commands and native plugins are available. */
+export const isTauri = () => {
+  if (typeof window === "undefined") return false;
+  const globals = window as unknown as { __TAURI__?: unknown; __TAURI_INTERNALS__?: unknown };
+  return Boolean(globals.__TAURI__ || globals.__TAURI_INTERNALS__);
+};
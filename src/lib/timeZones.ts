@@ -0,0 +1,94 @@
+export type WorldClockEntry = {
+  id: string;
+  label: string;
+  timeZone: string;
+  abbreviation?: string;
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+// Intl.DateTimeFormat construction is comparatively slow, and the strip re-renders every tick.
+const getFormatter = (timeZone: string, options: Intl.DateTimeFormatOptions, cacheKey: string, locale = "en-GB") => {
+  const key = `${locale}|${timeZone}|${cacheKey}`;
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, { ...options, timeZone });
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  if (!timeZone.trim()) return false;
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: timeZone.trim() });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const listTimeZones = (): string[] => {
+  const intl = Intl as unknown as { supportedValuesOf?: (key: string) => string[] };
+  try {
+    return intl.supportedValuesOf?.("timeZone") ?? [];
+  } catch {
+    return [];
+  }
+};
+
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = getFormatter(
+    timeZone,
+    {
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    },
+    "parts",
+  ).formatToParts(date);
+  const lookup = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return {
+    year: lookup("year"),
+    month: lookup("month"),
+    day: lookup("day"),
+    hour: lookup("hour"),
+    minute: lookup("minute"),
+    second: lookup("second"),
+  };
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** Wall-clock HH:mm:ss in the zone. Computed from the instant, so DST transitions are exact. */
+export const formatZonedTime = (date: Date, timeZone: string) => {
+  const { hour, minute, second } = getZonedParts(date, timeZone);
+  return `${pad(hour)}:${pad(minute)}:${pad(second)}`;
+};
+
+/** The zone's short name at this instant, e.g. CET in winter and CEST in summer. */
+export const getZoneAbbreviation = (date: Date, timeZone: string) => {
+  // Each locale only knows the abbreviations of its own region (en-US: EST/PDT, en-GB: CET/BST),
+  // falling back to GMT±N for the rest. Take the first named one.
+  let fallback = timeZone;
+  for (const locale of ["en-US", "en-GB"]) {
+    const parts = getFormatter(timeZone, { timeZoneName: "short" }, "abbr", locale).formatToParts(date);
+    const name = parts.find((part) => part.type === "timeZoneName")?.value;
+    if (!name) continue;
+    if (!/^(GMT|UTC)[+-]/.test(name)) return name;
+    fallback = name;
+  }
+  return fallback;
+};
+
+/** Calendar day difference between the zone and the local machine: -1, 0 or +1. */
+export const getZoneDayOffset = (date: Date, timeZone: string) => {
+  const zoned = getZonedParts(date, timeZone);
+  const zonedDay = Date.UTC(zoned.year, zoned.month - 1, zoned.day);
+  const localDay = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.round((zonedDay - localDay) / 86400000);
+};
@@ -0,0 +1,101 @@
+export type FrameRateId = "24" | "25" | "29.97df" | "30" | "50" | "59.94df";
+
+type FrameRate = {
+  id: FrameRateId;
+  label: string;
+  /** Nominal integer frame count per timecode second. */
+  fps: number;
+  /** Actual frames per wall-clock second. */
+  rate: number;
+  dropFrame: boolean;
+};
+
+export const FRAME_RATES: Record<FrameRateId, FrameRate> = {
+  "24": { id: "24", label: "24", fps: 24, rate: 24, dropFrame: false },
+  "25": { id: "25", label: "25", fps: 25, rate: 25, dropFrame: false },
+  "29.97df": { id: "29.97df", label: "29.97 DF", fps: 30, rate: 30000 / 1001, dropFrame: true },
+  "30": { id: "30", label: "30", fps: 30, rate: 30, dropFrame: false },
+  "50": { id: "50", label: "50", fps: 50, rate: 50, dropFrame: false },
+  "59.94df": { id: "59.94df", label: "59.94 DF", fps: 60, rate: 60000 / 1001, dropFrame: true },
+};
+
+export const FRAME_RATE_IDS = Object.keys(FRAME_RATES) as FrameRateId[];
+export const DEFAULT_FRAME_RATE: FrameRateId = "25";
+
+export const isFrameRateId = (value: unknown): value is FrameRateId =>
+  typeof value === "string" && value in FRAME_RATES;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Drop-frame skips frame labels 0 and 1 (0-3 at 59.94) at the start of every minute
+// except each tenth minute.
+const droppedPerMinute = (frameRate: FrameRate) => (frameRate.dropFrame ? Math.round(frameRate.fps / 15) : 0);
+
+const framesPerDay = (frameRate: FrameRate) => {
+  const drop = droppedPerMinute(frameRate);
+  return (frameRate.fps * 600 - drop * 9) * 6 * 24;
+};
+
+export const framesToTimecode = (totalFrames: number, frameRateId: FrameRateId, wrapDay = false) => {
+  const frameRate = FRAME_RATES[frameRateId];
+  const { fps } = frameRate;
+  let frames = Math.floor(totalFrames);
+  if (wrapDay) {
+    const day = framesPerDay(frameRate);
+    frames = ((frames % day) + day) % day;
+  }
+  const sign = frames < 0 ? "-" : "";
+  frames = Math.abs(frames);
+
+  const drop = droppedPerMinute(frameRate);
+  if (drop > 0) {
+    const framesPerMinute = fps * 60 - drop;
+    const framesPerTenMinutes = fps * 600 - drop * 9;
+    const tens = Math.floor(frames / framesPerTenMinutes);
+    const remainder = frames % framesPerTenMinutes;
+    frames += drop * 9 * tens;
+    if (remainder > drop) {
+      frames += drop * Math.floor((remainder - drop) / framesPerMinute);
+    }
+  }
+
+  const ff = frames % fps;
+  const ss = Math.floor(frames / fps) % 60;
+  const mm = Math.floor(frames / (fps * 60)) % 60;
+  const hh = Math.floor(frames / (fps * 3600));
+  const separator = frameRate.dropFrame ? ";" : ":";
+  return `${sign}${pad(wrapDay ? hh % 24 : hh)}:${pad(mm)}:${pad(ss)}${separator}${pad(ff)}`;
+};
+
+/** Parses HH:MM:SS:FF (any of `:;.,` as separators, optional leading minus) into a frame count. */
+export const timecodeToFrames = (value: string, frameRateId: FrameRateId) => {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(-)?(\d+)[:;.,](\d{1,2})[:;.,](\d{1,2})[:;.,](\d{1,2})$/);
+  if (!match) return null;
+  const frameRate = FRAME_RATES[frameRateId];
+  const [hh, mm, ss, ff] = match.slice(2).map(Number);
+  if (mm > 59 || ss > 59 || ff >= frameRate.fps) return null;
+  const totalMinutes = hh * 60 + mm;
+  const drop = droppedPerMinute(frameRate);
+  const frames =
+    (hh * 3600 + mm * 60 + ss) * frameRate.fps + ff - drop * (totalMinutes - Math.floor(totalMinutes / 10));
+  return match[1] ? -frames : frames;
+};
+
+export const secondsToFrames = (seconds: number, frameRateId: FrameRateId) =>
+  Math.round(seconds * FRAME_RATES[frameRateId].rate);
+
+export const framesToSeconds = (frames: number, frameRateId: FrameRateId) => frames / FRAME_RATES[frameRateId].rate;
+
+export const snapSecondsToFrame = (seconds: number, frameRateId: FrameRateId) =>
+  framesToSeconds(secondsToFrames(seconds, frameRateId), frameRateId);
+
+export const formatDurationTimecode = (seconds: number, frameRateId: FrameRateId) =>
+  framesToTimecode(secondsToFrames(Math.max(0, seconds), frameRateId), frameRateId);
+
+export const timeOfDayTimecode = (date: Date, frameRateId: FrameRateId, offsetFrames = 0) => {
+  const msSinceMidnight =
+    ((date.getHours() * 60 + date.getMinutes()) * 60 + date.getSeconds()) * 1000 + date.getMilliseconds();
+  const frames = Math.floor((msSinceMidnight * FRAME_RATES[frameRateId].rate) / 1000) + offsetFrames;
+  return framesToTimecode(frames, frameRateId, true);
+};
@@ -0,0 +1,46 @@
+export type UndoHistory<T> = {
+  /** Earlier states, oldest first. */
+  past: T[];
+  /** States undone since the last change, next redo first. */
+  future: T[];
+  /** Epoch ms of the last recorded change, 0 when the next change must start a new step. */
+  lastChangeAt: number;
+};
+
+export const UNDO_HISTORY_LIMIT = 50;
+
+/** Mergeable changes closer together than this, such as keystrokes in one field, undo as a single step. */
+export const UNDO_MERGE_MS = 1000;
+
+export const createUndoHistory = <T>(): UndoHistory<T> => ({ past: [], future: [], lastChangeAt: 0 });
+
+/** Records `previous` as the state to go back to before a change made at `at`. */
+export const recordChange = <T>(
+  history: UndoHistory<T>,
+  previous: T,
+  at: number,
+  { mergeable = false, limit = UNDO_HISTORY_LIMIT }: { mergeable?: boolean; limit?: number } = {},
+): UndoHistory<T> => {
+  const merge = mergeable && history.past.length > 0 && at - history.lastChangeAt < UNDO_MERGE_MS;
+  return {
+    past: merge ? history.past : [...history.past, previous].slice(-limit),
+    future: [],
+    lastChangeAt: mergeable ? at : 0,
+  };
+};
+
+export const undoChange = <T>(history: UndoHistory<T>, current: T) => {
+  if (history.past.length === 0) return null;
+  return {
+    state: history.past[history.past.length - 1],
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future], lastChangeAt: 0 },
+  };
+};
+
+export const redoChange = <T>(history: UndoHistory<T>, current: T) => {
+  if (history.future.length === 0) return null;
+  return {
+    state: history.future[0],
+    history: { past: [...history.past, current], future: history.future.slice(1), lastChangeAt: 0 },
+  };
+};
@@ -0,0 +1,189 @@
+/** Inputs that can carry a microphone: the 32 channels and the 8 aux ins. */
+export type X32InputKind = "ch" | "auxin";
+
+export const X32_INPUT_COUNTS: Record<X32InputKind, number> = { ch: 32, auxin: 8 };
+export const X32_BUS_COUNT = 16;
+export const X32_DCA_COUNT = 8;
+
+export type X32Input = {
+  kind: X32InputKind;
+  number: number;
+  /** Presenter or mic name; the desk's scribble-strip name is used when empty. */
+  label: string;
+};
+
+export type X32LiveOptions = {
+  /** Fader level (0–1) a strip must be above to pass sound. */
+  threshold: number;
+  /** A muted or closed DCA the input is assigned to takes it off air. */
+  followDca: boolean;
+  /** The input only counts when it is sent to the main LR bus and that bus is open. */
+  requireMainBus: boolean;
+  /** The input only counts while its meter shows signal before the fader. */
+  requireSignal: boolean;
+};
+
+export type X32StripPayload = {
+  kind: X32InputKind | "bus" | "dca" | "main";
+  number: number;
+  on: boolean;
+  fader: number;
+  dcas: number[];
+  main: boolean;
+  /** Scribble-strip name and colour (0–15) from the desk; empty and 0 for buses, DCAs and main. */
+  name: string;
+  color: number;
+};
+
+/** Payload of the `x32_mic_state` event from the desktop listener. */
+export type X32MixerPayload = {
+  inputs: X32StripPayload[];
+  buses: X32StripPayload[];
+  dcas: X32StripPayload[];
+  main: X32StripPayload | null;
+  updated_at: number;
+};
+
+/** A desk that answered the `/xinfo` discovery broadcast. */
+export type X32DiscoveredMixer = {
+  host: string;
+  port: number;
+  name: string;
+  model: string;
+  firmware: string;
+};
+
+/** One input in an `x32_meters` frame; levels are linear, 1 being full scale. */
+export type X32MeterPayload = {
+  kind: X32InputKind;
+  number: number;
+  pre: number;
+  /** Level after the fader and mute. */
+  post: number;
+};
+
+export type X32MeterFrame = {
+  inputs: X32MeterPayload[];
+  updated_at: number;
+};
+
+/** Last time (ms) each metered input's pre-fader level reached the threshold, 0 when it never has. */
+export type X32SignalState = Record<string, number>;
+
+/** Signal keeps counting as present this long after the level drops, so pauses between words do not drop a mic. */
+export const X32_SIGNAL_HOLD_MS = 1500;
+export const X32_METER_FLOOR_DB = -60;
+
+export const DEFAULT_X32_INPUTS: X32Input[] = [1, 2, 3, 4, 5, 6].map((number) => ({ kind: "ch", number, label: "" }));
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const formatX32Strip = (kind: X32StripPayload["kind"], number: number) => {
+  if (kind === "ch") return `Ch ${pad(number)}`;
+  if (kind === "auxin") return `Aux ${pad(number)}`;
+  if (kind === "bus") return `Bus ${pad(number)}`;
+  if (kind === "dca") return `DCA ${number}`;
+  return "Main LR";
+};
+
+type StripRef = { kind: string; number: number };
+
+export const isSameX32Input = (a: StripRef, b: StripRef) => a.kind === b.kind && a.number === b.number;
+
+const stripKey = (strip: StripRef) => `${strip.kind}/${strip.number}`;
+
+export const x32LevelToDb = (level: number) => (level > 0 ? 20 * Math.log10(level) : Number.NEGATIVE_INFINITY);
+
+export const trackX32Signal = (previous: X32SignalState, frame: X32MeterFrame, thresholdDb: number) => {
+  const next: X32SignalState = { ...previous };
+  frame.inputs.forEach((meter) => {
+    const key = stripKey(meter);
+    if (x32LevelToDb(meter.pre) >= thresholdDb) next[key] = frame.updated_at;
+    else if (next[key] == null) next[key] = 0;
+  });
+  return next;
+};
+
+/** Whether the input had signal within the hold time before `at`; null when it has not been metered. */
+export const hasX32Signal = (signal: X32SignalState, input: StripRef, at: number, holdMs = X32_SIGNAL_HOLD_MS) => {
+  const lastSignal = signal[stripKey(input)];
+  if (lastSignal == null) return null;
+  return lastSignal > 0 && at - lastSignal <= holdMs;
+};
+
+/** Scribble-strip colours in desk order; 8–15 are the inverted variants of the same colours. */
+const X32_COLORS = [null, "#ef4444", "#22c55e", "#eab308", "#3b82f6", "#d946ef", "#06b6d4", "#f8fafc"];
+
+/** CSS colour for a scribble-strip colour index, or null when the strip has none. */
+export const x32ColorToCss = (color: number) => X32_COLORS[Math.round(color) % X32_COLORS.length] ?? null;
+
+export const findX32Strip = (input: StripRef, mixer: X32MixerPayload | null) =>
+  mixer?.inputs.find((candidate) => isSameX32Input(candidate, input)) ?? null;
+
+/** The label when set, then the desk's name for the strip, then its position. */
+export const formatX32Input = (input: X32Input, mixer: X32MixerPayload | null = null) =>
+  input.label.trim() || findX32Strip(input, mixer)?.name.trim() || formatX32Strip(input.kind, input.number);
+
+export const formatX32Mixer = (mixer: X32DiscoveredMixer) =>
+  [mixer.name, [mixer.model, mixer.firmware].filter(Boolean).join(" "), mixer.host]
+    .filter(Boolean)
+    .join(" • ");
+
+/** Bus numbers from "1, 3-4" style text; out-of-range and repeated numbers are dropped. */
+export const parseX32Buses = (text: string) => {
+  const buses: number[] = [];
+  text.split(/[,\s]+/).forEach((part) => {
+    const range = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!range) return;
+    const from = Number(range[1]);
+    const to = Number(range[2] ?? range[1]);
+    for (let bus = from; bus <= Math.min(to, X32_BUS_COUNT); bus += 1) {
+      if (bus >= 1 && !buses.includes(bus)) buses.push(bus);
+    }
+  });
+  return buses;
+};
+
+const isOpen = (strip: Pick<X32StripPayload, "on" | "fader">, threshold: number) =>
+  strip.on && strip.fader > threshold;
+
+/**
+ * Whether an input is on air: unmuted with its fader up, and, depending on the options, not held
+ * back by a DCA, the main bus or a silent meter. Strips and meters the desk has not reported yet do
+ * not block the input.
+ */
+export const isX32InputLive = (
+  input: X32StripPayload,
+  mixer: X32MixerPayload,
+  options: X32LiveOptions,
+  signal: boolean | null = null,
+) => {
+  if (!isOpen(input, options.threshold)) return false;
+  if (options.requireSignal && signal === false) return false;
+  if (options.followDca) {
+    const closedDca = input.dcas.some((number) => {
+      const dca = mixer.dcas.find((strip) => strip.number === number);
+      return dca != null && !isOpen(dca, options.threshold);
+    });
+    if (closedDca) return false;
+  }
+  if (options.requireMainBus) {
+    if (!input.main) return false;
+    if (mixer.main && !isOpen(mixer.main, options.threshold)) return false;
+  }
+  return true;
+};
+
+/** The configured inputs that are live, in configured order. */
+export const getLiveX32Inputs = (
+  inputs: X32Input[],
+  mixer: X32MixerPayload | null,
+  options: X32LiveOptions,
+  hasSignal: (input: X32Input) => boolean | null = () => null,
+) => {
+  if (!mixer) return [];
+  return inputs.filter((input) => {
+    const strip = findX32Strip(input, mixer);
+    return strip != null && isX32InputLive(strip, mixer, options, hasSignal(input));
+  });
+};
@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { applyLaunchProfile } from "./lib/settingsProfiles";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// The launch profile has to be in place before the hooks read their settings.
+void applyLaunchProfile().finally(() => {
+  createRoot(document.getElementById("root")!).render(<App />);
+});
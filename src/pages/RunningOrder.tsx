@@ -1,14 +1,23 @@
 import { useClock } from "@/hooks/useClock";
 import { useTriCasterDdr } from "@/hooks/useTriCasterDdr";
 import { useCasparCg } from "@/hooks/useCasparCg";
+import { useTimecodeSettings } from "@/hooks/useTimecodeSettings";
+import { useWorldClocks } from "@/hooks/useWorldClocks";
+import { useCountdownTimers } from "@/hooks/useCountdownTimers";
 import RunningOrderLayout from "@/components/clock/RunningOrderLayout";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import { Button } from "@/components/ui/button";
 import DdrCountdown from "@/components/clock/DdrCountdown";
+import WorldClockStrip from "@/components/clock/WorldClockStrip";
+import CountdownTimers from "@/components/clock/CountdownTimers";
+import Stopwatch from "@/components/clock/Stopwatch";
 
 const RunningOrder = () => {
   const { now: time } = useClock();
   const { config: tricasterConfig, countdown: tricasterCountdown } = useTriCasterDdr();
+  const { config: timecodeConfig } = useTimecodeSettings();
+  const { validClocks: worldClocks } = useWorldClocks();
+  const { timers: countdownTimers } = useCountdownTimers();
   const {
     config: casparConfig,
     isTauri,
@@ -26,6 +35,7 @@ const RunningOrder = () => {
           now={time}
           persistKey="studio_timepiece_running_order_v1"
           syncFromStorage
+          timecode={{ frameRate: timecodeConfig.frameRate, showFrames: timecodeConfig.displayMode === "timecode" }}
           casparControls={
             casparRunningOrderEnabled
               ? {
@@ -57,6 +67,13 @@ const RunningOrder = () => {
               <div className="mt-4 flex flex-col items-center">
                 <div className="text-sm text-muted-foreground">Live clock is in main view</div>
               </div>
+              {worldClocks.length > 0 && (
+                <WorldClockStrip now={time} clocks={worldClocks} size="sm" className="mt-4" />
+              )}
+              <CountdownTimers now={time} timers={countdownTimers} size="sm" className="mt-4" />
+              <div className="mt-4 border-t border-border/60 pt-4">
+                <Stopwatch compact />
+              </div>
             </div>
           }
         />
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { EMPTY_AS_RUN_LOG, appendEntry, beginShow, buildSegmentRows, type AsRunEvent } from "@/lib/asRunLog";
+
+const at = (hours: number, minutes: number, seconds = 0) => new Date(2024, 5, 1, hours, minutes, seconds).getTime();
+
+const segment = (id: string, durationSeconds: number): Partial<AsRunEvent> => ({
+  segmentId: id,
+  segmentNumber: id,
+  title: `Segment ${id}`,
+  plannedStartSeconds: 18 * 3600,
+  plannedDurationSeconds: durationSeconds,
+});
+
+describe("as-run log", () => {
+  it("reuses today's show of the same name and starts a new one otherwise", () => {
+    const first = beginShow(EMPTY_AS_RUN_LOG, "Morning.xlsx", at(8, 0));
+    expect(beginShow(first, "Morning.xlsx", at(9, 0))).toBe(first);
+    const second = beginShow(first, "Evening.xlsx", at(17, 0));
+    expect(second.shows).toHaveLength(2);
+    expect(second.currentShowId).toBe(second.shows[1].id);
+  });
+
+  it("drops the same segment change reported by a second window", () => {
+    let log = beginShow(EMPTY_AS_RUN_LOG, "Show", at(18, 0));
+    log = appendEntry(log, { kind: "segment-start", ...segment("1", 60), detail: "jump" }, at(18, 0), "x");
+    log = appendEntry(log, { kind: "segment-start", ...segment("1", 60) }, at(18, 0, 1), "x");
+    expect(log.entries).toHaveLength(1);
+    log = appendEntry(log, { kind: "caspar-play", detail: "lower_third" }, at(18, 0, 2), "x");
+    log = appendEntry(log, { kind: "caspar-play", detail: "name_tag" }, at(18, 0, 2), "x");
+    expect(log.entries).toHaveLength(3);
+  });
+
+  it("keeps quick repeats that follow an opposite event", () => {
+    let log = beginShow(EMPTY_AS_RUN_LOG, "Show", at(18, 0));
+    log = appendEntry(log, { kind: "mic-live", detail: "Host" }, at(18, 0), "x");
+    log = appendEntry(log, { kind: "mic-muted" }, at(18, 0, 1), "x");
+    log = appendEntry(log, { kind: "mic-live", detail: "Host" }, at(18, 0, 2), "x");
+    log = appendEntry(log, { kind: "caspar-play", ...segment("1", 60), detail: "lower_third" }, at(18, 0, 2), "x");
+    log = appendEntry(log, { kind: "caspar-stop", ...segment("1", 60) }, at(18, 0, 3), "x");
+    log = appendEntry(log, { kind: "caspar-play", ...segment("1", 60), detail: "lower_third" }, at(18, 0, 4), "x");
+    expect(log.entries.map((entry) => entry.kind)).toEqual([
+      "mic-live",
+      "mic-muted",
+      "mic-live",
+      "caspar-play",
+      "caspar-stop",
+      "caspar-play",
+    ]);
+  });
+
+  it("keeps a running-order show across midnight", () => {
+    let log = beginShow(EMPTY_AS_RUN_LOG, "Late.xlsx", at(23, 0), { showDate: "2024-06-01" });
+    const showId = log.currentShowId;
+    const afterMidnight = new Date(2024, 5, 2, 0, 30).getTime();
+    expect(beginShow(log, "Late.xlsx", afterMidnight, { showDate: "2024-06-01" })).toBe(log);
+    log = appendEntry(log, { kind: "mic-muted" }, afterMidnight, "Studio 2024-06-02");
+    expect(log.shows).toHaveLength(1);
+    expect(log.entries[0].showId).toBe(showId);
+    expect(beginShow(log, "Late.xlsx", afterMidnight, { showDate: "2024-06-02" }).shows).toHaveLength(2);
+  });
+
+  it("logs events outside a running order into a show for the day", () => {
+    const log = appendEntry(EMPTY_AS_RUN_LOG, { kind: "mic-live" }, at(7, 0), "Studio 2024-06-01");
+    expect(log.shows.map((show) => show.name)).toEqual(["Studio 2024-06-01"]);
+    expect(log.entries[0].showId).toBe(log.currentShowId);
+  });
+
+  it("pairs segment starts and ends into actual durations", () => {
+    let log = beginShow(EMPTY_AS_RUN_LOG, "Show", at(18, 0));
+    log = appendEntry(log, { kind: "segment-start", ...segment("1", 60) }, at(18, 0), "x");
+    log = appendEntry(log, { kind: "segment-end", ...segment("1", 60) }, at(18, 1, 12), "x");
+    log = appendEntry(log, { kind: "segment-skip", ...segment("2", 30) }, at(18, 1, 12), "x");
+    const rows = buildSegmentRows(log.entries);
+    expect(rows[1]).toEqual(["1", "Segment 1", "18:00:00", "18:00:00", "00:01:00", "00:01:12", "+00:00:12", "Done"]);
+    expect(rows[2][7]).toBe("Skipped");
+  });
+});
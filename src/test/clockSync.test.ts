@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  appendSyncSample,
+  isOutlierSample,
+  shouldStepOffset,
+  slewOffset,
+  SYNC_HISTORY_LIMIT,
+  type ClockSyncSample,
+} from "@/lib/clockSync";
+
+const sample = (offsetMs: number, overrides: Partial<ClockSyncSample> = {}): ClockSyncSample => ({
+  at: 0,
+  source: "ntp",
+  server: "ntp.test",
+  offsetMs,
+  rttMs: 2,
+  accepted: true,
+  ...overrides,
+});
+
+describe("clock sync", () => {
+  it("slews at most 5% of the elapsed time", () => {
+    expect(slewOffset(0, 200, 100)).toBe(5);
+    expect(slewOffset(0, -200, 100)).toBe(-5);
+    expect(slewOffset(198, 200, 100)).toBe(200);
+  });
+
+  it("steps only large corrections", () => {
+    expect(shouldStepOffset(0, 400)).toBe(false);
+    expect(shouldStepOffset(0, 1500)).toBe(true);
+  });
+
+  it("accepts samples until there is enough history", () => {
+    expect(isOutlierSample([sample(0), sample(1)], { source: "ntp", offsetMs: 900, rttMs: 2 })).toBe(false);
+  });
+
+  it("rejects offsets far from the recent median", () => {
+    const history = [sample(10), sample(12), sample(11), sample(9), sample(10)];
+    expect(isOutlierSample(history, { source: "ntp", offsetMs: 11, rttMs: 2 })).toBe(false);
+    expect(isOutlierSample(history, { source: "ntp", offsetMs: 400, rttMs: 2 })).toBe(true);
+  });
+
+  it("rejects round-trip spikes", () => {
+    const history = [sample(10), sample(12), sample(11), sample(9)];
+    expect(isOutlierSample(history, { source: "ntp", offsetMs: 10, rttMs: 300 })).toBe(true);
+  });
+
+  it("accepts a persistent shift after repeated agreeing outliers", () => {
+    const history = [
+      sample(10),
+      sample(12),
+      sample(11),
+      sample(9),
+      sample(400, { accepted: false }),
+      sample(402, { accepted: false }),
+    ];
+    expect(isOutlierSample(history, { source: "ntp", offsetMs: 401, rttMs: 2 })).toBe(false);
+  });
+
+  it("ignores samples from other sources", () => {
+    const history = [sample(10), sample(12), sample(11), sample(9)].map((entry) => ({ ...entry, source: "world" as const }));
+    expect(isOutlierSample(history, { source: "ntp", offsetMs: 900, rttMs: 2 })).toBe(false);
+  });
+
+  it("keeps a bounded history", () => {
+    let history: ClockSyncSample[] = [];
+    for (let i = 0; i < SYNC_HISTORY_LIMIT + 10; i += 1) {
+      history = appendSyncSample(history, sample(i));
+    }
+    expect(history).toHaveLength(SYNC_HISTORY_LIMIT);
+    expect(history[0].offsetMs).toBe(10);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CRITICAL_COLOR,
+  DEFAULT_WARNING_COLOR,
+  formatCountdown,
+  getCountdownStatus,
+  parseClockDuration,
+  type CountdownTimer,
+} from "@/lib/countdown";
+
+const timer = (overrides: Partial<CountdownTimer>): CountdownTimer => ({
+  id: "t1",
+  label: "On air",
+  mode: "time-of-day",
+  targetTime: "18:00:00",
+  durationSeconds: 600,
+  startedAt: null,
+  warningSeconds: 60,
+  criticalSeconds: 10,
+  warningColor: DEFAULT_WARNING_COLOR,
+  criticalColor: DEFAULT_CRITICAL_COLOR,
+  preRollSeconds: 0,
+  enabled: true,
+  ...overrides,
+});
+
+const at = (hours: number, minutes: number, seconds: number, ms = 0) => new Date(2024, 5, 1, hours, minutes, seconds, ms);
+
+describe("countdown timers", () => {
+  it("moves through the colour stages towards a time-of-day target", () => {
+    expect(getCountdownStatus(timer({}), at(17, 50, 0))).toEqual({ stage: "running", remainingSeconds: 600 });
+    expect(getCountdownStatus(timer({}), at(17, 59, 0))).toEqual({ stage: "warning", remainingSeconds: 60 });
+    expect(getCountdownStatus(timer({}), at(17, 59, 55, 500))).toEqual({ stage: "critical", remainingSeconds: 5 });
+    expect(getCountdownStatus(timer({}), at(18, 0, 30))).toEqual({ stage: "expired", remainingSeconds: -30 });
+  });
+
+  it("rolls a passed target over to tomorrow after the hold time", () => {
+    const status = getCountdownStatus(timer({}), at(18, 30, 0));
+    expect(status.stage).toBe("running");
+    expect(status.remainingSeconds).toBe(23.5 * 3600);
+  });
+
+  it("stays hidden until the pre-roll window opens", () => {
+    const preRolled = timer({ preRollSeconds: 600 });
+    expect(getCountdownStatus(preRolled, at(17, 40, 0)).stage).toBe("hidden");
+    expect(getCountdownStatus(preRolled, at(17, 50, 0)).stage).toBe("running");
+  });
+
+  it("counts duration timers from their start time", () => {
+    const start = at(12, 0, 0);
+    expect(getCountdownStatus(timer({ mode: "duration" }), start)).toEqual({ stage: "ready", remainingSeconds: 600 });
+    const running = timer({ mode: "duration", startedAt: start.getTime() });
+    expect(getCountdownStatus(running, at(12, 9, 55)).stage).toBe("critical");
+  });
+
+  it("parses and formats durations", () => {
+    expect(parseClockDuration("10")).toBe(600);
+    expect(parseClockDuration("2:30")).toBe(150);
+    expect(parseClockDuration("1:00:00")).toBe(3600);
+    expect(parseClockDuration("1:75")).toBeNull();
+    expect(formatCountdown(65)).toBe("01:05");
+    expect(formatCountdown(3725)).toBe("1:02:05");
+    expect(formatCountdown(-5)).toBe("+00:05");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  INDICATOR_PRESETS,
+  createIndicator,
+  evaluateIndicatorRule,
+  getIndicatorStates,
+  type IndicatorCondition,
+  type IndicatorSignals,
+} from "@/lib/indicators";
+
+const signals = (overrides: Partial<IndicatorSignals> = {}): IndicatorSignals => ({
+  liveMics: [],
+  recording: false,
+  playingDdrs: [],
+  segmentType: null,
+  ...overrides,
+});
+
+const when = (signal: IndicatorCondition["signal"], target = "", negate = false): IndicatorCondition => ({
+  signal,
+  target,
+  negate,
+});
+
+describe("indicator rules", () => {
+  const onAir = { match: "all" as const, conditions: [when("mic-live"), when("recording")] };
+
+  it("needs every condition for all and one for any", () => {
+    const micOnly = signals({ liveMics: [{ kind: "ch", number: 1 }] });
+    expect(evaluateIndicatorRule(onAir, micOnly)).toBe(false);
+    expect(evaluateIndicatorRule(onAir, { ...micOnly, recording: true })).toBe(true);
+    expect(evaluateIndicatorRule({ ...onAir, match: "any" }, micOnly)).toBe(true);
+    expect(evaluateIndicatorRule({ match: "any", conditions: [] }, micOnly)).toBe(false);
+  });
+
+  it("treats unknown signals as false before negating", () => {
+    const off = signals({ liveMics: null, recording: null, playingDdrs: null });
+    expect(evaluateIndicatorRule({ match: "all", conditions: [when("recording", "", true)] }, off)).toBe(true);
+    expect(evaluateIndicatorRule({ match: "all", conditions: [when("mic-live")] }, off)).toBe(false);
+  });
+
+  it("matches specific mics, DDRs and segment types", () => {
+    const current = signals({
+      liveMics: [{ kind: "ch", number: 9 }],
+      playingDdrs: [2],
+      segmentType: " Rehearsal ",
+    });
+    const rule = (condition: IndicatorCondition) =>
+      evaluateIndicatorRule({ match: "all", conditions: [condition] }, current);
+    expect(rule(when("mic-live", "ch/9"))).toBe(true);
+    expect(rule(when("mic-live", "ch/1"))).toBe(false);
+    expect(rule(when("ddr-playing", "2"))).toBe(true);
+    expect(rule(when("ddr-playing", "1"))).toBe(false);
+    expect(rule(when("segment-type", "rehearsal"))).toBe(true);
+    expect(rule(when("segment-type", "Interview"))).toBe(false);
+  });
+
+  it("leaves out unlit indicators unless they show while off", () => {
+    const shown = createIndicator(INDICATOR_PRESETS[0]);
+    const hidden = { ...createIndicator(INDICATOR_PRESETS[0]), showWhenOff: false };
+    const states = getIndicatorStates([shown, hidden], signals());
+    expect(states).toEqual([{ definition: shown, active: false }]);
+  });
+
+  it("copies preset conditions so edits do not leak back", () => {
+    const indicator = createIndicator(INDICATOR_PRESETS[0]);
+    indicator.rule.conditions[0].negate = true;
+    expect(INDICATOR_PRESETS[0].rule.conditions[0].negate).toBe(false);
+  });
+});
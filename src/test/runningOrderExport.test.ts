@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import type { RunningOrderSegment } from "@/lib/runningOrder";
+import { guessMapping, mapSheetRows, validateRunningOrderRows } from "@/lib/runningOrderImport";
+import {
+  buildRunningOrderPdf,
+  buildRunningOrderWorkbook,
+  getExportBaseName,
+  getExportTotals,
+  getRunningOrderExport,
+} from "@/lib/runningOrderExport";
+
+const segment = (
+  id: string,
+  startSeconds: number,
+  durationSeconds: number,
+  extra: Partial<RunningOrderSegment> = {},
+): RunningOrderSegment => ({
+  id,
+  segmentNumber: id,
+  startSeconds,
+  durationSeconds,
+  type: `Segment ${id}`,
+  camera: "",
+  casparTemplate: "",
+  casparData: "",
+  notes: "",
+  droppable: false,
+  hardStart: false,
+  rowIndex: Number(id),
+  ...extra,
+});
+
+const state = {
+  sourceName: "Kvällsnytt.xlsx",
+  segments: [
+    segment("1", 64800, 60, { camera: "K1", casparTemplate: "lower-third", casparData: '{"f0":"Anna"}' }),
+    segment("2", 64860, 120),
+    segment("3", 64980, 30, { notes: "Guest (left) enters" }),
+  ],
+  skippedIds: ["2"],
+  showStartEnabled: true,
+  showStartSeconds: 65100,
+};
+
+describe("running order export", () => {
+  it("applies the show-start override and skips", () => {
+    const data = getRunningOrderExport(state, new Date(2026, 9, 19));
+    expect(data.title).toBe("Kvällsnytt");
+    expect(getExportBaseName(data)).toBe("Kvällsnytt-2026-10-19");
+    expect(data.segments.map((item) => item.startSeconds)).toEqual([65100, 65160, 65160]);
+    expect(getExportTotals(data)).toEqual({ start: 65100, end: 65190, durationSeconds: 90, skippedCount: 1 });
+  });
+
+  it("writes the Korschema layout, which imports straight back", () => {
+    const workbook = buildRunningOrderWorkbook(getRunningOrderExport(state, new Date(2026, 9, 19)));
+    const written = XLSX.read(XLSX.write(workbook, { type: "array", bookType: "xlsx" }), { cellDates: true });
+    const sheet = written.Sheets[written.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: null, raw: true });
+    expect(rows[1].slice(0, 5)).toEqual(["NR", "STARTTID", "TID /", "FORM", "Kamera"]);
+
+    const { segments, errors } = validateRunningOrderRows(mapSheetRows(rows, guessMapping(rows, "Körschema")), "25");
+    expect(errors).toEqual([]);
+    expect(
+      segments.map((item) => [item.segmentNumber, item.startSeconds, item.durationSeconds, item.casparTemplate]),
+    ).toEqual([
+      ["1", 65100, 60, "lower-third"],
+      ["3", 65160, 30, ""],
+    ]);
+    expect(segments[1].notes).toBe("Guest (left) enters");
+  });
+
+  it("produces a PDF with the show title and escaped notes", () => {
+    const bytes = buildRunningOrderPdf(getRunningOrderExport(state, new Date(2026, 9, 19)), new Date(2026, 9, 19));
+    const text = new TextDecoder("latin1").decode(bytes);
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text).toContain("(Kvällsnytt) Tj");
+    expect(text).toContain("Total duration 00:01:30");
+    expect(text).toContain("Guest \\(left\\) enters");
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+  });
+});
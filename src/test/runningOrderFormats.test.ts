@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { detectCsvDelimiter, parseCsv } from "@/lib/csv";
+import { parseJsonRundown, readRunningOrderFile } from "@/lib/runningOrderFormats";
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe("CSV parsing", () => {
+  it("handles quoted cells, doubled quotes and CRLF", () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\r\n')).toEqual([
+      ["a", "b, c", 'say "hi"'],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("detects semicolon, tab and comma delimiters", () => {
+    expect(detectCsvDelimiter("Nr;Start;Längd\n1;18:00:00;00:01:30\n")).toBe(";");
+    expect(detectCsvDelimiter("Nr\tStart\tLängd\n1\t18:00:00\t00:01:30\n")).toBe("\t");
+    expect(detectCsvDelimiter('Nr,Title,Duration\n1,"Intro; cold open",00:00:30\n')).toBe(",");
+  });
+});
+
+describe("running order file formats", () => {
+  it("reads CSV into a single-sheet workbook for the mapping wizard", () => {
+    const source = readRunningOrderFile("rundown.csv", encode("Nr;Start;Längd\n1;18:00:00;00:01:30\n"), "25");
+    expect(source.kind).toBe("workbook");
+    if (source.kind !== "workbook") return;
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(source.workbook.Sheets.CSV, { header: 1, raw: true });
+    expect(rows[1]).toEqual(["1", "18:00:00", "00:01:30"]);
+  });
+
+  it("validates JSON rundowns with the shared rules and reports bad entries", () => {
+    const json = JSON.stringify({
+      name: "Kvällsnytt",
+      segments: [
+        { number: "1", start: "18:00:00", duration: "00:00:30", type: "Intro", casparData: { f0: "Anna" } },
+        { type: "Interview", duration: "00:02:00" },
+        "not a segment",
+        { type: "Weather", duration: "soon" },
+      ],
+    });
+    const source = readRunningOrderFile("show.json", encode(json), "25");
+    expect(source.kind).toBe("segments");
+    if (source.kind !== "segments") return;
+    expect(source.name).toBe("Kvällsnytt");
+    expect(source.result.segments.map((segment) => [segment.type, segment.startSeconds])).toEqual([
+      ["Intro", 64800],
+      ["Interview", 64830],
+    ]);
+    expect(source.result.segments[0].casparData).toBe('{"f0":"Anna"}');
+    expect(source.result.errors.map((error) => error.rowNumber)).toEqual([3, 4]);
+  });
+
+  it("reads numeric start and duration as seconds", () => {
+    const json = JSON.stringify([
+      { type: "Intro", start: 64800, duration: 90 },
+      { type: "Bumper", duration: 1 },
+      { type: "Sting", duration: 0.5 },
+      { type: "Late", start: 90000, duration: 0 },
+      { type: "Broken", duration: -5 },
+    ]);
+    const source = readRunningOrderFile("show.json", encode(json), "25");
+    if (source.kind !== "segments") throw new Error("expected segments");
+    expect(
+      source.result.segments.map((segment) => [segment.type, segment.startSeconds, segment.durationSeconds]),
+    ).toEqual([
+      ["Intro", 64800, 90],
+      ["Bumper", 64890, 1],
+      ["Sting", 64891, 0.5],
+      ["Late", 90000, 0],
+    ]);
+    expect(source.result.errors.map((error) => [error.rowNumber, error.message])).toEqual([
+      [5, expect.stringMatching(/^duration:/)],
+    ]);
+  });
+
+  it("accepts a bare array and rejects other shapes", () => {
+    expect(parseJsonRundown('[{"type":"Intro"}]').rows).toHaveLength(1);
+    expect(() => parseJsonRundown('{"items":[]}')).toThrow(/segments/);
+    expect(() => parseJsonRundown("{")).toThrow(/JSON/);
+  });
+
+  it("rejects unknown file types", () => {
+    expect(() => readRunningOrderFile("notes.docx", encode(""), "25")).toThrow(/\.docx/);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  KORSCHEMA_MAPPING,
+  guessColumns,
+  guessMapping,
+  mapSheetRows,
+  validateRunningOrderRows,
+} from "@/lib/runningOrderImport";
+import { parseDurationCell, parseTimeCellToSeconds } from "@/lib/runningOrder";
+
+describe("running order cell parsing", () => {
+  it("reads clock times and rejects garbage", () => {
+    expect(parseTimeCellToSeconds("18:30")).toBe(18 * 3600 + 30 * 60);
+    expect(parseTimeCellToSeconds("18:30:15")).toBe(18 * 3600 + 30 * 60 + 15);
+    expect(parseTimeCellToSeconds("soon")).toBeNull();
+    expect(parseTimeCellToSeconds("")).toBeNull();
+  });
+
+  it("treats empty durations as zero and unreadable ones as invalid", () => {
+    expect(parseDurationCell(null, "25")).toBe(0);
+    expect(parseDurationCell("00:01:30", "25")).toBe(90);
+    expect(parseDurationCell("00:00:10:12", "25")).toBeCloseTo(10.48);
+    expect(parseDurationCell("ninety", "25")).toBeNull();
+    expect(parseDurationCell(-5, "25")).toBeNull();
+  });
+
+  it("keeps whole-second spreadsheet durations whole at drop-frame rates", () => {
+    expect(parseDurationCell(90 / 86400, "29.97df")).toBe(90);
+    expect(parseDurationCell(new Date(1899, 11, 30, 0, 1, 30), "29.97df")).toBe(90);
+    expect(parseDurationCell(90.4 / 86400, "25")).toBeCloseTo(90.4);
+  });
+});
+
+describe("running order import", () => {
+  it("maps columns from Swedish and English headers", () => {
+    const columns = guessColumns([
+      "Nr",
+      "Start",
+      "Längd",
+      "Inslag",
+      "Kamera",
+      "Caspar template",
+      "Caspar data",
+      "",
+      "",
+      "Anteckningar",
+    ]);
+    expect(columns).toEqual(KORSCHEMA_MAPPING.columns);
+    expect(guessColumns(["Title", "Duration", "Camera"])).toMatchObject({
+      type: 0,
+      durationSeconds: 1,
+      camera: 2,
+      startSeconds: null,
+    });
+  });
+
+  it("finds the header row below a title block", () => {
+    const rows = [["Kvällsnytt"], [], ["Title", "Time", "Duration"], ["Intro", "18:00", "00:00:30"]];
+    expect(guessMapping(rows, "Sheet1")).toMatchObject({
+      sheetName: "Sheet1",
+      headerRow: 2,
+      columns: { type: 0, startSeconds: 1, durationSeconds: 2 },
+    });
+  });
+
+  it("falls back to the Korschema layout when no headers are recognised", () => {
+    expect(guessMapping([["a", "b"], [1, 2]], "Blad1")).toEqual({ ...KORSCHEMA_MAPPING, sheetName: "Blad1" });
+  });
+
+  it("reports unparseable rows instead of dropping them and fills missing starts", () => {
+    const rows = [
+      ["Title", "Start", "Duration"],
+      ["Intro", "18:00:00", "00:00:30"],
+      ["Interview", "", "00:02:00"],
+      [null, null, null],
+      ["Weather", "later", "00:01:00"],
+      ["Outro", "", "nope"],
+      ["Credits", "", "00:00:15"],
+    ];
+    const mapping = guessMapping(rows, "Sheet1");
+    const { segments, errors } = validateRunningOrderRows(mapSheetRows(rows, mapping), "25");
+    expect(segments.map((segment) => [segment.segmentNumber, segment.type, segment.startSeconds])).toEqual([
+      ["1", "Intro", 64800],
+      ["2", "Interview", 64830],
+      ["3", "Credits", 64950],
+    ]);
+    expect(segments[0].id).toBe("1-segment");
+    expect(errors.map((error) => error.rowNumber)).toEqual([5, 6]);
+    expect(errors[0].message).toContain("later");
+    expect(errors[1].message).toContain("nope");
+  });
+
+  it("reads hard-start flags and rejects a hard start without a time", () => {
+    const rows = [
+      ["Title", "Start", "Duration", "Fast tid"],
+      ["Intro", "18:00:00", "00:00:30", ""],
+      ["News", "19:00:00", "00:10:00", "x"],
+      ["Weather", "", "00:02:00", "ja"],
+    ];
+    const { segments, errors } = validateRunningOrderRows(mapSheetRows(rows, guessMapping(rows, "Sheet1")), "25");
+    expect(segments.map((segment) => segment.hardStart)).toEqual([false, true]);
+    expect(errors.map((error) => error.message)).toEqual(["hard start without a start time"]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { render } from "@testing-library/react";
+import RunningOrderLayout from "@/components/clock/RunningOrderLayout";
+import { migrateRunningOrderState, RUNNING_ORDER_STATE_VERSION } from "@/lib/runningOrderProject";
+import { settingBackupKey } from "@/lib/settingsStore";
+
+const PERSIST_KEY = "studio_timepiece_running_order_v1";
+
+const storedState = migrateRunningOrderState(
+  {
+    sourceName: "Show.xlsx",
+    segments: [
+      {
+        id: "3-1",
+        segmentNumber: "1",
+        startSeconds: 64800,
+        durationSeconds: 90,
+        type: "Intro",
+        camera: "K1",
+        casparTemplate: "",
+        casparData: "",
+        rowIndex: 3,
+      },
+    ],
+    showStartEnabled: false,
+    showStartSeconds: null,
+    skippedIds: [],
+  },
+  1,
+);
+
+const readStored = () =>
+  JSON.parse(window.localStorage.getItem(PERSIST_KEY) ?? "null") as { state: typeof storedState } | null;
+
+describe("running-order layout storage", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    const stored = { version: RUNNING_ORDER_STATE_VERSION, state: storedState };
+    window.localStorage.setItem(PERSIST_KEY, JSON.stringify(stored));
+  });
+
+  it("keeps the stored running order when it mounts", () => {
+    const { unmount } = render(
+      <RunningOrderLayout now={new Date(2026, 9, 19, 12)} persistKey={PERSIST_KEY} syncFromStorage />,
+    );
+    expect(readStored()?.state.segments).toHaveLength(1);
+    expect(readStored()?.state.sourceName).toBe("Show.xlsx");
+    unmount();
+  });
+
+  it("keeps a running order saved by a newer version and backs it up", () => {
+    const newer = JSON.stringify({ version: RUNNING_ORDER_STATE_VERSION + 1, state: storedState });
+    window.localStorage.setItem(PERSIST_KEY, newer);
+    const { unmount } = render(
+      <RunningOrderLayout now={new Date(2026, 9, 19, 12)} persistKey={PERSIST_KEY} syncFromStorage />,
+    );
+    expect(window.localStorage.getItem(PERSIST_KEY)).toBe(newer);
+    expect(window.localStorage.getItem(settingBackupKey(PERSIST_KEY))).toBe(newer);
+    unmount();
+  });
+});
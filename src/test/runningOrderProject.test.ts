@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  RUNNING_ORDER_STATE_VERSION,
+  migrateRunningOrderState,
+  parseProject,
+  parseStoredRunningOrder,
+  projectNameFromPath,
+  readStoredRunningOrder,
+  serializeProject,
+} from "@/lib/runningOrderProject";
+
+// A state as the first localStorage version wrote it, before notes, flags and timing settings existed.
+const versionOneState = {
+  sourceName: "kvallsnytt.xlsx",
+  segments: [
+    {
+      id: "3-1",
+      segmentNumber: "1",
+      startSeconds: 64800,
+      durationSeconds: 90,
+      type: "Intro",
+      camera: "K1",
+      casparTemplate: "",
+      casparData: "",
+      rowIndex: 3,
+    },
+  ],
+  showStartEnabled: false,
+  showStartSeconds: null,
+  skippedIds: [],
+};
+
+describe("running-order project files", () => {
+  it("upgrades version 1 states instead of dropping them", () => {
+    const state = migrateRunningOrderState(versionOneState, 1);
+    expect(state.segments[0]).toMatchObject({ type: "Intro", notes: "", droppable: false, hardStart: false });
+    expect(state.timingMode).toBe("time-of-day");
+    expect(state.takes).toEqual([]);
+    expect(state.shotboxItems).toEqual([]);
+    expect(state.hardOutSeconds).toBeNull();
+  });
+
+  it("rejects states from a newer version", () => {
+    expect(() => migrateRunningOrderState(versionOneState, RUNNING_ORDER_STATE_VERSION + 1)).toThrow(/newer/);
+  });
+
+  it("reads the stored state and ignores anything unreadable", () => {
+    const stored = parseStoredRunningOrder(JSON.stringify({ version: 1, state: versionOneState }));
+    expect(stored?.segments[0].type).toBe("Intro");
+    expect(parseStoredRunningOrder(null)).toBeNull();
+    expect(parseStoredRunningOrder("{")).toBeNull();
+  });
+
+  it("tells a missing stored state from one it cannot use", () => {
+    expect(readStoredRunningOrder(null)).toEqual({ state: null, error: null });
+    expect(readStoredRunningOrder("{").error).toMatch(/not valid JSON/);
+    const newer = readStoredRunningOrder(
+      JSON.stringify({ version: RUNNING_ORDER_STATE_VERSION + 1, state: versionOneState }),
+    );
+    expect(newer.state).toBeNull();
+    expect(newer.error).toMatch(/newer version/);
+  });
+
+  it("round-trips a project with its metadata", () => {
+    const state = migrateRunningOrderState(versionOneState, 1);
+    const text = serializeProject(state, "Kvällsnytt", new Date("2026-10-19T16:00:00Z"));
+    expect(JSON.parse(text)).toMatchObject({ format: "studioklocka", version: RUNNING_ORDER_STATE_VERSION });
+
+    const project = parseProject(text);
+    expect(project.name).toBe("Kvällsnytt");
+    expect(project.savedAt).toBe("2026-10-19T16:00:00.000Z");
+    expect(project.state).toEqual(state);
+  });
+
+  it("opens old project files through the same migrations", () => {
+    const text = JSON.stringify({ format: "studioklocka", version: 1, state: versionOneState });
+    const project = parseProject(text);
+    expect(project.name).toBe("kvallsnytt.xlsx");
+    expect(project.state.segments[0].notes).toBe("");
+  });
+
+  it("explains files that are not projects", () => {
+    expect(() => parseProject("{")).toThrow(/not valid JSON/);
+    expect(() => parseProject(JSON.stringify({ segments: [] }))).toThrow(/not a Studioklocka project/);
+  });
+
+  it("names projects after their file", () => {
+    expect(projectNameFromPath("C:\\Shows\\Kvällsnytt.studioklocka")).toBe("Kvällsnytt");
+    expect(projectNameFromPath("/Users/anna/show.STUDIOKLOCKA")).toBe("show");
+  });
+});
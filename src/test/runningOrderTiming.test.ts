@@ -0,0 +1,253 @@
+import { describe, it, expect } from "vitest";
+import { getEffectiveSegments, type RunningOrderSegment, type RunningOrderState } from "@/lib/runningOrder";
+import {
+  SHOW_END_TAKE_ID,
+  anchorSegments,
+  findCurrentSegment,
+  formatOverUnder,
+  formatShowTime,
+  getBackTiming,
+  getManualTiming,
+  getOnAirSegment,
+  getShowDayOffset,
+  getShowDayStart,
+  getShowSeconds,
+} from "@/lib/runningOrderTiming";
+
+const segment = (
+  id: string,
+  startSeconds: number,
+  durationSeconds: number,
+  hardStart = false,
+): RunningOrderSegment => ({
+  id,
+  segmentNumber: id,
+  startSeconds,
+  durationSeconds,
+  type: `Segment ${id}`,
+  camera: "",
+  casparTemplate: "",
+  casparData: "",
+  notes: "",
+  droppable: false,
+  hardStart,
+  rowIndex: Number(id),
+});
+
+// 18:00:00 intro 60 s, 18:01:00 interview 120 s, 18:03:00 outro 30 s; planned end 18:03:30.
+const segments = [segment("1", 64800, 60), segment("2", 64860, 120), segment("3", 64980, 30)];
+const plan = getEffectiveSegments(segments, [], null);
+
+describe("manual take timing", () => {
+  it("waits for the first take and never projects a start in the past", () => {
+    const early = getManualTiming(plan, [], 64000);
+    expect(early.current).toBeNull();
+    expect(early.next?.id).toBe("1");
+    expect(early.showOverUnderSeconds).toBe(0);
+
+    const late = getManualTiming(plan, [], 64830);
+    expect(late.segments.map((item) => item.startSeconds)).toEqual([64830, 64890, 65010]);
+    expect(late.showOverUnderSeconds).toBe(30);
+  });
+
+  it("re-times later segments from the actual take and pushes them back while the current one runs over", () => {
+    const takes = [
+      { segmentId: "1", startSeconds: 64810 },
+      { segmentId: "2", startSeconds: 64880 },
+    ];
+    const onTime = getManualTiming(plan, takes, 64900);
+    expect(onTime.current?.id).toBe("2");
+    expect(onTime.segments[0]).toMatchObject({ status: "done", overUnderSeconds: 10 });
+    expect(onTime.segments[2]).toMatchObject({ status: "upcoming", startSeconds: 65000, plannedStartSeconds: 64980 });
+    expect(onTime.showOverUnderSeconds).toBe(20);
+
+    const overrunning = getManualTiming(plan, takes, 65030);
+    expect(overrunning.current?.overUnderSeconds).toBe(30);
+    expect(overrunning.segments[2].startSeconds).toBe(65030);
+    expect(overrunning.showOverUnderSeconds).toBe(50);
+  });
+
+  it("closes the last segment with the end take", () => {
+    const takes = [
+      { segmentId: "1", startSeconds: 64800 },
+      { segmentId: "2", startSeconds: 64860 },
+      { segmentId: "3", startSeconds: 64980 },
+      { segmentId: SHOW_END_TAKE_ID, startSeconds: 65020 },
+    ];
+    const timing = getManualTiming(plan, takes, 66000);
+    expect(timing.current).toBeNull();
+    expect(timing.next).toBeNull();
+    expect(timing.segments[2]).toMatchObject({ status: "done", endSeconds: 65020, overUnderSeconds: 10 });
+    expect(timing.projectedEndSeconds).toBe(65020);
+    expect(timing.showOverUnderSeconds).toBe(10);
+  });
+
+  it("marks segments passed over without a take as missed", () => {
+    const timing = getManualTiming(plan, [{ segmentId: "2", startSeconds: 64860 }], 64870);
+    expect(timing.segments.map((item) => item.status)).toEqual(["missed", "current", "upcoming"]);
+    expect(timing.next?.id).toBe("3");
+  });
+
+  it("ignores takes of skipped segments", () => {
+    const skipped = getEffectiveSegments(segments, ["2"], null);
+    const timing = getManualTiming(skipped, [{ segmentId: "2", startSeconds: 64860 }], 64870);
+    expect(timing.current).toBeNull();
+    expect(timing.segments[1].status).toBe("skipped");
+  });
+});
+
+describe("formatOverUnder", () => {
+  it("signs and pads over/under values", () => {
+    expect(formatOverUnder(65)).toBe("+01:05");
+    expect(formatOverUnder(-30)).toBe("-00:30");
+    expect(formatOverUnder(0)).toBe("+00:00");
+    expect(formatOverUnder(3725)).toBe("+1:02:05");
+  });
+});
+
+describe("back-timing", () => {
+  const item = (id: string, durationSeconds: number, droppable: boolean) => ({
+    id,
+    startSeconds: 0,
+    durationSeconds,
+    droppable,
+    hardStart: false,
+  });
+  const remaining = [item("a", 120, false), item("b", 90, true), item("c", 45, true), item("d", 60, true)];
+
+  it("back-times each remaining segment from the target end", () => {
+    const timing = getBackTiming(remaining, 70000, 70000);
+    expect(timing.backTimes).toEqual({ a: 69685, b: 69805, c: 69895, d: 69940 });
+    expect(timing.overUnderSeconds).toBe(0);
+    expect(timing.suggestedDrops).toEqual([]);
+  });
+
+  it("suggests the smallest droppable segment that covers the overrun", () => {
+    expect(getBackTiming(remaining, 70050, 70000).suggestedDrops).toEqual(["d"]);
+    expect(getBackTiming(remaining, 70030, 70000).suggestedDrops).toEqual(["c"]);
+  });
+
+  it("combines droppable segments when no single one is enough", () => {
+    const timing = getBackTiming(remaining, 70140, 70000);
+    expect(timing.suggestedDrops).toEqual(["b", "d"]);
+    expect(timing.recoverable).toBe(true);
+
+    const hopeless = getBackTiming(remaining, 70300, 70000);
+    expect(hopeless.suggestedDrops).toEqual(["b", "c", "d"]);
+    expect(hopeless.recoverable).toBe(false);
+  });
+});
+
+describe("hard starts", () => {
+  // 18:00:00 intro 60 s, 18:01:00 interview 120 s, news at 18:05:00 sharp for 60 s, then a 30 s outro.
+  const rundown = [
+    segment("1", 64800, 60),
+    segment("2", 64860, 120),
+    segment("3", 65100, 60, true),
+    segment("4", 65160, 30),
+  ];
+
+  it("keeps hard starts on the clock and reports the gap or overlap before them", () => {
+    const onTime = getEffectiveSegments(rundown, [], null);
+    expect(onTime[2].startSeconds).toBe(65100);
+    expect(onTime[2].gapBeforeSeconds).toBe(120);
+    expect(onTime[0].gapBeforeSeconds).toBeNull();
+
+    const late = getEffectiveSegments(rundown, [], 65000);
+    expect(late.map((item) => item.startSeconds)).toEqual([65000, 65060, 65100, 65160]);
+    expect(late[2].gapBeforeSeconds).toBe(-80);
+
+    const skipped = getEffectiveSegments(rundown, ["2"], 65000);
+    expect(skipped[2].gapBeforeSeconds).toBe(40);
+  });
+
+  it("re-flows manual timing around a hard start", () => {
+    const plan = getEffectiveSegments(rundown, [], null);
+    const timing = getManualTiming(plan, [{ segmentId: "1", startSeconds: 64900 }], 64950);
+    expect(timing.segments.map((item) => item.startSeconds)).toEqual([64900, 64960, 65100, 65160]);
+    expect(timing.segments[2].gapBeforeSeconds).toBe(20);
+
+    const overrun = getManualTiming(plan, [{ segmentId: "2", startSeconds: 65000 }], 65010);
+    expect(overrun.segments[2].startSeconds).toBe(65100);
+    expect(overrun.segments[2].gapBeforeSeconds).toBe(-20);
+    expect(overrun.projectedEndSeconds).toBe(65190);
+  });
+
+  it("back-times from the next hard post and only drops after the last one", () => {
+    const plan = getEffectiveSegments(
+      rundown.map((item) => ({ ...item, droppable: item.id !== "3" })),
+      [],
+      null,
+    );
+    const timing = getBackTiming(plan.slice(1), 65220, 65190);
+    expect(timing.backTimes).toEqual({ "2": 64980, "3": 65100, "4": 65160 });
+    expect(timing.suggestedDrops).toEqual(["4"]);
+  });
+});
+
+describe("show day timing", () => {
+  it("reads starts after midnight as the next day", () => {
+    const day = getShowDayStart("2026-03-14", new Date(2026, 2, 15, 0, 20));
+    const late = [segment("1", 84600, 1800), segment("2", 86400 - 600, 1200), segment("3", 600, 3000)];
+    const anchored = anchorSegments(late, day);
+    expect(anchored.map((item) => item.startSeconds)).toEqual([84600, 85800, 87000]);
+
+    const timing = getEffectiveSegments(anchored, [], null);
+    const now = getShowSeconds(day, new Date(2026, 2, 15, 0, 20));
+    expect(now).toBe(87600);
+    expect(timing.find((item) => now >= item.startSeconds && now < item.endSeconds)?.id).toBe("3");
+    expect(formatShowTime(day, timing[2].endSeconds)).toBe("01:00:00");
+    expect(getShowDayOffset(day, timing[2].startSeconds)).toBe(1);
+  });
+
+  it("keeps segments continuous across a DST change", () => {
+    const previousTz = process.env.TZ;
+    process.env.TZ = "Europe/Stockholm";
+    try {
+      // Clocks go from 02:00 to 03:00 on 29 March 2026: 01:30 plus one real hour is 03:30 on the wall.
+      const day = getShowDayStart("2026-03-29", new Date(2026, 2, 29, 12));
+      const anchored = anchorSegments([segment("1", 5400, 3600), segment("2", 12600, 600, true)], day);
+      const timing = getEffectiveSegments(anchored, [], null);
+      expect(formatShowTime(day, timing[0].endSeconds)).toBe("03:30:00");
+      expect(timing[1].startSeconds).toBe(9000);
+      expect(timing[1].gapBeforeSeconds).toBe(0);
+    } finally {
+      process.env.TZ = previousTz;
+    }
+  });
+});
+
+describe("on-air segment", () => {
+  const state: RunningOrderState = {
+    sourceName: null,
+    segments,
+    showStartEnabled: false,
+    showStartSeconds: null,
+    skippedIds: [],
+    casparAutoPlayEnabled: false,
+    shotboxItems: [],
+    hardOutSeconds: null,
+    showDate: "2026-03-14",
+    timingMode: "time-of-day",
+    takes: [],
+  };
+
+  it("follows the clock, skipping skipped segments", () => {
+    expect(findCurrentSegment(plan, null, 64900)?.id).toBe("2");
+    expect(findCurrentSegment(getEffectiveSegments(segments, ["2"], null), null, 64900)).toBeNull();
+    expect(getOnAirSegment(state, new Date(2026, 2, 14, 18, 1, 30))?.type).toBe("Segment 2");
+    expect(getOnAirSegment(state, new Date(2026, 2, 14, 17, 59))).toBeNull();
+  });
+
+  it("applies the show start override and manual takes", () => {
+    const delayed = { ...state, showStartEnabled: true, showStartSeconds: 64860 };
+    expect(getOnAirSegment(delayed, new Date(2026, 2, 14, 18, 1, 30))?.id).toBe("1");
+
+    const manual: RunningOrderState = {
+      ...state,
+      timingMode: "manual",
+      takes: [{ segmentId: "1", takenAt: new Date(2026, 2, 14, 18, 0).getTime() }],
+    };
+    expect(getOnAirSegment(manual, new Date(2026, 2, 14, 18, 2))?.id).toBe("1");
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { z } from "zod";
+import { useCountdownTimers } from "@/hooks/useCountdownTimers";
+import { useWorldClocks } from "@/hooks/useWorldClocks";
+import { defineSetting, encodeSetting, readSetting } from "@/lib/settingsStore";
+import {
+  applyLaunchProfile,
+  applySettings,
+  captureSettings,
+  parseProfile,
+  profilesSetting,
+  removeProfile,
+  serializeProfile,
+  switchToProfile,
+  upsertProfile,
+  type ProfileStore,
+} from "@/lib/settingsProfiles";
+
+const hostSetting = defineSetting<{ host: string; port: number }>({
+  key: "test_profile_host",
+  label: "Host",
+  version: 1,
+  schema: z.object({ host: z.string(), port: z.number().int().min(1) }),
+  defaults: { host: "127.0.0.1", port: 5250 },
+});
+
+const at = new Date("2026-03-01T10:00:00Z");
+
+// Like the desktop app's `launch_profile` command, which hands out `--profile` only on its first call.
+let commandLineProfile: string | null = null;
+vi.mock("@tauri-apps/api/core", () => ({
+  invoke: async (command: string) => {
+    if (command !== "launch_profile") throw new Error(`unexpected command ${command}`);
+    const name = commandLineProfile;
+    commandLineProfile = null;
+    return name;
+  },
+}));
+
+describe("settings profiles", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("replaces profiles by name regardless of case", () => {
+    let store: ProfileStore = { activeName: "Studio 1", profiles: [] };
+    store = upsertProfile(store, { name: "Studio 1", updatedAt: "a", settings: {} });
+    store = upsertProfile(store, { name: "studio 1", updatedAt: "b", settings: {} });
+    expect(store.profiles).toHaveLength(1);
+    expect(store.profiles[0].updatedAt).toBe("b");
+    expect(removeProfile(store, "STUDIO 1")).toEqual({ activeName: null, profiles: [] });
+  });
+
+  it("captures stored settings and clears unset ones when applied", () => {
+    window.localStorage.setItem(hostSetting.key, JSON.stringify({ host: "10.0.0.2" }));
+    const snapshot = captureSettings();
+    expect(snapshot[hostSetting.key]).toEqual({ version: 1, value: { host: "10.0.0.2", port: 5250 } });
+
+    applySettings({});
+    expect(window.localStorage.getItem(hostSetting.key)).toBeNull();
+    applySettings(snapshot);
+    expect(readSetting(hostSetting)).toEqual({ host: "10.0.0.2", port: 5250 });
+  });
+
+  it("carries world clocks and countdown timers", () => {
+    const clocks = renderHook(() => useWorldClocks());
+    const timers = renderHook(() => useCountdownTimers());
+    act(() => {
+      clocks.result.current.addClock("Asia/Tokyo");
+      timers.result.current.addTimer("duration");
+    });
+    clocks.unmount();
+    timers.unmount();
+
+    const snapshot = captureSettings();
+    applySettings({});
+    expect(renderHook(() => useWorldClocks()).result.current.clocks).toEqual([]);
+    applySettings(snapshot);
+    expect(renderHook(() => useWorldClocks()).result.current.clocks).toMatchObject([{ timeZone: "Asia/Tokyo" }]);
+    expect(renderHook(() => useCountdownTimers()).result.current.timers).toMatchObject([
+      { mode: "duration", durationSeconds: 600 },
+    ]);
+  });
+
+  it("keeps the active profile's changes when switching away", () => {
+    window.localStorage.setItem(hostSetting.key, encodeSetting(hostSetting, { host: "studio-a", port: 1 }));
+    const studioB = { name: "Studio B", updatedAt: "", settings: captureSettings() };
+    studioB.settings[hostSetting.key] = { version: 1, value: { host: "studio-b", port: 2 } };
+    window.localStorage.setItem(
+      profilesSetting.key,
+      encodeSetting(profilesSetting, {
+        activeName: "Studio A",
+        profiles: [{ name: "Studio A", updatedAt: "", settings: {} }, studioB],
+      }),
+    );
+
+    expect(switchToProfile("studio b", at)).toBe(true);
+    expect(readSetting(hostSetting).host).toBe("studio-b");
+    const store = readSetting(profilesSetting);
+    expect(store.activeName).toBe("Studio B");
+    expect(store.profiles[0].settings[hostSetting.key].value).toEqual({ host: "studio-a", port: 1 });
+    expect(switchToProfile("Studio C", at)).toBe(false);
+  });
+
+  it("round-trips profile files and reports invalid settings without dropping them", () => {
+    const text = serializeProfile({
+      name: "Studio 2",
+      updatedAt: at.toISOString(),
+      settings: {
+        [hostSetting.key]: { version: 1, value: { host: "10.0.0.9", port: 0 } },
+        future_setting_v1: { version: 4, value: true },
+      },
+    });
+    const { profile, issues } = parseProfile(text, at);
+    expect(profile.name).toBe("Studio 2");
+    expect(Object.keys(profile.settings)).toEqual([hostSetting.key, "future_setting_v1"]);
+    expect(issues.map((issue) => issue.key)).toEqual([hostSetting.key]);
+  });
+
+  it("rejects files that are not profiles", () => {
+    expect(() => parseProfile("{}", at)).toThrow(/not a Studioklocka profile/);
+    expect(() => parseProfile("nope", at)).toThrow(/not valid JSON/);
+  });
+
+  describe("launch profile", () => {
+    beforeEach(() => {
+      (window as unknown as { __TAURI_INTERNALS__?: unknown }).__TAURI_INTERNALS__ = {};
+      const profile = (name: string, host: string) => ({
+        name,
+        updatedAt: "",
+        settings: { [hostSetting.key]: { version: 1, value: { host, port: 1 } } },
+      });
+      window.localStorage.setItem(
+        profilesSetting.key,
+        encodeSetting(profilesSetting, {
+          activeName: null,
+          profiles: [profile("Studio A", "studio-a"), profile("Studio B", "studio-b")],
+        }),
+      );
+    });
+
+    afterEach(() => {
+      delete (window as unknown as { __TAURI_INTERNALS__?: unknown }).__TAURI_INTERNALS__;
+      commandLineProfile = null;
+    });
+
+    it("applies the command-line profile once, so a later switch survives the reload", async () => {
+      commandLineProfile = "Studio A";
+      await applyLaunchProfile();
+      expect(readSetting(hostSetting).host).toBe("studio-a");
+
+      switchToProfile("Studio B", at);
+      await applyLaunchProfile();
+      expect(readSetting(profilesSetting).activeName).toBe("Studio B");
+      expect(readSetting(hostSetting).host).toBe("studio-b");
+    });
+  });
+});
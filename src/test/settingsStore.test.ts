@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+  decodeSetting,
+  encodeSetting,
+  getSettingIssues,
+  readSetting,
+  settingBackupKey,
+  type SettingDefinition,
+} from "@/lib/settingsStore";
+
+type MixerConfig = { host: string; port: number; enabled: boolean };
+
+const mixer: SettingDefinition<MixerConfig> = {
+  key: "test_mixer",
+  label: "Mixer",
+  version: 2,
+  schema: z.object({ host: z.string(), port: z.number().int().min(1), enabled: z.boolean() }),
+  defaults: { host: "192.168.0.100", port: 10023, enabled: false },
+  // Version 1 kept the address as "host:port".
+  migrations: {
+    1: (value) => {
+      const { address, ...rest } = value as { address?: string };
+      const [host, port] = (address ?? "").split(":");
+      return { ...rest, host, port: Number(port) };
+    },
+  },
+};
+
+describe("settings store", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("uses the defaults for unset keys without reporting", () => {
+    expect(decodeSetting(mixer, null)).toEqual({ value: mixer.defaults, issues: [] });
+  });
+
+  it("round-trips the versioned envelope", () => {
+    const value = { host: "10.0.0.5", port: 10024, enabled: true };
+    expect(decodeSetting(mixer, encodeSetting(mixer, value)).value).toEqual(value);
+  });
+
+  it("migrates bare values from before the store as version 1", () => {
+    const decoded = decodeSetting(mixer, JSON.stringify({ address: "10.0.0.5:10023", enabled: true }));
+    expect(decoded.value).toEqual({ host: "10.0.0.5", port: 10023, enabled: true });
+    expect(decoded.issues).toEqual([]);
+  });
+
+  it("reads plain-text values kept by older builds", () => {
+    const source: SettingDefinition<string> = {
+      key: "test_source",
+      label: "Source",
+      version: 1,
+      schema: z.enum(["local", "ntp"]),
+      defaults: "local",
+    };
+    expect(decodeSetting(source, "ntp").value).toBe("ntp");
+    expect(decodeSetting(source, "gps").issues).toHaveLength(1);
+  });
+
+  it("falls back field by field and reports each invalid field", () => {
+    const raw = encodeSetting(mixer, { host: "10.0.0.5", port: -1, enabled: "yes" } as unknown as MixerConfig);
+    const decoded = decodeSetting(mixer, raw);
+    expect(decoded.value).toEqual({ host: "10.0.0.5", port: 10023, enabled: false });
+    expect(decoded.issues.map((issue) => issue.message.split(":")[0])).toEqual(["port", "enabled"]);
+  });
+
+  it("fills fields added since the value was saved without reporting", () => {
+    const decoded = decodeSetting(mixer, JSON.stringify({ version: 2, value: { host: "10.0.0.5" } }));
+    expect(decoded.value).toEqual({ ...mixer.defaults, host: "10.0.0.5" });
+    expect(decoded.issues).toEqual([]);
+  });
+
+  it("does not guess at values from a newer version", () => {
+    const decoded = decodeSetting(mixer, JSON.stringify({ version: 3, value: { host: "x" } }));
+    expect(decoded.value).toEqual(mixer.defaults);
+    expect(decoded.issues[0].message).toMatch(/newer version/);
+  });
+
+  it("keeps the original text of a value that failed to load", () => {
+    const raw = JSON.stringify({ version: 2, value: "not an object" });
+    window.localStorage.setItem(mixer.key, raw);
+    expect(readSetting(mixer)).toEqual(mixer.defaults);
+    expect(window.localStorage.getItem(settingBackupKey(mixer.key))).toBe(raw);
+    expect(getSettingIssues().some((issue) => issue.key === mixer.key)).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import {
+  EMPTY_STOPWATCH,
+  formatStopwatch,
+  getElapsedMs,
+  lapsToCsvRows,
+  recordLap,
+  startStopwatch,
+  stopStopwatch,
+} from "@/lib/stopwatch";
+import { toCsv } from "@/lib/csv";
+
+describe("stopwatch", () => {
+  it("banks elapsed time across stop and restart", () => {
+    let state = startStopwatch(EMPTY_STOPWATCH, 1_000);
+    state = stopStopwatch(state, 6_000);
+    expect(getElapsedMs(state, 60_000)).toBe(5_000);
+    state = startStopwatch(state, 10_000);
+    expect(getElapsedMs(state, 12_500)).toBe(7_500);
+  });
+
+  it("records laps with splits", () => {
+    let state = startStopwatch(EMPTY_STOPWATCH, 0);
+    state = recordLap(state, 61_250);
+    state = recordLap(state, 90_000);
+    expect(state.laps.map((lap) => [lap.index, lap.lapMs, lap.splitMs])).toEqual([
+      [1, 61_250, 61_250],
+      [2, 28_750, 90_000],
+    ]);
+    expect(formatStopwatch(61_299)).toBe("00:01:01.2");
+    expect(toCsv(lapsToCsvRows(state.laps)).split("\r\n")[2]).toBe(
+      "2,00:00:28.7,00:01:30.0,28.8,90.0,1970-01-01T00:01:30.000Z",
+    );
+  });
+
+  it("quotes CSV cells that need it", () => {
+    expect(toCsv([["a,b", 'say "hi"', "plain"]])).toBe('"a,b","say ""hi""",plain');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { formatZonedTime, getZoneAbbreviation, isValidTimeZone } from "@/lib/timeZones";
+
+describe("time zones", () => {
+  it("follows the spring-forward DST transition", () => {
+    const before = new Date(Date.UTC(2024, 2, 10, 6, 59, 59));
+    const after = new Date(Date.UTC(2024, 2, 10, 7, 0, 0));
+    expect(formatZonedTime(before, "America/New_York")).toBe("01:59:59");
+    expect(formatZonedTime(after, "America/New_York")).toBe("03:00:00");
+  });
+
+  it("follows the fall-back DST transition", () => {
+    const before = new Date(Date.UTC(2024, 9, 27, 0, 59, 59));
+    const after = new Date(Date.UTC(2024, 9, 27, 1, 0, 0));
+    expect(formatZonedTime(before, "Europe/Stockholm")).toBe("02:59:59");
+    expect(formatZonedTime(after, "Europe/Stockholm")).toBe("02:00:00");
+  });
+
+  it("reports the zone abbreviation in effect", () => {
+    expect(getZoneAbbreviation(new Date(Date.UTC(2024, 0, 15)), "America/New_York")).toBe("EST");
+    expect(getZoneAbbreviation(new Date(Date.UTC(2024, 6, 15)), "America/New_York")).toBe("EDT");
+    expect(getZoneAbbreviation(new Date(Date.UTC(2024, 6, 15)), "Europe/Stockholm")).toBe("CEST");
+  });
+
+  it("validates IANA zone names", () => {
+    expect(isValidTimeZone("Asia/Tokyo")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatDurationTimecode,
+  framesToTimecode,
+  timecodeToFrames,
+  timeOfDayTimecode,
+  FRAME_RATE_IDS,
+} from "@/lib/timecode";
+
+describe("timecode", () => {
+  it("formats non-drop-frame rates", () => {
+    expect(framesToTimecode(25 * 3661 + 12, "25")).toBe("01:01:01:12");
+    expect(framesToTimecode(23, "24")).toBe("00:00:00:23");
+    expect(framesToTimecode(50 * 60, "50")).toBe("00:01:00:00");
+  });
+
+  it("skips frame labels at 29.97 drop-frame", () => {
+    expect(framesToTimecode(1799, "29.97df")).toBe("00:00:59;29");
+    expect(framesToTimecode(1800, "29.97df")).toBe("00:01:00;02");
+    expect(framesToTimecode(17982, "29.97df")).toBe("00:10:00;00");
+    expect(framesToTimecode(107892, "29.97df")).toBe("01:00:00;00");
+  });
+
+  it("skips four frame labels at 59.94 drop-frame", () => {
+    expect(framesToTimecode(3600, "59.94df")).toBe("00:01:00;04");
+    expect(framesToTimecode(35964, "59.94df")).toBe("00:10:00;00");
+  });
+
+  it("round-trips every frame rate", () => {
+    for (const id of FRAME_RATE_IDS) {
+      for (const frames of [0, 1, 1799, 1800, 17982, 107892, 215783]) {
+        expect(timecodeToFrames(framesToTimecode(frames, id), id)).toBe(frames);
+      }
+    }
+  });
+
+  it("rejects invalid frame numbers", () => {
+    expect(timecodeToFrames("00:00:01:25", "25")).toBeNull();
+    expect(timecodeToFrames("00:00:01", "25")).toBeNull();
+  });
+
+  it("derives time-of-day timecode with an offset", () => {
+    const date = new Date(2024, 0, 1, 12, 30, 15, 480);
+    expect(timeOfDayTimecode(date, "25")).toBe("12:30:15:12");
+    expect(timeOfDayTimecode(date, "25", -13)).toBe("12:30:14:24");
+    expect(timeOfDayTimecode(new Date(2024, 0, 1, 0, 0, 0, 0), "25", -1)).toBe("23:59:59:24");
+  });
+
+  it("formats durations", () => {
+    expect(formatDurationTimecode(90.48, "25")).toBe("00:01:30:12");
+  });
+});
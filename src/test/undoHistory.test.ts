@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { createUndoHistory, recordChange, redoChange, undoChange } from "@/lib/undoHistory";
+
+describe("undo history", () => {
+  it("undoes and redoes changes in order", () => {
+    let history = createUndoHistory<string>();
+    history = recordChange(history, "a", 1000);
+    history = recordChange(history, "b", 5000);
+
+    const first = undoChange(history, "c");
+    expect(first?.state).toBe("b");
+    const second = undoChange(first!.history, "b");
+    expect(second?.state).toBe("a");
+    expect(undoChange(second!.history, "a")).toBeNull();
+
+    const redone = redoChange(second!.history, "a");
+    expect(redone?.state).toBe("b");
+    expect(redone?.history.future).toEqual(["c"]);
+  });
+
+  it("drops the redo branch on a new change", () => {
+    let history = recordChange(createUndoHistory<string>(), "a", 1000);
+    history = undoChange(history, "b")!.history;
+    history = recordChange(history, "a", 2000);
+    expect(history.future).toEqual([]);
+    expect(history.past).toEqual(["a"]);
+  });
+
+  it("merges bursts of mergeable changes but not discrete ones", () => {
+    let history = createUndoHistory<string>();
+    history = recordChange(history, "", 1000, { mergeable: true });
+    history = recordChange(history, "H", 1200, { mergeable: true });
+    history = recordChange(history, "He", 1400, { mergeable: true });
+    expect(history.past).toEqual([""]);
+
+    history = recordChange(history, "Hej", 1500);
+    history = recordChange(history, "", 1600, { mergeable: true });
+    expect(history.past).toEqual(["", "Hej", ""]);
+  });
+
+  it("keeps at most the configured number of steps", () => {
+    let history = createUndoHistory<number>();
+    for (let step = 0; step < 5; step += 1) history = recordChange(history, step, step * 2000, { limit: 3 });
+    expect(history.past).toEqual([2, 3, 4]);
+  });
+});
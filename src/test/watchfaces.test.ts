@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { getWatchface, resolveWatchfaceSettings } from "@/components/clock/watchfaces";
+
+describe("watchface registry", () => {
+  it("falls back to the classic face for unknown ids", () => {
+    expect(getWatchface("station-logo-face").id).toBe("classic");
+    expect(getWatchface("analog").id).toBe("analog");
+  });
+
+  it("fills defaults and clamps stored values against the schema", () => {
+    const redStack = getWatchface("red-stack");
+    expect(resolveWatchfaceSettings(redStack, null)).toEqual({ ddrOffsetX: 42 });
+    expect(resolveWatchfaceSettings(redStack, { ddrOffsetX: 999, stale: true })).toEqual({ ddrOffsetX: 160 });
+
+    const analog = getWatchface("analog");
+    expect(resolveWatchfaceSettings(analog, { secondHand: "tick" })).toEqual({ secondHand: "tick" });
+    expect(resolveWatchfaceSettings(analog, { secondHand: "wobble" })).toEqual({ secondHand: "sweep" });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatX32Input,
+  formatX32Mixer,
+  getLiveX32Inputs,
+  hasX32Signal,
+  isX32InputLive,
+  parseX32Buses,
+  trackX32Signal,
+  x32ColorToCss,
+  type X32MixerPayload,
+  type X32StripPayload,
+} from "@/lib/x32";
+
+const strip = (overrides: Partial<X32StripPayload>): X32StripPayload => ({
+  kind: "ch",
+  number: 1,
+  on: true,
+  fader: 0.75,
+  dcas: [],
+  main: true,
+  name: "",
+  color: 0,
+  ...overrides,
+});
+
+const mixer = (overrides: Partial<X32MixerPayload> = {}): X32MixerPayload => ({
+  inputs: [],
+  buses: [],
+  dcas: [],
+  main: null,
+  updated_at: 0,
+  ...overrides,
+});
+
+const options = { threshold: 0.0001, followDca: true, requireMainBus: false, requireSignal: false };
+
+describe("x32 mic live", () => {
+  it("needs the input unmuted with its fader up", () => {
+    expect(isX32InputLive(strip({}), mixer(), options)).toBe(true);
+    expect(isX32InputLive(strip({ on: false }), mixer(), options)).toBe(false);
+    expect(isX32InputLive(strip({ fader: 0 }), mixer(), options)).toBe(false);
+  });
+
+  it("follows the DCAs an input is assigned to", () => {
+    const input = strip({ dcas: [2] });
+    const closed = mixer({ dcas: [strip({ kind: "dca", number: 2, on: true, fader: 0 })] });
+    expect(isX32InputLive(input, closed, options)).toBe(false);
+    expect(isX32InputLive(input, closed, { ...options, followDca: false })).toBe(true);
+    // A DCA the desk has not reported yet does not hold the mic back.
+    expect(isX32InputLive(input, mixer(), options)).toBe(true);
+  });
+
+  it("can require the main LR bus", () => {
+    const withMain = { ...options, requireMainBus: true };
+    expect(isX32InputLive(strip({ main: false }), mixer(), withMain)).toBe(false);
+    const mainMuted = mixer({ main: strip({ kind: "main", on: false }) });
+    expect(isX32InputLive(strip({}), mainMuted, withMain)).toBe(false);
+    expect(isX32InputLive(strip({}), mainMuted, options)).toBe(true);
+  });
+
+  it("can require signal on the meter, holding it through short pauses", () => {
+    const withSignal = { ...options, requireSignal: true };
+    const frame = (updatedAt: number, pre: number) => ({
+      inputs: [{ kind: "ch" as const, number: 1, pre, post: pre }],
+      updated_at: updatedAt,
+    });
+    const speaking = trackX32Signal({}, frame(1_000, 0.1), -50);
+    const paused = trackX32Signal(speaking, frame(2_000, 0), -50);
+    expect(hasX32Signal(paused, { kind: "ch", number: 1 }, 2_000)).toBe(true);
+    expect(hasX32Signal(paused, { kind: "ch", number: 1 }, 3_000)).toBe(false);
+    expect(hasX32Signal(paused, { kind: "ch", number: 2 }, 3_000)).toBeNull();
+    expect(hasX32Signal(trackX32Signal({}, frame(1_000, 0.001), -50), { kind: "ch", number: 1 }, 1_000)).toBe(false);
+
+    expect(isX32InputLive(strip({}), mixer(), withSignal, false)).toBe(false);
+    expect(isX32InputLive(strip({}), mixer(), withSignal, null)).toBe(true);
+    expect(isX32InputLive(strip({}), mixer(), options, false)).toBe(true);
+  });
+
+  it("lists live inputs in configured order with their labels", () => {
+    const state = mixer({
+      inputs: [strip({ number: 9 }), strip({ kind: "auxin", number: 1 }), strip({ number: 10, on: false })],
+    });
+    const inputs = [
+      { kind: "auxin" as const, number: 1, label: "" },
+      { kind: "ch" as const, number: 10, label: "GUEST" },
+      { kind: "ch" as const, number: 9, label: "ANNA" },
+    ];
+    const live = getLiveX32Inputs(inputs, state, options);
+    expect(live.map((input) => formatX32Input(input))).toEqual(["Aux 01", "ANNA"]);
+    expect(getLiveX32Inputs(inputs, null, options)).toEqual([]);
+  });
+
+  it("prefers the label, then the desk's strip name", () => {
+    const state = mixer({ inputs: [strip({ number: 3, name: " HOST ", color: 9 })] });
+    expect(formatX32Input({ kind: "ch", number: 3, label: "" }, state)).toBe("HOST");
+    expect(formatX32Input({ kind: "ch", number: 3, label: "ANNA" }, state)).toBe("ANNA");
+    expect(formatX32Input({ kind: "ch", number: 4, label: "" }, state)).toBe("Ch 04");
+    expect(x32ColorToCss(9)).toBe(x32ColorToCss(1));
+    expect(x32ColorToCss(0)).toBeNull();
+  });
+
+  it("describes discovered desks", () => {
+    const desk = { host: "192.168.0.64", port: 10023, name: "X32-02-4A-53", model: "X32", firmware: "4.06" };
+    expect(formatX32Mixer(desk)).toBe("X32-02-4A-53 • X32 4.06 • 192.168.0.64");
+    expect(formatX32Mixer({ ...desk, name: "", firmware: "" })).toBe("X32 • 192.168.0.64");
+  });
+
+  it("parses bus lists with ranges", () => {
+    expect(parseX32Buses("1, 3-5 4 20 x")).toEqual([1, 3, 4, 5]);
+    expect(parseX32Buses("")).toEqual([]);
+  });
+});
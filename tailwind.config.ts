@@ -85,10 +85,20 @@ export default {
             height: "0",
           },
         },
+        "indicator-flash": {
+          "0%, 100%": {
+            opacity: "1",
+          },
+          "50%": {
+            opacity: "0.2",
+          },
+        },
       },
       animation: {
         "accordion-down": "accordion-down 0.2s ease-out",
         "accordion-up": "accordion-up 0.2s ease-out",
+        "indicator-flash-slow": "indicator-flash 1.2s steps(1, end) infinite",
+        "indicator-flash-fast": "indicator-flash 0.5s steps(1, end) infinite",
       },
     },
   },